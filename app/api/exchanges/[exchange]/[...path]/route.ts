@@ -0,0 +1,43 @@
+import {
+  EXCHANGE_BASE_URLS,
+  EXCHANGE_NAMES,
+  fetchExchangeAPI,
+  findExchangeEndpoint,
+  isExchangeId,
+} from "@/lib/exchange-api"
+import { cachedJsonResponse, jsonError, ResponseCache } from "@/lib/server-cache"
+
+// Symbol lists change rarely
+const CATALOG_TTL_MS = 60 * 60 * 1000
+// Candle responses may end in an open candle, and the adapters ask for overlapping windows anyway
+const CANDLES_TTL_MS = 30 * 1000
+
+const cache = new ResponseCache()
+
+// Forwards the public market-data endpoints of Coinbase, Kraken and Bybit (see EXCHANGE_ENDPOINTS),
+// which the browser can't always call itself for lack of CORS headers
+export async function GET(request: Request, { params }: { params: Promise<{ exchange: string; path: string[] }> }) {
+  const { exchange, path: segments } = await params
+  if (!isExchangeId(exchange)) return jsonError(404, "Unknown exchange.")
+
+  const path = `/${segments.join("/")}`
+  const endpoint = findExchangeEndpoint(exchange, path)
+  if (!endpoint) return jsonError(404, `Unsupported ${EXCHANGE_NAMES[exchange]} endpoint.`)
+
+  const { searchParams } = new URL(request.url)
+  const query = Object.fromEntries([...searchParams.entries()].sort(([a], [b]) => a.localeCompare(b)))
+  const key = `${exchange}${path}?${new URLSearchParams(query)}`
+
+  try {
+    const entry = await cache.getOrLoad(key, async () => ({
+      data: await fetchExchangeAPI(exchange, path, query, { baseUrl: EXCHANGE_BASE_URLS[exchange] }),
+      ttlMs: endpoint.catalog ? CATALOG_TTL_MS : CANDLES_TTL_MS,
+    }))
+
+    return cachedJsonResponse(request, entry, {
+      "Cache-Control": endpoint.catalog ? "public, max-age=3600" : "no-cache",
+    })
+  } catch (error) {
+    return jsonError(502, error instanceof Error ? error.message : `Failed to fetch from ${EXCHANGE_NAMES[exchange]}`)
+  }
+}
@@ -0,0 +1,71 @@
+import type { KlineInterval } from "@/types/market"
+import { BINANCE_ENDPOINTS, binanceRateLimiter, fetchBinanceAPI, PROXY_USED_WEIGHT_HEADER } from "@/lib/binance-api"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+import { cachedJsonResponse, jsonError, ResponseCache } from "@/lib/server-cache"
+
+// Binance's own cap on rows per request
+const MAX_LIMIT = 1000
+const DEFAULT_LIMIT = 500
+// Pages still containing an open candle change every trade, so only hold them briefly
+const OPEN_PAGE_TTL_MS = 15 * 1000
+// Closed candles never change; the TTL only bounds how long the memory is held
+const CLOSED_PAGE_TTL_MS = 24 * 60 * 60 * 1000
+
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,20}$/
+
+const cache = new ResponseCache()
+
+const isKlineInterval = (value: string): value is KlineInterval => value in KLINE_INTERVAL_MS
+
+function parseTime(value: string | null): number | null | undefined {
+  if (value === null) return undefined
+  const time = Number(value)
+  return Number.isInteger(time) && time >= 0 ? time : null
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const symbol = searchParams.get("symbol")?.toUpperCase() ?? ""
+  const interval = searchParams.get("interval") ?? ""
+  const startTime = parseTime(searchParams.get("startTime"))
+  const endTime = parseTime(searchParams.get("endTime"))
+  const limit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT)
+
+  if (!SYMBOL_PATTERN.test(symbol)) return jsonError(400, "Invalid symbol.")
+  if (!isKlineInterval(interval)) return jsonError(400, "Invalid interval.")
+  if (startTime === null || endTime === null) return jsonError(400, "Invalid startTime or endTime.")
+  if (startTime !== undefined && endTime !== undefined && startTime > endTime) {
+    return jsonError(400, "startTime must not be after endTime.")
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) return jsonError(400, "Invalid limit.")
+
+  const params: Record<string, string | number> = { symbol, interval, limit }
+  if (startTime !== undefined) params.startTime = startTime
+  if (endTime !== undefined) params.endTime = endTime
+
+  const key = Object.entries(params)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&")
+
+  try {
+    const entry = await cache.getOrLoad(key, async () => {
+      const rows = await fetchBinanceAPI(BINANCE_ENDPOINTS.KLINES, params)
+      if (!Array.isArray(rows)) throw new Error("Invalid response format from Binance API")
+
+      // A full page may stop short of endTime, so closure is judged by its last row
+      const lastOpenTime = rows.length > 0 ? Number(rows[rows.length - 1][0]) : null
+      const coveredUntil = rows.length === limit && lastOpenTime !== null ? lastOpenTime : endTime
+      const closed = coveredUntil !== undefined && coveredUntil + KLINE_INTERVAL_MS[interval] <= Date.now()
+
+      return { data: rows, ttlMs: closed ? CLOSED_PAGE_TTL_MS : OPEN_PAGE_TTL_MS }
+    })
+
+    const closed = entry.expiresAt - Date.now() > OPEN_PAGE_TTL_MS
+    return cachedJsonResponse(request, entry, {
+      "Cache-Control": closed ? "public, max-age=86400" : "no-cache",
+      [PROXY_USED_WEIGHT_HEADER]: String(binanceRateLimiter.getState().usedWeight),
+    })
+  } catch (error) {
+    return jsonError(502, error instanceof Error ? error.message : "Failed to fetch klines from Binance")
+  }
+}
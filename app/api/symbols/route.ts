@@ -0,0 +1,39 @@
+import {
+  BINANCE_ENDPOINTS,
+  binanceRateLimiter,
+  fetchBinanceAPI,
+  isBinanceSymbolEntry,
+  PROXY_USED_WEIGHT_HEADER,
+} from "@/lib/binance-api"
+import { cachedJsonResponse, jsonError, ResponseCache } from "@/lib/server-cache"
+
+// exchangeInfo costs 20 weight and changes rarely
+const SYMBOLS_TTL_MS = 60 * 60 * 1000
+
+const cache = new ResponseCache(1)
+
+// Serves exchangeInfo reduced to the fields the symbol catalog reads, which is a fraction of
+// the full payload with its filters and order types
+export async function GET(request: Request) {
+  try {
+    const entry = await cache.getOrLoad("exchangeInfo", async () => {
+      const exchangeInfo: { symbols?: unknown[] } = await fetchBinanceAPI(BINANCE_ENDPOINTS.EXCHANGE_INFO)
+      if (!Array.isArray(exchangeInfo?.symbols)) throw new Error("Invalid exchangeInfo response from Binance API")
+
+      const symbols = exchangeInfo.symbols.filter(isBinanceSymbolEntry).map((symbol) => ({
+        symbol: symbol.symbol,
+        baseAsset: symbol.baseAsset,
+        quoteAsset: symbol.quoteAsset,
+        status: symbol.status,
+      }))
+      return { data: { symbols }, ttlMs: SYMBOLS_TTL_MS }
+    })
+
+    return cachedJsonResponse(request, entry, {
+      "Cache-Control": "public, max-age=3600",
+      [PROXY_USED_WEIGHT_HEADER]: String(binanceRateLimiter.getState().usedWeight),
+    })
+  } catch (error) {
+    return jsonError(502, error instanceof Error ? error.message : "Failed to fetch symbols from Binance")
+  }
+}
@@ -11,10 +11,14 @@ import { AlertSystem } from "@/components/alert-system"
 import { PatternAnalyzer } from "@/components/pattern-analyzer"
 import { ColorSchemeSettings } from "@/components/color-scheme-settings"
 import { useMarketData } from "@/hooks/use-market-data"
+import { findDatasetBySymbol } from "@/lib/datasets"
 import type { ViewMode, TimeRange, MarketData } from "@/types/market"
+import type { MonthDayBucket } from "@/lib/month-day-effects"
 import { NetworkStatus } from "@/components/network-status"
-import { ThemeProvider } from "@/contexts/theme-context"
-import { subMonths } from "date-fns"
+import { CacheSettings } from "@/components/cache-settings"
+import { DataQualityPanel } from "@/components/data-quality-panel"
+import { ThemeProvider, useTheme } from "@/contexts/theme-context"
+import { endOfMonth, startOfMonth, subMonths } from "date-fns"
 import { Menu, X, LayoutGrid, LayoutList } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -24,6 +28,7 @@ function MarketSeasonalityExplorerContent() {
   const [selectedSymbol, setSelectedSymbol] = useState("BTCUSDT")
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
   const [selectedRange, setSelectedRange] = useState<TimeRange | null>(null)
+  const [highlightedBucket, setHighlightedBucket] = useState<MonthDayBucket | null>(null)
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [layoutMode, setLayoutMode] = useState<"default" | "expanded">("default")
   const calendarRef = useRef<HTMLDivElement>(null)
@@ -42,21 +47,33 @@ function MarketSeasonalityExplorerContent() {
 
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
   const [historicalData, setHistoricalData] = useState<MarketData[]>([])
+  const { volatilityModel, tradingDay, tradingCalendar } = useTheme()
 
-  const { data, loading, error, refetch } = useMarketData({
+  const { data, quality, loading, error, progress, refetch } = useMarketData({
     symbol: selectedSymbol,
     viewMode,
     month: currentMonth,
+    volatilityModel,
+    tradingDay,
+    tradingCalendar,
+    live: true,
   })
 
+  // Volatility from different models isn't comparable, and candles of different trading days
+  // cover different hours, so start accumulating again
+  useEffect(() => {
+    setHistoricalData([])
+  }, [volatilityModel, tradingDay])
+
   useEffect(() => {
     if (!loading && !error && data.length > 0) {
       setLastUpdate(new Date())
       // Accumulate historical data for pattern analysis
       setHistoricalData((prev) => {
-        const combined = [...prev, ...data]
+        // Live updates resend the current month, so newer candles replace those with the same date
+        const byDate = new Map([...prev, ...data].map((item) => [item.date, item]))
         // Keep only last 6 months of data to prevent memory issues
-        return combined.slice(-180)
+        return [...byDate.values()].slice(-180)
       })
     }
   }, [loading, error, data])
@@ -76,6 +93,15 @@ function MarketSeasonalityExplorerContent() {
 
   const handleSymbolChange = (symbol: string) => {
     setSelectedSymbol(symbol)
+    // An imported dataset may end years ago, so open it on its last month rather than an empty one
+    const dataset = findDatasetBySymbol(symbol)
+    if (
+      dataset &&
+      (endOfMonth(currentMonth).getTime() < dataset.firstOpenTime ||
+        startOfMonth(currentMonth).getTime() > dataset.lastOpenTime)
+    ) {
+      setCurrentMonth(startOfMonth(new Date(dataset.lastOpenTime)))
+    }
     setSelectedDate(null)
     setSelectedRange(null)
     setHistoricalData([]) // Reset historical data for new symbol
@@ -129,7 +155,7 @@ function MarketSeasonalityExplorerContent() {
         </header>
         <div className="container mx-auto px-4 py-6">
           <div className="flex items-center justify-center h-96">
-            <LoadingSpinner />
+            <LoadingSpinner progress={progress} />
           </div>
         </div>
       </div>
@@ -172,9 +198,16 @@ function MarketSeasonalityExplorerContent() {
                 </Tabs>
               </div>
               <ColorSchemeSettings />
-              <ExportDialog data={data} symbol={selectedSymbol} currentMonth={currentMonth} calendarRef={calendarRef} />
+              <ExportDialog
+                symbol={selectedSymbol}
+                currentMonth={currentMonth}
+                selectedDate={selectedDate}
+                selectedRange={selectedRange}
+                calendarRef={calendarRef}
+              />
               <ComparisonDialog currentData={data} currentMonth={currentMonth} symbol={selectedSymbol} />
               <AlertSystem data={data} symbol={selectedSymbol} />
+              <CacheSettings />
               <NetworkStatus isLoading={loading} hasError={!!error} lastUpdate={lastUpdate} />
             </div>
 
@@ -195,13 +228,15 @@ function MarketSeasonalityExplorerContent() {
               <div className="grid grid-cols-2 gap-2 mb-4">
                 <ColorSchemeSettings />
                 <ExportDialog
-                  data={data}
                   symbol={selectedSymbol}
                   currentMonth={currentMonth}
+                  selectedDate={selectedDate}
+                  selectedRange={selectedRange}
                   calendarRef={calendarRef}
                 />
                 <ComparisonDialog currentData={data} currentMonth={currentMonth} symbol={selectedSymbol} />
                 <AlertSystem data={data} symbol={selectedSymbol} />
+                <CacheSettings />
               </div>
               <div className="flex justify-center">
                 <NetworkStatus isLoading={loading} hasError={!!error} lastUpdate={lastUpdate} />
@@ -231,18 +266,23 @@ function MarketSeasonalityExplorerContent() {
           <div ref={calendarRef} className="bg-card rounded-lg border p-3 sm:p-4">
             {loading ? (
               <div className="flex items-center justify-center h-64 sm:h-96">
-                <LoadingSpinner />
+                <LoadingSpinner progress={progress} />
               </div>
             ) : (
               <Calendar
                 viewMode={viewMode}
+                symbol={selectedSymbol}
                 data={data}
+                quality={quality}
                 currentMonth={currentMonth}
                 selectedDate={selectedDate}
                 selectedRange={selectedRange}
                 onDateSelect={handleDateSelect}
                 onRangeSelect={handleRangeSelect}
                 onMonthChange={setCurrentMonth}
+                onViewModeChange={setViewMode}
+                highlightedBucket={highlightedBucket}
+                onHighlightChange={setHighlightedBucket}
               />
             )}
           </div>
@@ -252,12 +292,14 @@ function MarketSeasonalityExplorerContent() {
             <DataDashboard
               selectedDate={selectedDate}
               selectedRange={selectedRange}
-              data={data}
               symbol={selectedSymbol}
               viewMode={viewMode}
             />
           </div>
 
+          {/* Data Quality - Mobile */}
+          <DataQualityPanel quality={quality} symbol={selectedSymbol} />
+
           {/* Pattern Analyzer - Mobile */}
           <div>
             <PatternAnalyzer data={data} symbol={selectedSymbol} historicalData={historicalData} />
@@ -285,32 +327,37 @@ function MarketSeasonalityExplorerContent() {
               <div ref={calendarRef} className="bg-card rounded-lg border p-6">
                 {loading ? (
                   <div className="flex items-center justify-center h-96">
-                    <LoadingSpinner />
+                    <LoadingSpinner progress={progress} />
                   </div>
                 ) : (
                   <Calendar
                     viewMode={viewMode}
+                    symbol={selectedSymbol}
                     data={data}
+                    quality={quality}
                     currentMonth={currentMonth}
                     selectedDate={selectedDate}
                     selectedRange={selectedRange}
                     onDateSelect={handleDateSelect}
                     onRangeSelect={handleRangeSelect}
                     onMonthChange={setCurrentMonth}
+                    onViewModeChange={setViewMode}
+                    highlightedBucket={highlightedBucket}
+                    onHighlightChange={setHighlightedBucket}
                   />
                 )}
               </div>
             </div>
 
             {/* Data Dashboard - Desktop */}
-            <div className="lg:col-span-1">
+            <div className="lg:col-span-1 space-y-4">
               <DataDashboard
                 selectedDate={selectedDate}
                 selectedRange={selectedRange}
-                data={data}
                 symbol={selectedSymbol}
                 viewMode={viewMode}
               />
+              <DataQualityPanel quality={quality} symbol={selectedSymbol} />
             </div>
           </div>
         )}
@@ -337,18 +384,23 @@ function MarketSeasonalityExplorerContent() {
                 <div ref={calendarRef} className="bg-card rounded-lg border p-6">
                   {loading ? (
                     <div className="flex items-center justify-center h-96">
-                      <LoadingSpinner />
+                      <LoadingSpinner progress={progress} />
                     </div>
                   ) : (
                     <Calendar
                       viewMode={viewMode}
+                      symbol={selectedSymbol}
                       data={data}
+                      quality={quality}
                       currentMonth={currentMonth}
                       selectedDate={selectedDate}
                       selectedRange={selectedRange}
                       onDateSelect={handleDateSelect}
                       onRangeSelect={handleRangeSelect}
                       onMonthChange={setCurrentMonth}
+                      onViewModeChange={setViewMode}
+                      highlightedBucket={highlightedBucket}
+                      onHighlightChange={setHighlightedBucket}
                       expandedView={true}
                     />
                   )}
@@ -359,15 +411,15 @@ function MarketSeasonalityExplorerContent() {
             {/* Bottom Row: Data Dashboard + Pattern Analyzer */}
             <div className="grid grid-cols-2 gap-6">
               {/* Data Dashboard */}
-              <div className="col-span-1">
+              <div className="col-span-1 space-y-6">
                 <DataDashboard
                   selectedDate={selectedDate}
                   selectedRange={selectedRange}
-                  data={data}
                   symbol={selectedSymbol}
                   viewMode={viewMode}
                   expandedView={true}
                 />
+                <DataQualityPanel quality={quality} symbol={selectedSymbol} />
               </div>
 
               {/* Pattern Analyzer */}
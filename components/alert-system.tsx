@@ -18,6 +18,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import type { MarketData } from "@/types/market"
+import { useTheme } from "@/contexts/theme-context"
+import { toDailyVolatility } from "@/lib/volatility"
 
 interface Alert {
   id: string
@@ -37,6 +39,7 @@ interface AlertSystemProps {
 export function AlertSystem({ data, symbol }: AlertSystemProps) {
   const [alerts, setAlerts] = useState<Alert[]>([])
   const [isOpen, setIsOpen] = useState(false)
+  const { volatilityModel } = useTheme()
   const [newAlert, setNewAlert] = useState({
     type: "volatility" as Alert["type"],
     condition: "above" as Alert["condition"],
@@ -56,7 +59,8 @@ export function AlertSystem({ data, symbol }: AlertSystemProps) {
         let currentValue = 0
         switch (alert.type) {
           case "volatility":
-            currentValue = latestData.volatility
+            // Thresholds are daily percent so alerts survive switching the model's units
+            currentValue = toDailyVolatility(latestData.volatility, volatilityModel)
             break
           case "performance":
             currentValue = Math.abs(performance)
@@ -88,7 +92,7 @@ export function AlertSystem({ data, symbol }: AlertSystemProps) {
         return alert
       }),
     )
-  }, [data, symbol])
+  }, [data, symbol, volatilityModel])
 
   useEffect(() => {
     if ("Notification" in window && Notification.permission === "default") {
@@ -182,7 +186,7 @@ export function AlertSystem({ data, symbol }: AlertSystemProps) {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="volatility">Volatility (%)</SelectItem>
+                        <SelectItem value="volatility">Volatility (% daily)</SelectItem>
                         <SelectItem value="performance">Performance (%)</SelectItem>
                         <SelectItem value="volume">Volume (M)</SelectItem>
                       </SelectContent>
@@ -0,0 +1,94 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { Database, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { klineCache, type KlineCacheStats } from "@/lib/kline-cache"
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
+export function CacheSettings() {
+  const [stats, setStats] = useState<KlineCacheStats | null>(null)
+  const [isClearing, setIsClearing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStats = useCallback(async () => {
+    if (!klineCache.isAvailable()) {
+      setError("Browser storage is not available")
+      return
+    }
+
+    try {
+      setStats(await klineCache.getStats())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read cache")
+    }
+  }, [])
+
+  const handleClear = async () => {
+    setIsClearing(true)
+    try {
+      await klineCache.clear()
+      await loadStats()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear cache")
+    } finally {
+      setIsClearing(false)
+    }
+  }
+
+  return (
+    <Popover onOpenChange={(open) => open && loadStats()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center space-x-2 bg-transparent">
+          <Database className="h-4 w-4" />
+          <span>Cache</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <div className="space-y-3">
+          <div>
+            <div className="text-sm font-medium">Market Data Cache</div>
+            <p className="text-xs text-muted-foreground">
+              Closed candles are stored in your browser and reused across visits.
+            </p>
+          </div>
+
+          {error ? (
+            <p className="text-xs text-red-500">{error}</p>
+          ) : (
+            <div className="space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Cached candles:</span>
+                <span className="font-medium">{stats ? stats.candles.toLocaleString() : "..."}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Storage used:</span>
+                <span className="font-medium">
+                  {stats ? (stats.usageBytes !== null ? formatBytes(stats.usageBytes) : "Unknown") : "..."}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={handleClear}
+            disabled={isClearing || !!error || stats?.candles === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            {isClearing ? "Clearing..." : "Clear Cache"}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -3,10 +3,12 @@
 import type React from "react"
 
 import { format } from "date-fns"
-import { TrendingUp, TrendingDown, Minus } from "lucide-react"
+import { TrendingUp, TrendingDown, Minus, AlertTriangle } from "lucide-react"
 import type { MarketData, ViewMode } from "@/types/market"
 import { cn } from "@/lib/utils"
 import { useTheme } from "@/contexts/theme-context"
+import { getCellMetricValue } from "@/lib/order-flow"
+import type { DataQualityIssue } from "@/lib/data-quality"
 
 interface CalendarCellProps {
   date: Date
@@ -20,6 +22,12 @@ interface CalendarCellProps {
   onMouseEnter: (event: React.MouseEvent) => void
   onMouseLeave: () => void
   expandedView?: boolean
+  metricRange?: { min: number; max: number }
+  qualityIssues?: DataQualityIssue[]
+  // Why the market was closed this day, per the trading calendar
+  closure?: string | null
+  // Matches the day-of-month bucket picked in the seasonality view
+  isHighlighted?: boolean
 }
 
 export function CalendarCell({
@@ -34,8 +42,22 @@ export function CalendarCell({
   onMouseEnter,
   onMouseLeave,
   expandedView = false,
+  metricRange,
+  qualityIssues,
+  closure,
+  isHighlighted = false,
 }: CalendarCellProps) {
-  const { getVolatilityColor, getPerformanceColor } = useTheme()
+  const { getVolatilityColor, getPerformanceColor, getScaleColor, cellColorMetric } = useTheme()
+
+  const getCellColor = (item: MarketData) => {
+    if (cellColorMetric === "volatility") return getVolatilityColor(item.volatility)
+
+    // Other metrics have no universal scale, so color relative to the visible month
+    const value = getCellMetricValue(item, cellColorMetric)
+    if (value === null || !metricRange) return "bg-muted/20"
+    const span = metricRange.max - metricRange.min
+    return getScaleColor(span > 0 ? (value - metricRange.min) / span : 0.5)
+  }
 
   const getPerformanceIcon = (performance: number) => {
     if (performance > 0.5) return <TrendingUp className="h-2 w-2 sm:h-3 sm:w-3" />
@@ -55,9 +77,11 @@ export function CalendarCell({
         isSelected && "ring-1 sm:ring-2 ring-primary ring-offset-1 sm:ring-offset-2",
         isToday && "ring-1 ring-blue-400",
         !isCurrentMonth && "opacity-50",
-        data && !isFuture && getVolatilityColor(data.volatility),
+        data && !isFuture && getCellColor(data),
         (!data || isFuture) && "bg-muted/20",
+        !data && !isFuture && closure && "bg-muted/50",
       )}
+      title={!data && !isFuture && closure ? `Market closed: ${closure}` : undefined}
       onClick={isFuture ? undefined : onClick}
       onMouseEnter={isFuture ? undefined : onMouseEnter}
       onMouseLeave={isFuture ? undefined : onMouseLeave}
@@ -72,11 +96,21 @@ export function CalendarCell({
         {format(date, "d")}
       </div>
 
+      {/* Day-of-month highlight */}
+      {isHighlighted && <div className="absolute inset-0 rounded-md border-2 border-amber-400 pointer-events-none" />}
+
       {/* Future indicator */}
       {isFuture && (
         <div className="absolute top-0.5 sm:top-1 right-0.5 sm:right-1 text-xs text-muted-foreground">?</div>
       )}
 
+      {/* Closed market - a holiday or weekend rather than missing data */}
+      {!data && !isFuture && closure && (
+        <div className="absolute inset-0 flex items-center justify-center text-[10px] sm:text-xs text-muted-foreground">
+          Closed
+        </div>
+      )}
+
       {/* Performance indicator - only for past dates with data */}
       {data && !isFuture && (
         <div className={`absolute top-0.5 sm:top-1 right-0.5 sm:right-1 ${getPerformanceColor(performance)}`}>
@@ -111,6 +145,16 @@ export function CalendarCell({
         <div className="absolute inset-0 bg-gradient-to-br from-transparent via-white/10 to-transparent rounded-md" />
       )}
 
+      {/* Data quality badge - rejected rows, exchange gaps or zero volume */}
+      {qualityIssues && qualityIssues.length > 0 && !isFuture && (
+        <div
+          className="absolute bottom-1.5 sm:bottom-2 right-0.5 sm:right-1 text-amber-500"
+          title={[...new Set(qualityIssues.map((issue) => issue.description))].join(", ")}
+        >
+          <AlertTriangle className="h-2 w-2 sm:h-3 sm:w-3" />
+        </div>
+      )}
+
       {/* Today indicator */}
       {isToday && (
         <div className="absolute -top-0.5 sm:-top-1 -right-0.5 sm:-right-1 h-2 w-2 sm:h-3 sm:w-3 bg-blue-500 rounded-full border-1 sm:border-2 border-background" />
@@ -2,15 +2,25 @@
 
 import { format } from "date-fns"
 import type { MarketData } from "@/types/market"
-import { TrendingUp, TrendingDown, BarChart3, Activity } from "lucide-react"
+import { TrendingUp, TrendingDown, BarChart3, Activity, ArrowLeftRight, Droplets, AlertTriangle } from "lucide-react"
+import { getOrderFlowMetrics, formatTradeCount } from "@/lib/order-flow"
+import { formatAmihud, formatNotional } from "@/lib/liquidity"
+import type { DataQualityIssue } from "@/lib/data-quality"
+import { formatVolatility, toDailyVolatility } from "@/lib/volatility"
+import { useTheme } from "@/contexts/theme-context"
 
 interface CalendarTooltipProps {
   date: Date
   data?: MarketData
   position: { x: number; y: number }
+  qualityIssues?: DataQualityIssue[]
+  closure?: string | null
 }
 
-export function CalendarTooltip({ date, data, position }: CalendarTooltipProps) {
+export function CalendarTooltip({ date, data, position, qualityIssues = [], closure }: CalendarTooltipProps) {
+  const issueDescriptions = [...new Set(qualityIssues.map((issue) => issue.description))]
+  const { volatilityModel } = useTheme()
+
   if (!data) {
     return (
       <div
@@ -22,13 +32,23 @@ export function CalendarTooltip({ date, data, position }: CalendarTooltipProps)
         }}
       >
         <div className="text-sm font-medium">{format(date, "MMMM d, yyyy")}</div>
-        <div className="text-xs text-muted-foreground">No trading data available</div>
+        <div className="text-xs text-muted-foreground">
+          {closure ? `Market closed: ${closure}` : "No trading data available"}
+        </div>
+        {issueDescriptions.length > 0 && (
+          <div className="mt-1 flex items-center text-xs text-amber-500">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {issueDescriptions.join(", ")}
+          </div>
+        )}
       </div>
     )
   }
 
   const performance = ((data.close - data.open) / data.open) * 100
   const priceRange = data.high - data.low
+  const orderFlow = getOrderFlowMetrics([data])
+  const dailyVolatility = toDailyVolatility(data.volatility, volatilityModel)
 
   return (
     <div
@@ -40,6 +60,12 @@ export function CalendarTooltip({ date, data, position }: CalendarTooltipProps)
       }}
     >
       <div className="text-sm font-medium mb-2">{format(date, "MMMM d, yyyy")}</div>
+      {issueDescriptions.length > 0 && (
+        <div className="mb-2 flex items-center text-xs text-amber-500">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          {issueDescriptions.join(", ")}
+        </div>
+      )}
 
       <div className="space-y-2 text-xs">
         {/* Price Information */}
@@ -85,10 +111,10 @@ export function CalendarTooltip({ date, data, position }: CalendarTooltipProps)
           <span className="text-muted-foreground">Volatility:</span>
           <span
             className={`font-medium ${
-              data.volatility > 2 ? "text-red-500" : data.volatility > 1 ? "text-yellow-500" : "text-green-500"
+              dailyVolatility > 2 ? "text-red-500" : dailyVolatility > 1 ? "text-yellow-500" : "text-green-500"
             }`}
           >
-            {data.volatility.toFixed(2)}%
+            {formatVolatility(data.volatility, volatilityModel)}
           </span>
         </div>
 
@@ -106,6 +132,56 @@ export function CalendarTooltip({ date, data, position }: CalendarTooltipProps)
             ${priceRange.toLocaleString()} ({((priceRange / data.open) * 100).toFixed(2)}%)
           </span>
         </div>
+
+        {/* Order Flow */}
+        {orderFlow && (
+          <div className="pt-2 border-t border-border space-y-1">
+            <div className="flex items-center space-x-2">
+              <ArrowLeftRight className="h-3 w-3 text-purple-500" />
+              <span className="text-muted-foreground">Taker Buy/Sell:</span>
+              <span className={`font-medium ${orderFlow.takerBuyRatio >= 1 ? "text-green-500" : "text-red-500"}`}>
+                {orderFlow.takerBuyRatio.toFixed(2)}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <div className="text-muted-foreground">Trades</div>
+                <div className="font-medium">{formatTradeCount(orderFlow.tradeCount)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Avg Trade</div>
+                <div className="font-medium">
+                  ${orderFlow.avgTradeSize.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Liquidity */}
+        {data.liquidity && (
+          <div className="pt-2 border-t border-border space-y-1">
+            <div className="flex items-center space-x-2">
+              <Droplets className="h-3 w-3 text-cyan-500" />
+              <span className="text-muted-foreground">Turnover:</span>
+              <span className="font-medium">{formatNotional(data.liquidity.turnover)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <div className="text-muted-foreground">Amihud</div>
+                <div className="font-medium">
+                  {data.liquidity.amihud !== null ? formatAmihud(data.liquidity.amihud) : "—"}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Est. Spread</div>
+                <div className="font-medium">
+                  {data.liquidity.spread !== null ? `${data.liquidity.spread.toFixed(3)}%` : "—"}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -2,12 +2,26 @@
 
 import type React from "react"
 
-import { useState, useEffect, useCallback } from "react"
-import { ChevronLeft, ChevronRight } from "lucide-react"
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { ChartSpline, ChevronLeft, ChevronRight, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { CalendarCell } from "@/components/calendar-cell"
 import { CalendarTooltip } from "@/components/calendar-tooltip"
-import type { ViewMode, MarketData, TimeRange } from "@/types/market"
+import { IntradayHeatmap } from "@/components/intraday-heatmap"
+import { SeasonalityHeatmap } from "@/components/seasonality-heatmap"
+import { WeekdayEffects } from "@/components/weekday-effects"
+import { MonthDayEffects } from "@/components/month-day-effects"
+import { SeasonalPathDialog } from "@/components/seasonal-path-dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useTheme } from "@/contexts/theme-context"
+import { useEarliestMonth } from "@/hooks/use-symbol-catalog"
+import { formatVolatility, toDailyVolatility } from "@/lib/volatility"
+import { getCellMetricValue } from "@/lib/order-flow"
+import { getDataQualityIssuesByDate, type DataQualityIssue } from "@/lib/data-quality"
+import { parseTradingDate } from "@/lib/trading-day"
+import { countCalendarDays, filterTradingDays, getClosure } from "@/lib/trading-calendar"
+import { formatMonthDayBucket, matchesMonthDayBucket, type MonthDayBucket } from "@/lib/month-day-effects"
+import type { ViewMode, MarketData, TimeRange, DataQualityReport } from "@/types/market"
 import {
   format,
   startOfMonth,
@@ -26,29 +40,60 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 
 interface CalendarProps {
   viewMode: ViewMode
+  symbol: string
   data: MarketData[]
+  quality?: DataQualityReport | null
   currentMonth: Date
   selectedDate: Date | null
   selectedRange: TimeRange | null
   onDateSelect: (date: Date) => void
   onRangeSelect: (range: TimeRange) => void
   onMonthChange: (month: Date) => void
+  onViewModeChange?: (mode: ViewMode) => void
+  // Days matching this day-of-month bucket are highlighted in the daily view
+  highlightedBucket?: MonthDayBucket | null
+  onHighlightChange?: (bucket: MonthDayBucket | null) => void
   expandedView?: boolean
 }
 
 export function Calendar({
   viewMode,
+  symbol,
   data,
+  quality,
   currentMonth,
   selectedDate,
   selectedRange,
   onDateSelect,
   onRangeSelect,
   onMonthChange,
+  onViewModeChange,
+  highlightedBucket = null,
+  onHighlightChange,
   expandedView = false,
 }: CalendarProps) {
   const [hoveredDate, setHoveredDate] = useState<Date | null>(null)
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 })
+  const [seasonalPathOpen, setSeasonalPathOpen] = useState(false)
+  const { cellColorMetric, volatilityModel, tradingDay, tradingCalendar } = useTheme()
+
+  const getVolatilityTextColor = (volatility: number) => {
+    const daily = toDailyVolatility(volatility, volatilityModel)
+    return daily > 2 ? "text-red-500" : daily > 1 ? "text-yellow-500" : "text-green-500"
+  }
+
+  const metricRange = useMemo(() => {
+    const values = data
+      .map((item) => getCellMetricValue(item, cellColorMetric))
+      .filter((value): value is number => value !== null)
+    if (values.length === 0) return undefined
+    return { min: Math.min(...values), max: Math.max(...values) }
+  }, [data, cellColorMetric])
+
+  const qualityIssuesByDate = useMemo(
+    () => (quality ? getDataQualityIssuesByDate(quality, tradingDay) : new Map<string, DataQualityIssue[]>()),
+    [quality, tradingDay],
+  )
 
   const monthStart = startOfMonth(currentMonth)
   const monthEnd = endOfMonth(currentMonth)
@@ -63,12 +108,28 @@ export function Calendar({
   const isNextMonthFuture = isFuture(startOfMonth(nextMonth))
 
   const prevMonth = subMonths(currentMonth, 1)
-  const binanceLaunchDate = new Date(2017, 6, 1) // July 2017 when Binance launched
-  const isPrevMonthTooOld = prevMonth < binanceLaunchDate
+  const earliestMonth = useEarliestMonth(symbol)
+  const isPrevMonthTooOld = prevMonth < earliestMonth
+
+  // Days up to today, split into those the market was open without a candle and those it was closed
+  const todayLabel = format(new Date(), "yyyy-MM-dd")
+  const describeTradingDays = (first: string, last: string, received: number) => {
+    const end = last < todayLabel ? last : todayLabel
+    const { open, closed } = first <= end ? countCalendarDays(tradingCalendar, first, end) : { open: 0, closed: 0 }
+    const missing = Math.max(0, open - received)
+    return [
+      `${received} trading day${received === 1 ? "" : "s"}`,
+      closed > 0 && `${closed} closed`,
+      missing > 0 && `${missing} missing`,
+    ]
+      .filter(Boolean)
+      .join(" · ")
+  }
 
   const getDataForDate = useCallback(
     (date: Date) => {
-      return data.find((item) => isSameDay(new Date(item.date), date))
+      const label = format(date, "yyyy-MM-dd")
+      return data.find((item) => item.date === label)
     },
     [data],
   )
@@ -100,8 +161,8 @@ export function Calendar({
 
       event.preventDefault()
 
-      // Don't allow selection of future dates or dates before Binance launch
-      if (isFuture(newDate) || newDate < binanceLaunchDate) {
+      // Don't allow selection of future dates or dates before the symbol's data starts
+      if (isFuture(newDate) || newDate < earliestMonth) {
         return
       }
 
@@ -138,8 +199,8 @@ export function Calendar({
   }
 
   const handleDateClick = (date: Date) => {
-    // Don't allow selection of future dates or dates before Binance launch
-    if (isFuture(date) || date < binanceLaunchDate) {
+    // Don't allow selection of future dates or dates before the symbol's data starts
+    if (isFuture(date) || date < earliestMonth) {
       return
     }
     onDateSelect(date)
@@ -155,7 +216,9 @@ export function Calendar({
           onClick={() => navigateMonth("prev")}
           className="h-8 w-8 p-0 shrink-0"
           disabled={isPrevMonthTooOld}
-          title={isPrevMonthTooOld ? "Cannot go further back than July 2017" : "Previous month"}
+          title={
+            isPrevMonthTooOld ? `Cannot go further back than ${format(earliestMonth, "MMMM yyyy")}` : "Previous month"
+          }
         >
           <ChevronLeft className="h-4 w-4" />
         </Button>
@@ -167,7 +230,7 @@ export function Calendar({
               onValueChange={(monthStr) => {
                 const month = Number.parseInt(monthStr)
                 const newDate = new Date(currentMonth.getFullYear(), month, 1)
-                if (!isFuture(startOfMonth(newDate)) && newDate >= binanceLaunchDate) {
+                if (!isFuture(startOfMonth(newDate)) && newDate >= earliestMonth) {
                   onMonthChange(newDate)
                 }
               }}
@@ -179,7 +242,7 @@ export function Calendar({
                 {Array.from({ length: 12 }, (_, i) => {
                   const monthDate = new Date(currentMonth.getFullYear(), i, 1)
                   const isFutureMonth = isFuture(startOfMonth(monthDate))
-                  const isTooOld = monthDate < binanceLaunchDate
+                  const isTooOld = monthDate < earliestMonth
 
                   return (
                     <SelectItem
@@ -191,7 +254,7 @@ export function Calendar({
                       <span className="hidden sm:inline">{format(monthDate, "MMMM")}</span>
                       <span className="sm:hidden">{format(monthDate, "MMM")}</span>
                       {isFutureMonth && <span className="text-xs ml-1">(Future)</span>}
-                      {isTooOld && <span className="text-xs ml-1">(Pre-2017)</span>}
+                      {isTooOld && <span className="text-xs ml-1">(No data)</span>}
                     </SelectItem>
                   )
                 })}
@@ -203,7 +266,7 @@ export function Calendar({
               onValueChange={(yearStr) => {
                 const year = Number.parseInt(yearStr)
                 const newDate = new Date(year, currentMonth.getMonth(), 1)
-                if (!isFuture(startOfMonth(newDate)) && newDate >= binanceLaunchDate) {
+                if (!isFuture(startOfMonth(newDate)) && newDate >= earliestMonth) {
                   onMonthChange(newDate)
                 }
               }}
@@ -212,7 +275,7 @@ export function Calendar({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent className="max-h-60">
-                {Array.from({ length: 8 }, (_, i) => {
+                {Array.from({ length: new Date().getFullYear() - earliestMonth.getFullYear() + 1 }, (_, i) => {
                   const year = new Date().getFullYear() - i
                   return (
                     <SelectItem key={year} value={year.toString()}>
@@ -222,14 +285,25 @@ export function Calendar({
                 })}
               </SelectContent>
             </Select>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() => setSeasonalPathOpen(true)}
+              aria-label="Seasonal path"
+              title={`${format(currentMonth, "MMMM yyyy")} against its seasonal path`}
+            >
+              <ChartSpline className="h-4 w-4" />
+            </Button>
           </div>
 
           {isFuture(startOfMonth(currentMonth)) && (
             <p className="text-xs text-orange-600 mt-1">Future month - limited data</p>
           )}
 
-          {currentMonth < binanceLaunchDate && (
-            <p className="text-xs text-red-600 mt-1">Pre-Binance era - no data available</p>
+          {currentMonth < earliestMonth && (
+            <p className="text-xs text-red-600 mt-1">No data before {format(earliestMonth, "MMMM yyyy")}</p>
           )}
         </div>
 
@@ -315,6 +389,25 @@ export function Calendar({
         ))}
       </div>
 
+      {highlightedBucket && (
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <span className="inline-block h-3 w-3 rounded-sm border-2 border-amber-400" />
+          <span>{formatMonthDayBucket(highlightedBucket)} days</span>
+          {onHighlightChange && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-5 w-5 p-0"
+              onClick={() => onHighlightChange(null)}
+              aria-label="Clear highlight"
+              title="Clear highlight"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Calendar Grid */}
       <div className="grid grid-cols-7 gap-1">
         {days.map((day) => {
@@ -323,7 +416,11 @@ export function Calendar({
           const isCurrentMonth = isSameMonth(day, currentMonth)
           const isToday = isSameDay(day, new Date())
           const isFutureDate = isFuture(day)
-          const isPreBinance = day < binanceLaunchDate
+          const isBeforeData = day < earliestMonth
+          const label = format(day, "yyyy-MM-dd")
+          const closure = getClosure(tradingCalendar, label)
+          const isHighlighted =
+            highlightedBucket !== null && !closure && matchesMonthDayBucket(tradingCalendar, label, highlightedBucket)
 
           return (
             <CalendarCell
@@ -333,12 +430,16 @@ export function Calendar({
               isSelected={isSelected}
               isCurrentMonth={isCurrentMonth}
               isToday={isToday}
-              isFuture={isFutureDate || isPreBinance}
+              isFuture={isFutureDate || isBeforeData}
               viewMode={viewMode}
               onClick={() => handleDateClick(day)}
               onMouseEnter={(e) => handleMouseEnter(day, e)}
               onMouseLeave={handleMouseLeave}
               expandedView={expandedView}
+              metricRange={metricRange}
+              qualityIssues={qualityIssuesByDate.get(label)}
+              closure={closure}
+              isHighlighted={isHighlighted}
             />
           )
         })}
@@ -347,11 +448,13 @@ export function Calendar({
       {/* Data availability notice */}
       {data.length === 0 && (
         <div className="text-center text-sm text-muted-foreground py-4 bg-muted/20 rounded-lg">
-          {currentMonth < binanceLaunchDate ? (
+          {currentMonth < earliestMonth ? (
             <>
               No trading data available for {format(currentMonth, "MMMM yyyy")}
               <br />
-              <span className="text-xs">Binance launched in July 2017. Try selecting a more recent date.</span>
+              <span className="text-xs">
+                Data starts in {format(earliestMonth, "MMMM yyyy")}. Try selecting a more recent date.
+              </span>
             </>
           ) : (
             <>
@@ -362,6 +465,13 @@ export function Calendar({
           )}
         </div>
       )}
+
+      <SeasonalPathDialog
+        open={seasonalPathOpen}
+        onOpenChange={setSeasonalPathOpen}
+        symbol={symbol}
+        month={currentMonth}
+      />
     </div>
   )
 
@@ -395,10 +505,13 @@ export function Calendar({
       <div className="space-y-2">
         {weeks.map((weekStart, index) => {
           const weekEnd = endOfWeek(weekStart)
-          const weekData = data.filter((item) => {
-            const itemDate = new Date(item.date)
+          // Rows on closed days (e.g. a vendor's forward-filled weekends) would dilute the averages
+          const weekData = filterTradingDays(data, tradingCalendar).filter((item) => {
+            const itemDate = parseTradingDate(item.date)
             return itemDate >= weekStart && itemDate <= weekEnd
           })
+          const firstDay = format(weekStart < monthStart ? monthStart : weekStart, "yyyy-MM-dd")
+          const lastDay = format(weekEnd > monthEnd ? monthEnd : weekEnd, "yyyy-MM-dd")
 
           const avgVolatility = weekData.reduce((sum, item) => sum + item.volatility, 0) / weekData.length || 0
           const totalVolume = weekData.reduce((sum, item) => sum + item.volume, 0)
@@ -408,33 +521,33 @@ export function Calendar({
                 100
               : 0
 
-          // Don't allow selection of future weeks or pre-Binance weeks
+          // Don't allow selection of future weeks or weeks before the data starts
           const isFutureWeek = isFuture(weekStart)
-          const isPreBinanceWeek = weekStart < binanceLaunchDate
+          const isBeforeDataWeek = weekStart < earliestMonth
 
           return (
             <div
               key={index}
               className={`flex flex-col sm:flex-row sm:items-center justify-between p-3 border rounded-lg transition-colors ${
-                isFutureWeek || isPreBinanceWeek ? "opacity-50 cursor-not-allowed" : "hover:bg-muted/50 cursor-pointer"
+                isFutureWeek || isBeforeDataWeek ? "opacity-50 cursor-not-allowed" : "hover:bg-muted/50 cursor-pointer"
               }`}
-              onClick={() => !(isFutureWeek || isPreBinanceWeek) && onRangeSelect({ start: weekStart, end: weekEnd })}
+              onClick={() => !(isFutureWeek || isBeforeDataWeek) && onRangeSelect({ start: weekStart, end: weekEnd })}
             >
               <div className="flex-1 mb-2 sm:mb-0">
                 <div className="font-medium text-sm sm:text-base">
                   Week {index + 1}: {format(weekStart, "MMM d")} - {format(weekEnd, "MMM d")}
                   {isFutureWeek && <span className="text-xs text-orange-600 ml-2">(Future)</span>}
-                  {isPreBinanceWeek && <span className="text-xs text-red-600 ml-2">(Pre-2017)</span>}
+                  {isBeforeDataWeek && <span className="text-xs text-red-600 ml-2">(No data)</span>}
+                </div>
+                <div className="text-xs sm:text-sm text-muted-foreground">
+                  {describeTradingDays(firstDay, lastDay, weekData.length)}
                 </div>
-                <div className="text-xs sm:text-sm text-muted-foreground">{weekData.length} trading days</div>
               </div>
               <div className="grid grid-cols-3 gap-2 sm:flex sm:items-center sm:space-x-4 text-xs sm:text-sm">
                 <div className="text-center">
                   <div className="text-muted-foreground">Volatility</div>
-                  <div
-                    className={`font-medium ${avgVolatility > 2 ? "text-red-500" : avgVolatility > 1 ? "text-yellow-500" : "text-green-500"}`}
-                  >
-                    {avgVolatility.toFixed(2)}%
+                  <div className={`font-medium ${getVolatilityTextColor(avgVolatility)}`}>
+                    {formatVolatility(avgVolatility, volatilityModel)}
                   </div>
                 </div>
                 <div className="text-center">
@@ -456,10 +569,69 @@ export function Calendar({
     </div>
   )
 
+  const renderIntradayView = () => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => navigateMonth("prev")}
+          className="h-8 w-8 p-0"
+          disabled={isPrevMonthTooOld}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <h2 className="text-base sm:text-lg font-semibold text-center flex-1">
+          <span className="hidden sm:inline">{format(currentMonth, "MMMM yyyy")} - Intraday Heatmap</span>
+          <span className="sm:hidden">{format(currentMonth, "MMM yyyy")} - Intraday</span>
+        </h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => navigateMonth("next")}
+          className="h-8 w-8 p-0"
+          disabled={isNextMonthFuture}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <IntradayHeatmap symbol={symbol} currentMonth={currentMonth} expandedView={expandedView} />
+    </div>
+  )
+
+  const renderSeasonalityView = () => (
+    <div className="space-y-4">
+      <h2 className="text-base sm:text-lg font-semibold text-center">Seasonality</h2>
+      <Tabs defaultValue="months">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="months">Month of Year</TabsTrigger>
+          <TabsTrigger value="monthDays">Day of Month</TabsTrigger>
+          <TabsTrigger value="weekdays">Day of Week</TabsTrigger>
+        </TabsList>
+        <TabsContent value="months">
+          <SeasonalityHeatmap symbol={symbol} expandedView={expandedView} />
+        </TabsContent>
+        <TabsContent value="monthDays">
+          <MonthDayEffects
+            symbol={symbol}
+            expandedView={expandedView}
+            highlightedBucket={highlightedBucket}
+            onHighlightChange={(bucket) => onHighlightChange?.(bucket)}
+            onShowInCalendar={onViewModeChange && (() => onViewModeChange("daily"))}
+          />
+        </TabsContent>
+        <TabsContent value="weekdays">
+          <WeekdayEffects symbol={symbol} expandedView={expandedView} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+
   const renderMonthlyView = () => {
-    const monthlyData = data.reduce(
+    const monthlyData = filterTradingDays(data, tradingCalendar).reduce(
       (acc, item) => {
-        const month = format(new Date(item.date), "yyyy-MM")
+        const month = item.date.slice(0, 7)
         if (!acc[month]) {
           acc[month] = []
         }
@@ -486,18 +658,18 @@ export function Calendar({
             const monthStart = new Date(month + "-01")
             const monthEnd = endOfMonth(monthStart)
             const isFutureMonth = isFuture(monthStart)
-            const isPreBinanceMonth = monthStart < binanceLaunchDate
+            const isBeforeDataMonth = monthStart < earliestMonth
 
             return (
               <div
                 key={month}
                 className={`p-4 border rounded-lg transition-colors ${
-                  isFutureMonth || isPreBinanceMonth
+                  isFutureMonth || isBeforeDataMonth
                     ? "opacity-50 cursor-not-allowed"
                     : "hover:bg-muted/50 cursor-pointer"
                 }`}
                 onClick={() => {
-                  if (!(isFutureMonth || isPreBinanceMonth)) {
+                  if (!(isFutureMonth || isBeforeDataMonth)) {
                     onRangeSelect({ start: monthStart, end: monthEnd })
                   }
                 }}
@@ -507,17 +679,21 @@ export function Calendar({
                     <div className="font-medium text-base sm:text-lg">
                       {format(monthStart, "MMMM yyyy")}
                       {isFutureMonth && <span className="text-xs text-orange-600 ml-2">(Future)</span>}
-                      {isPreBinanceMonth && <span className="text-xs text-red-600 ml-2">(Pre-2017)</span>}
+                      {isBeforeDataMonth && <span className="text-xs text-red-600 ml-2">(No data)</span>}
+                    </div>
+                    <div className="text-xs sm:text-sm text-muted-foreground">
+                      {describeTradingDays(
+                        `${month}-01`,
+                        format(endOfMonth(parseTradingDate(`${month}-01`)), "yyyy-MM-dd"),
+                        monthData.length,
+                      )}
                     </div>
-                    <div className="text-xs sm:text-sm text-muted-foreground">{monthData.length} trading days</div>
                   </div>
                   <div className="grid grid-cols-3 gap-2 sm:gap-4 text-xs sm:text-sm">
                     <div className="text-center">
                       <div className="text-muted-foreground">Avg Volatility</div>
-                      <div
-                        className={`font-medium ${avgVolatility > 2 ? "text-red-500" : avgVolatility > 1 ? "text-yellow-500" : "text-green-500"}`}
-                      >
-                        {avgVolatility.toFixed(2)}%
+                      <div className={`font-medium ${getVolatilityTextColor(avgVolatility)}`}>
+                        {formatVolatility(avgVolatility, volatilityModel)}
                       </div>
                     </div>
                     <div className="text-center">
@@ -546,9 +722,17 @@ export function Calendar({
       {viewMode === "daily" && renderDailyView()}
       {viewMode === "weekly" && renderWeeklyView()}
       {viewMode === "monthly" && renderMonthlyView()}
+      {viewMode === "intraday" && renderIntradayView()}
+      {viewMode === "seasonality" && renderSeasonalityView()}
 
       {hoveredDate && (
-        <CalendarTooltip date={hoveredDate} data={getDataForDate(hoveredDate)} position={tooltipPosition} />
+        <CalendarTooltip
+          date={hoveredDate}
+          data={getDataForDate(hoveredDate)}
+          position={tooltipPosition}
+          qualityIssues={qualityIssuesByDate.get(format(hoveredDate, "yyyy-MM-dd"))}
+          closure={getClosure(tradingCalendar, format(hoveredDate, "yyyy-MM-dd"))}
+        />
       )}
     </div>
   )
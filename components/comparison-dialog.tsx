@@ -17,7 +17,15 @@ import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import type { MarketData } from "@/types/market"
-import { format, subMonths, startOfMonth, endOfMonth, isFuture } from "date-fns"
+import { getDataSource, loadMarketData, resolveMarketSymbol } from "@/lib/data-sources"
+import { parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { describeSymbol } from "@/lib/symbol-catalog"
+import { formatVolatility } from "@/lib/volatility"
+import { useTheme } from "@/contexts/theme-context"
+import { useSymbolCatalog } from "@/hooks/use-symbol-catalog"
+import { SymbolPicker } from "@/components/symbol-picker"
+import { ExchangeSelect } from "@/components/exchange-select"
+import { format, subMonths, startOfMonth, endOfMonth, isFuture, subDays, addDays } from "date-fns"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts"
 
 interface ComparisonDialogProps {
@@ -26,78 +34,6 @@ interface ComparisonDialogProps {
   symbol: string
 }
 
-// Available trading pairs for comparison
-const CRYPTO_SYMBOLS = [
-  { value: "BTCUSDT", label: "Bitcoin (BTC/USDT)", shortLabel: "BTC" },
-  { value: "ETHUSDT", label: "Ethereum (ETH/USDT)", shortLabel: "ETH" },
-  { value: "BNBUSDT", label: "Binance Coin (BNB/USDT)", shortLabel: "BNB" },
-  { value: "ADAUSDT", label: "Cardano (ADA/USDT)", shortLabel: "ADA" },
-  { value: "SOLUSDT", label: "Solana (SOL/USDT)", shortLabel: "SOL" },
-  { value: "XRPUSDT", label: "Ripple (XRP/USDT)", shortLabel: "XRP" },
-  { value: "DOTUSDT", label: "Polkadot (DOT/USDT)", shortLabel: "DOT" },
-  { value: "AVAXUSDT", label: "Avalanche (AVAX/USDT)", shortLabel: "AVAX" },
-  { value: "MATICUSDT", label: "Polygon (MATIC/USDT)", shortLabel: "MATIC" },
-  { value: "LINKUSDT", label: "Chainlink (LINK/USDT)", shortLabel: "LINK" },
-  { value: "UNIUSDT", label: "Uniswap (UNI/USDT)", shortLabel: "UNI" },
-  { value: "LTCUSDT", label: "Litecoin (LTC/USDT)", shortLabel: "LTC" },
-  { value: "BCHUSDT", label: "Bitcoin Cash (BCH/USDT)", shortLabel: "BCH" },
-  { value: "XLMUSDT", label: "Stellar (XLM/USDT)", shortLabel: "XLM" },
-  { value: "VETUSDT", label: "VeChain (VET/USDT)", shortLabel: "VET" },
-]
-
-// Binance API fetch function
-const fetchBinanceData = async (symbol: string, startTime: number, endTime: number): Promise<MarketData[]> => {
-  try {
-    const url = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=1d&startTime=${startTime}&endTime=${endTime}&limit=1000`
-
-    const response = await fetch(url)
-    if (!response.ok) {
-      throw new Error(`Binance API error: ${response.status}`)
-    }
-
-    const klineData: any[] = await response.json()
-
-    return klineData
-      .map((kline) => {
-        if (!Array.isArray(kline) || kline.length < 11) return null
-
-        const [openTime, open, high, low, close, volume] = kline
-
-        const openPrice = Number.parseFloat(open)
-        const highPrice = Number.parseFloat(high)
-        const lowPrice = Number.parseFloat(low)
-        const closePrice = Number.parseFloat(close)
-        const volumeValue = Number.parseFloat(volume)
-
-        if (isNaN(openPrice) || isNaN(highPrice) || isNaN(lowPrice) || isNaN(closePrice) || isNaN(volumeValue)) {
-          return null
-        }
-
-        const timestamp = Number(openTime)
-        if (isNaN(timestamp) || timestamp <= 0) return null
-
-        const date = new Date(timestamp)
-        if (isNaN(date.getTime())) return null
-
-        const dailyVolatility = openPrice > 0 ? ((highPrice - lowPrice) / openPrice) * 100 : 0
-
-        return {
-          date: format(date, "yyyy-MM-dd"),
-          open: openPrice,
-          high: highPrice,
-          low: lowPrice,
-          close: closePrice,
-          volume: volumeValue,
-          volatility: Math.max(0, dailyVolatility),
-        }
-      })
-      .filter((item): item is MarketData => item !== null)
-  } catch (error) {
-    console.error("Error fetching comparison data:", error)
-    throw error
-  }
-}
-
 // Generate month/year options for the last 5 years
 const generateMonthYearOptions = () => {
   const options = []
@@ -134,10 +70,17 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
   const [customMonth, setCustomMonth] = useState<Date | null>(null)
 
   // Symbol-based comparison state
+  // Exchange-qualified, so a pair can be compared against another exchange's, e.g. "kraken:XBTUSD"
   const [comparisonSymbol, setComparisonSymbol] = useState<string>("")
+  const currentExchange = parseExchangeSymbol(symbol).exchange
+  const [comparisonExchange, setComparisonExchange] = useState<string>(currentExchange)
   const [symbolComparisonPeriod, setSymbolComparisonPeriod] = useState<string>("same-period")
   const [symbolCustomMonth, setSymbolCustomMonth] = useState<Date | null>(null)
 
+  const { symbols } = useSymbolCatalog(getDataSource(currentExchange))
+  const { symbols: comparisonSymbols } = useSymbolCatalog(getDataSource(comparisonExchange))
+  const { volatilityModel, tradingDay } = useTheme()
+
   const [comparisonData, setComparisonData] = useState<MarketData[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -210,7 +153,22 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
 
       console.log(`Loading comparison data for ${compSymbol} in ${format(compMonth, "MMMM yyyy")}`)
 
-      const data = await fetchBinanceData(compSymbol, monthStart.getTime(), monthEnd.getTime())
+      // Fetch the estimator window ahead of the month so the first days have full history, like the main view
+      const { source, symbol: exchangeSymbol } = resolveMarketSymbol(compSymbol)
+      const windowData = await loadMarketData(
+        source,
+        {
+          symbol: exchangeSymbol,
+          interval: "1d",
+          startTime: subDays(monthStart, volatilityModel.window).getTime(),
+          endTime: Math.min(addDays(monthEnd, 1).getTime(), Date.now()),
+        },
+        volatilityModel,
+        tradingDay,
+      )
+      const firstDay = format(monthStart, "yyyy-MM-dd")
+      const lastDay = format(monthEnd, "yyyy-MM-dd")
+      const data = windowData.filter((item) => item.date >= firstDay && item.date <= lastDay)
 
       if (data.length === 0) {
         throw new Error(`No data available for ${compSymbol} in ${format(compMonth, "MMMM yyyy")}`)
@@ -304,12 +262,25 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
     }
   }
 
+  // Pairs from another exchange than the current one are labelled with it, e.g. "XBT (Kraken)"
+  const toDisplayInfo = (value: string) => {
+    const { exchange } = parseExchangeSymbol(value)
+    const info = describeSymbol(value, exchange === currentExchange ? symbols : comparisonSymbols)
+    const suffix = exchange === currentExchange ? "" : ` (${getDataSource(exchange).name})`
+    return { label: info.label + suffix, shortLabel: info.baseAsset + suffix }
+  }
+
+  const handleComparisonExchangeChange = (exchange: string) => {
+    setComparisonExchange(exchange)
+    setComparisonSymbol("")
+  }
+
   const getCurrentSymbolInfo = () => {
-    return CRYPTO_SYMBOLS.find((s) => s.value === symbol)
+    return toDisplayInfo(symbol)
   }
 
   const getComparisonSymbolInfo = () => {
-    return CRYPTO_SYMBOLS.find((s) => s.value === comparisonSymbol)
+    return comparisonSymbol ? toDisplayInfo(comparisonSymbol) : undefined
   }
 
   return (
@@ -417,18 +388,16 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="comparison-symbol">Trading Pair to Compare</Label>
-                  <Select value={comparisonSymbol} onValueChange={setComparisonSymbol}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select trading pair..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {CRYPTO_SYMBOLS.filter((s) => s.value !== symbol).map((crypto) => (
-                        <SelectItem key={crypto.value} value={crypto.value}>
-                          {crypto.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex gap-2">
+                    <ExchangeSelect value={comparisonExchange} onValueChange={handleComparisonExchangeChange} />
+                    <SymbolPicker
+                      value={comparisonSymbol}
+                      onValueChange={setComparisonSymbol}
+                      exchange={comparisonExchange}
+                      exclude={[symbol]}
+                      className="min-w-0 flex-1"
+                    />
+                  </div>
                 </div>
 
                 <div>
@@ -537,7 +506,9 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
                   <CardContent className="space-y-3">
                     <div className="flex justify-between text-sm">
                       <span>Avg Volatility:</span>
-                      <span className="font-medium">{currentMetrics.avgVolatility.toFixed(2)}%</span>
+                      <span className="font-medium">
+                        {formatVolatility(currentMetrics.avgVolatility, volatilityModel)}
+                      </span>
                     </div>
                     <div className="flex justify-between text-sm">
                       <span>Total Return:</span>
@@ -582,7 +553,9 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
                     <div className="flex justify-between text-sm">
                       <span>Avg Volatility:</span>
                       <div className="flex items-center space-x-2">
-                        <span className="font-medium">{comparisonMetrics.avgVolatility.toFixed(2)}%</span>
+                        <span className="font-medium">
+                          {formatVolatility(comparisonMetrics.avgVolatility, volatilityModel)}
+                        </span>
                         {(() => {
                           const change = getMetricChange(currentMetrics.avgVolatility, comparisonMetrics.avgVolatility)
                           return (
@@ -774,7 +747,11 @@ export function ComparisonDialog({ currentData, currentMonth, symbol }: Comparis
                         {currentMetrics.avgVolatility > comparisonMetrics.avgVolatility
                           ? "more volatile"
                           : "less volatile"}{" "}
-                        by {Math.abs(currentMetrics.avgVolatility - comparisonMetrics.avgVolatility).toFixed(2)}%
+                        by{" "}
+                        {formatVolatility(
+                          Math.abs(currentMetrics.avgVolatility - comparisonMetrics.avgVolatility),
+                          volatilityModel,
+                        )}
                       </span>
                     </div>
                     <div className="flex justify-between">
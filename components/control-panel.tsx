@@ -1,13 +1,55 @@
 "use client"
 
 import { useState } from "react"
-import { Calendar, BarChart3, TrendingUp, ChevronLeft, ChevronRight } from "lucide-react"
+import type React from "react"
+
+import {
+  Calendar,
+  BarChart3,
+  TrendingUp,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  FileUp,
+  FlaskConical,
+  Grid3x3,
+  Trash2,
+  Upload,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import type { ViewMode } from "@/types/market"
 import { format, addMonths, subMonths, isFuture, startOfMonth } from "date-fns"
 import { QuickDatePicker } from "@/components/quick-date-picker"
+import { useTheme } from "@/contexts/theme-context"
+import { CELL_COLOR_METRICS } from "@/lib/order-flow"
+import { SymbolPicker } from "@/components/symbol-picker"
+import { ExchangeSelect } from "@/components/exchange-select"
+import { DatasetImportDialog } from "@/components/dataset-import-dialog"
+import { SyntheticMarketDialog } from "@/components/synthetic-market-dialog"
+import { DEFAULT_EXCHANGE_SYMBOLS, getDataSource } from "@/lib/data-sources"
+import { formatExchangeSymbol, parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { DATASET_SOURCE_ID } from "@/lib/datasets"
+import { describeSyntheticConfig, findSyntheticBySymbol, SYNTHETIC_SOURCE_ID } from "@/lib/synthetic"
+import {
+  useDatasets,
+  useEarliestMonth,
+  useListingDate,
+  useSymbolCatalog,
+  useSyntheticMarkets,
+} from "@/hooks/use-symbol-catalog"
+import { describeSymbol, formatSymbolStatus, isTradingSymbol } from "@/lib/symbol-catalog"
+import { fromDailyVolatility, VOLATILITY_ESTIMATORS, VOLATILITY_WINDOWS } from "@/lib/volatility"
+import {
+  describeTradingDay,
+  getBrowserTimeZone,
+  isSameTradingDay,
+  TIME_ZONES,
+  TRADING_DAY_PRESETS,
+} from "@/lib/trading-day"
+import { describeTradingCalendar, parseCustomTradingCalendar, TRADING_CALENDARS } from "@/lib/trading-calendar"
+import type { CellColorMetric, TradingDayConfig, VolatilityEstimator, VolatilityModel } from "@/types/market"
 
 interface ControlPanelProps {
   viewMode: ViewMode
@@ -18,24 +60,6 @@ interface ControlPanelProps {
   onMonthChange: (month: Date) => void
 }
 
-const CRYPTO_SYMBOLS = [
-  { value: "BTCUSDT", label: "Bitcoin (BTC/USDT)", shortLabel: "BTC" },
-  { value: "ETHUSDT", label: "Ethereum (ETH/USDT)", shortLabel: "ETH" },
-  { value: "BNBUSDT", label: "Binance Coin (BNB/USDT)", shortLabel: "BNB" },
-  { value: "ADAUSDT", label: "Cardano (ADA/USDT)", shortLabel: "ADA" },
-  { value: "SOLUSDT", label: "Solana (SOL/USDT)", shortLabel: "SOL" },
-  { value: "XRPUSDT", label: "Ripple (XRP/USDT)", shortLabel: "XRP" },
-  { value: "DOTUSDT", label: "Polkadot (DOT/USDT)", shortLabel: "DOT" },
-  { value: "AVAXUSDT", label: "Avalanche (AVAX/USDT)", shortLabel: "AVAX" },
-  { value: "MATICUSDT", label: "Polygon (MATIC/USDT)", shortLabel: "MATIC" },
-  { value: "LINKUSDT", label: "Chainlink (LINK/USDT)", shortLabel: "LINK" },
-  { value: "UNIUSDT", label: "Uniswap (UNI/USDT)", shortLabel: "UNI" },
-  { value: "LTCUSDT", label: "Litecoin (LTC/USDT)", shortLabel: "LTC" },
-  { value: "BCHUSDT", label: "Bitcoin Cash (BCH/USDT)", shortLabel: "BCH" },
-  { value: "XLMUSDT", label: "Stellar (XLM/USDT)", shortLabel: "XLM" },
-  { value: "VETUSDT", label: "VeChain (VET/USDT)", shortLabel: "VET" },
-]
-
 export function ControlPanel({
   viewMode,
   onViewModeChange,
@@ -45,21 +69,90 @@ export function ControlPanel({
   onMonthChange,
 }: ControlPanelProps) {
   const [showAdvanced, setShowAdvanced] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [syntheticOpen, setSyntheticOpen] = useState(false)
+  const [calendarError, setCalendarError] = useState<string | null>(null)
+  const {
+    cellColorMetric,
+    setCellColorMetric,
+    volatilityModel,
+    setVolatilityModel,
+    tradingDay,
+    setTradingDay,
+    tradingCalendar,
+    tradingCalendarId,
+    setTradingCalendarId,
+    customCalendars,
+    setCustomCalendars,
+  } = useTheme()
+  const selectedColorMetric = CELL_COLOR_METRICS.find((option) => option.value === cellColorMetric)
+  const selectedEstimator = VOLATILITY_ESTIMATORS.find((option) => option.value === volatilityModel.estimator)
+  const volatilityLegendValue = (daily: number) => `${Number(fromDailyVolatility(daily, volatilityModel).toFixed(1))}%`
+
+  const updateVolatilityModel = (update: Partial<VolatilityModel>) =>
+    setVolatilityModel({ ...volatilityModel, ...update })
+  const updateTradingDay = (update: Partial<TradingDayConfig>) => setTradingDay({ ...tradingDay, ...update })
+  const selectedPreset = TRADING_DAY_PRESETS.find((preset) => isSameTradingDay(preset.config, tradingDay))
+  const timeZoneOptions = [...new Set([...TIME_ZONES, getBrowserTimeZone(), tradingDay.timeZone])]
+  const { exchange } = parseExchangeSymbol(selectedSymbol)
+  const { symbols } = useSymbolCatalog(getDataSource(exchange))
+  const datasets = useDatasets()
+  // Subscribed so a market created or deleted in the generator dialog is picked up here
+  useSyntheticMarkets()
+  const syntheticMarket = findSyntheticBySymbol(selectedSymbol)
+  const selectedSymbolInfo = describeSymbol(selectedSymbol, symbols)
+  const listingDate = useListingDate(selectedSymbol)
 
   const viewModeOptions = [
     { value: "daily" as ViewMode, label: "Daily View", shortLabel: "Daily", icon: Calendar },
     { value: "weekly" as ViewMode, label: "Weekly View", shortLabel: "Weekly", icon: BarChart3 },
     { value: "monthly" as ViewMode, label: "Monthly View", shortLabel: "Monthly", icon: TrendingUp },
+    { value: "intraday" as ViewMode, label: "Intraday Heatmap", shortLabel: "Hourly", icon: Clock },
+    { value: "seasonality" as ViewMode, label: "Seasonality", shortLabel: "Seasons", icon: Grid3x3 },
   ]
 
   // Check if next month would be in the future
   const nextMonth = addMonths(currentMonth, 1)
   const isNextMonthFuture = isFuture(startOfMonth(nextMonth))
 
-  // Extended historical data range - Binance has data back to 2017 for major pairs
   const prevMonth = subMonths(currentMonth, 1)
-  const binanceLaunchDate = new Date(2017, 6, 1) // July 2017 when Binance launched
-  const isPrevMonthTooOld = prevMonth < binanceLaunchDate
+  const earliestMonth = useEarliestMonth(selectedSymbol)
+  const isPrevMonthTooOld = prevMonth < earliestMonth
+
+  // Each exchange names its pairs differently, so switching starts from its bitcoin pair
+  const handleExchangeChange = (nextExchange: string) => {
+    if (nextExchange === exchange) return
+    if (nextExchange === DATASET_SOURCE_ID) {
+      // Nothing to show until a file is imported
+      if (datasets.length > 0) {
+        onSymbolChange(formatExchangeSymbol(DATASET_SOURCE_ID, datasets[0].id))
+      } else {
+        setImportOpen(true)
+      }
+      return
+    }
+    onSymbolChange(formatExchangeSymbol(nextExchange, DEFAULT_EXCHANGE_SYMBOLS[nextExchange]))
+  }
+
+  const handleCalendarFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setCalendarError(null)
+    try {
+      const calendar = parseCustomTradingCalendar(JSON.parse(await file.text()), file.name.replace(/\.[^.]+$/, ""))
+      setCustomCalendars([...customCalendars, calendar])
+      setTradingCalendarId(calendar.id)
+    } catch (error) {
+      setCalendarError(error instanceof Error ? error.message : "Could not read the calendar file")
+    }
+  }
+
+  const removeCustomCalendar = (id: string) => {
+    setCustomCalendars(customCalendars.filter((calendar) => calendar.id !== id))
+    setTradingCalendarId(TRADING_CALENDARS[0].id)
+  }
 
   const handleNextMonth = () => {
     if (!isNextMonthFuture) {
@@ -136,19 +229,51 @@ export function ControlPanel({
           <CardTitle className="text-sm font-medium">Trading Pair</CardTitle>
         </CardHeader>
         <CardContent>
-          <Select value={selectedSymbol} onValueChange={onSymbolChange}>
-            <SelectTrigger className="text-xs sm:text-sm">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {CRYPTO_SYMBOLS.map((symbol) => (
-                <SelectItem key={symbol.value} value={symbol.value}>
-                  <span className="hidden sm:inline">{symbol.label}</span>
-                  <span className="sm:hidden">{symbol.shortLabel}</span>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="flex gap-2">
+            <ExchangeSelect value={exchange} onValueChange={handleExchangeChange} />
+            <SymbolPicker value={selectedSymbol} onValueChange={onSymbolChange} className="min-w-0 flex-1" />
+            {exchange === SYNTHETIC_SOURCE_ID ? (
+              <Button
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                onClick={() => setSyntheticOpen(true)}
+                aria-label="Generate synthetic market"
+                title="Generate synthetic market"
+              >
+                <FlaskConical className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                onClick={() => setImportOpen(true)}
+                aria-label="Import dataset"
+                title="Import OHLCV file"
+              >
+                <Upload className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <DatasetImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={onSymbolChange} />
+          <SyntheticMarketDialog
+            open={syntheticOpen}
+            onOpenChange={setSyntheticOpen}
+            template={syntheticMarket}
+            onCreated={onSymbolChange}
+          />
+          {syntheticMarket && (
+            <p className="mt-2 text-xs text-muted-foreground">Planted: {describeSyntheticConfig(syntheticMarket)}</p>
+          )}
+          {(listingDate || !isTradingSymbol(selectedSymbolInfo)) && (
+            <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+              <span>{listingDate && `Listed ${format(listingDate, "MMM d, yyyy")}`}</span>
+              {!isTradingSymbol(selectedSymbolInfo) && (
+                <span className="text-orange-600">{formatSymbolStatus(selectedSymbolInfo.status)}</span>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -163,6 +288,7 @@ export function ControlPanel({
             <QuickDatePicker
               currentMonth={currentMonth}
               onMonthChange={onMonthChange}
+              earliestMonth={earliestMonth}
               className="w-full text-xs sm:text-sm"
             />
 
@@ -179,7 +305,11 @@ export function ControlPanel({
               className="flex items-center space-x-1 bg-transparent text-xs"
               onClick={handlePrevMonth}
               disabled={isPrevMonthTooOld}
-              title={isPrevMonthTooOld ? "Cannot go further back than July 2017" : "Previous month"}
+              title={
+                isPrevMonthTooOld
+                  ? `Cannot go further back than ${format(earliestMonth, "MMMM yyyy")}`
+                  : "Previous month"
+              }
             >
               <ChevronLeft className="h-3 w-3" />
               <span>Prev</span>
@@ -202,12 +332,185 @@ export function ControlPanel({
           <div className="text-xs text-muted-foreground text-center space-y-1">
             <div>Historical data available</div>
             <div>
-              from {format(binanceLaunchDate, "MMM yyyy")} to {format(new Date(), "MMM yyyy")}
+              from {format(earliestMonth, "MMM yyyy")} to {format(new Date(), "MMM yyyy")}
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Volatility Model */}
+      <Card>
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-sm font-medium">Volatility Model</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={volatilityModel.estimator}
+            onValueChange={(value) => updateVolatilityModel({ estimator: value as VolatilityEstimator })}
+          >
+            <SelectTrigger className="text-xs sm:text-sm h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VOLATILITY_ESTIMATORS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={String(volatilityModel.window)}
+              onValueChange={(value) => updateVolatilityModel({ window: Number(value) })}
+            >
+              <SelectTrigger className="text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VOLATILITY_WINDOWS.map((window) => (
+                  <SelectItem key={window} value={String(window)}>
+                    {window === 1 ? "1 candle" : `${window} candles`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={volatilityModel.units}
+              onValueChange={(value) => updateVolatilityModel({ units: value as VolatilityModel["units"] })}
+            >
+              <SelectTrigger className="text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="annualized">Annualized</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-xs text-muted-foreground">{selectedEstimator?.description}</div>
+        </CardContent>
+      </Card>
+
+      {/* Trading Day */}
+      <Card>
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-sm font-medium">Trading Day</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={selectedPreset?.id ?? "custom"}
+            onValueChange={(value) => {
+              const preset = TRADING_DAY_PRESETS.find((option) => option.id === value)
+              if (preset) setTradingDay(preset.config)
+            }}
+          >
+            <SelectTrigger className="text-xs sm:text-sm h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRADING_DAY_PRESETS.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+              {!selectedPreset && <SelectItem value="custom">Custom</SelectItem>}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={tradingDay.timeZone} onValueChange={(value) => updateTradingDay({ timeZone: value })}>
+              <SelectTrigger className="text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZoneOptions.map((timeZone) => (
+                  <SelectItem key={timeZone} value={timeZone}>
+                    {timeZone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(tradingDay.boundaryHour)}
+              onValueChange={(value) => updateTradingDay({ boundaryHour: Number(value) })}
+            >
+              <SelectTrigger className="text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <SelectItem key={hour} value={String(hour)}>
+                    {`Starts ${String(hour).padStart(2, "0")}:00`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {tradingDay.boundaryHour > 0 && (
+            <Select
+              value={tradingDay.labelBy}
+              onValueChange={(value) => updateTradingDay({ labelBy: value as TradingDayConfig["labelBy"] })}
+            >
+              <SelectTrigger className="text-xs h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="start">Label by opening date</SelectItem>
+                <SelectItem value="end">Label by closing date</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <div className="text-xs text-muted-foreground">
+            {describeTradingDay(tradingDay)}. Days other than UTC midnight are built from hourly candles.
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Trading Calendar */}
+      <Card>
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-sm font-medium">Trading Calendar</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={tradingCalendar.id} onValueChange={setTradingCalendarId}>
+              <SelectTrigger className="text-xs sm:text-sm h-8 min-w-0 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...TRADING_CALENDARS, ...customCalendars].map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {customCalendars.some((calendar) => calendar.id === tradingCalendarId) && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                onClick={() => removeCustomCalendar(tradingCalendarId)}
+                aria-label="Remove calendar"
+                title="Remove this calendar"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" className="h-8 w-8 p-0 shrink-0" asChild>
+              <label title="Load a holiday calendar (JSON)" aria-label="Load calendar" className="cursor-pointer">
+                <FileUp className="h-4 w-4" />
+                <input type="file" accept=".json,application/json" className="sr-only" onChange={handleCalendarFile} />
+              </label>
+            </Button>
+          </div>
+          {calendarError && <div className="text-xs text-red-600">{calendarError}</div>}
+          <div className="text-xs text-muted-foreground">
+            {describeTradingCalendar(tradingCalendar)}. Closed days are shown as such rather than as missing data.
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Legend */}
       <Card>
         <CardHeader className="pb-2 sm:pb-3">
@@ -215,21 +518,53 @@ export function ControlPanel({
         </CardHeader>
         <CardContent className="space-y-2 sm:space-y-3">
           <div>
-            <div className="text-xs font-medium mb-2">Volatility Colors</div>
-            <div className="space-y-1">
-              <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 sm:w-3 sm:h-3 bg-green-500 rounded"></div>
-                <span className="text-xs">Low (&lt; 1%)</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 sm:w-3 sm:h-3 bg-yellow-400 rounded"></div>
-                <span className="text-xs">Medium (1-2%)</span>
+            <div className="text-xs font-medium mb-2">Cell Color</div>
+            <Select value={cellColorMetric} onValueChange={(value) => setCellColorMetric(value as CellColorMetric)}>
+              <SelectTrigger className="text-xs sm:text-sm h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CELL_COLOR_METRICS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <div className="text-xs font-medium mb-2">{selectedColorMetric?.label} Colors</div>
+            {cellColorMetric === "volatility" ? (
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <div className="w-2 h-2 sm:w-3 sm:h-3 bg-green-500 rounded"></div>
+                  <span className="text-xs">Low (&lt; {volatilityLegendValue(1)})</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-2 h-2 sm:w-3 sm:h-3 bg-yellow-400 rounded"></div>
+                  <span className="text-xs">
+                    Medium ({volatilityLegendValue(1)}-{volatilityLegendValue(2)})
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-2 h-2 sm:w-3 sm:h-3 bg-red-500 rounded"></div>
+                  <span className="text-xs">High (&gt; {volatilityLegendValue(2)})</span>
+                </div>
               </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-2 h-2 sm:w-3 sm:h-3 bg-red-500 rounded"></div>
-                <span className="text-xs">High (&gt; 2%)</span>
+            ) : (
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <div className="w-2 h-2 sm:w-3 sm:h-3 bg-green-500 rounded"></div>
+                  <span className="text-xs">Lowest this month</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-2 h-2 sm:w-3 sm:h-3 bg-red-500 rounded"></div>
+                  <span className="text-xs">Highest this month</span>
+                </div>
+                <div className="text-xs text-muted-foreground">{selectedColorMetric?.description}</div>
               </div>
-            </div>
+            )}
           </div>
 
           <div>
@@ -1,18 +1,38 @@
 "use client"
 
 import { useMemo } from "react"
-import { format } from "date-fns"
-import { TrendingUp, TrendingDown, BarChart3, Activity, DollarSign, Calendar } from "lucide-react"
+import { endOfDay, format, startOfDay } from "date-fns"
+import {
+  TrendingUp,
+  TrendingDown,
+  BarChart3,
+  Activity,
+  DollarSign,
+  Calendar,
+  ArrowLeftRight,
+  Droplets,
+  BookOpen,
+  AlertTriangle,
+} from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
-import type { MarketData, ViewMode, TimeRange } from "@/types/market"
+import { Button } from "@/components/ui/button"
+import type { ViewMode, TimeRange } from "@/types/market"
+import { getOrderFlowMetrics, formatTradeCount } from "@/lib/order-flow"
+import { formatAmihud, formatNotional, summarizeLiquidity } from "@/lib/liquidity"
+import { useOrderBook } from "@/hooks/use-order-book"
+import { useMarketRange } from "@/hooks/use-market-range"
+import { countDataQualityIssues } from "@/lib/data-quality"
+import { LoadingSpinner } from "@/components/loading-spinner"
+import { describeVolatilityModel, formatVolatility, toDailyVolatility } from "@/lib/volatility"
+import { useTheme } from "@/contexts/theme-context"
+import { describeTradingDay, needsResampling, parseTradingDate } from "@/lib/trading-day"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts"
 
 interface DataDashboardProps {
   selectedDate: Date | null
   selectedRange: TimeRange | null
-  data: MarketData[]
   symbol: string
   viewMode: ViewMode
   expandedView?: boolean
@@ -21,28 +41,25 @@ interface DataDashboardProps {
 export function DataDashboard({
   selectedDate,
   selectedRange,
-  data,
   symbol,
   viewMode,
   expandedView = false,
 }: DataDashboardProps) {
-  const selectedData = useMemo(() => {
-    if (selectedDate) {
-      return data.filter((item) => {
-        const itemDate = new Date(item.date)
-        return itemDate.toDateString() === selectedDate.toDateString()
-      })
-    }
+  const { volatilityModel, tradingDay, tradingCalendar } = useTheme()
 
-    if (selectedRange) {
-      return data.filter((item) => {
-        const itemDate = new Date(item.date)
-        return itemDate >= selectedRange.start && itemDate <= selectedRange.end
-      })
-    }
+  // A single date is analyzed as a one-day range; ranges may cross calendar months
+  const analysisRange = useMemo<TimeRange | null>(() => {
+    if (selectedDate) return { start: startOfDay(selectedDate), end: endOfDay(selectedDate) }
+    return selectedRange
+  }, [selectedDate, selectedRange])
 
-    return []
-  }, [selectedDate, selectedRange, data])
+  const {
+    data: selectedData,
+    quality,
+    loading,
+    error,
+    progress,
+  } = useMarketRange({ symbol, range: analysisRange, volatilityModel, tradingDay, tradingCalendar })
 
   const aggregatedMetrics = useMemo(() => {
     if (selectedData.length === 0) return null
@@ -73,9 +90,13 @@ export function DataDashboard({
     }
   }, [selectedData])
 
+  const orderFlow = useMemo(() => getOrderFlowMetrics(selectedData), [selectedData])
+  const liquidity = useMemo(() => summarizeLiquidity(selectedData), [selectedData])
+  const orderBook = useOrderBook(symbol)
+
   const chartData = useMemo(() => {
     return selectedData.map((item) => ({
-      date: format(new Date(item.date), "MMM d"),
+      date: format(parseTradingDate(item.date), "MMM d"),
       price: item.close,
       volume: item.volume / 1000000, // Convert to millions
       volatility: item.volatility,
@@ -103,6 +124,16 @@ export function DataDashboard({
     )
   }
 
+  if (loading && selectedData.length === 0) {
+    return (
+      <Card className="h-fit">
+        <CardContent className="py-8">
+          <LoadingSpinner progress={progress} />
+        </CardContent>
+      </Card>
+    )
+  }
+
   if (!aggregatedMetrics) {
     return (
       <Card className="h-fit">
@@ -110,12 +141,16 @@ export function DataDashboard({
           <CardTitle className="text-sm font-medium">No Data Available</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-xs sm:text-sm text-muted-foreground">No market data available for the selected period.</p>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            {error ?? "No market data available for the selected period."}
+          </p>
         </CardContent>
       </Card>
     )
   }
 
+  const dailyVolatility = toDailyVolatility(aggregatedMetrics.avgVolatility, volatilityModel)
+
   // Determine chart heights based on expanded view
   const priceChartHeight = expandedView ? "h-40 sm:h-48" : "h-24 sm:h-32"
   const volumeChartHeight = expandedView ? "h-32 sm:h-40" : "h-20 sm:h-24"
@@ -141,7 +176,15 @@ export function DataDashboard({
               : selectedRange
                 ? `${format(selectedRange.start, "MMM d")} - ${format(selectedRange.end, "MMM d, yyyy")}`
                 : ""}
+            {needsResampling(tradingDay) && ` · Trading day: ${describeTradingDay(tradingDay)}`}
           </div>
+          {quality && countDataQualityIssues(quality) > 0 && (
+            <div className="flex items-center text-xs text-amber-500">
+              <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+              Incomplete data: {quality.receivedCandles} of {quality.expectedCandles} candles
+              {quality.zeroVolume.length > 0 && `, ${quality.zeroVolume.length} with zero volume`}
+            </div>
+          )}
         </CardHeader>
       </Card>
 
@@ -196,8 +239,11 @@ export function DataDashboard({
                   <span className="hidden sm:inline">Volatility</span>
                   <span className="sm:hidden">Vol</span>
                 </div>
-                <div className="text-xs sm:text-sm font-medium truncate">
-                  {aggregatedMetrics.avgVolatility.toFixed(2)}%
+                <div
+                  className="text-xs sm:text-sm font-medium truncate"
+                  title={describeVolatilityModel(volatilityModel)}
+                >
+                  {formatVolatility(aggregatedMetrics.avgVolatility, volatilityModel)}
                 </div>
               </div>
             </div>
@@ -240,6 +286,121 @@ export function DataDashboard({
         </CardContent>
       </Card>
 
+      {/* Order Flow */}
+      {orderFlow && (
+        <Card>
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-xs font-medium flex items-center">
+              <ArrowLeftRight className="h-3 w-3 mr-2 text-purple-500" />
+              Order Flow
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 sm:space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                <span className="hidden sm:inline">Taker Buy/Sell Ratio:</span>
+                <span className="sm:hidden">Buy/Sell:</span>
+              </span>
+              <span className={`font-medium ${orderFlow.takerBuyRatio >= 1 ? "text-green-500" : "text-red-500"}`}>
+                {orderFlow.takerBuyRatio.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Trades:</span>
+              <span className="font-medium">{formatTradeCount(orderFlow.tradeCount)}</span>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                <span className="hidden sm:inline">Avg Trade Size:</span>
+                <span className="sm:hidden">Avg Trade:</span>
+              </span>
+              <span className="font-medium">
+                ${orderFlow.avgTradeSize.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Liquidity */}
+      {liquidity && (
+        <Card>
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-xs font-medium flex items-center">
+              <Droplets className="h-3 w-3 mr-2 text-cyan-500" />
+              Liquidity
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 sm:space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                <span className="hidden sm:inline">Amihud (% per $1M):</span>
+                <span className="sm:hidden">Amihud:</span>
+              </span>
+              <span className="font-medium">{liquidity.amihud !== null ? formatAmihud(liquidity.amihud) : "—"}</span>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                <span className="hidden sm:inline">Est. Spread (Corwin-Schultz):</span>
+                <span className="sm:hidden">Est. Spread:</span>
+              </span>
+              <span className="font-medium">{liquidity.spread !== null ? `${liquidity.spread.toFixed(3)}%` : "—"}</span>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                <span className="hidden sm:inline">Avg Turnover:</span>
+                <span className="sm:hidden">Turnover:</span>
+              </span>
+              <span className="font-medium">{formatNotional(liquidity.turnover)}</span>
+            </div>
+
+            {orderBook.supported && (
+              <div className="pt-2 border-t space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center text-muted-foreground">
+                    <BookOpen className="h-3 w-3 mr-1" />
+                    Live Order Book
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={orderBook.load}
+                    disabled={orderBook.loading}
+                  >
+                    {orderBook.loading ? "Loading..." : orderBook.depth ? "Refresh" : "Load"}
+                  </Button>
+                </div>
+                {orderBook.error && <div className="text-xs text-red-500">{orderBook.error}</div>}
+                {orderBook.depth && (
+                  <>
+                    <div className="flex justify-between text-xs">
+                      <span className="text-muted-foreground">Quoted Spread:</span>
+                      <span className="font-medium">{orderBook.depth.spread.toFixed(4)}%</span>
+                    </div>
+                    {orderBook.depth.bands.map((band) => (
+                      <div key={band.percent} className="flex justify-between text-xs">
+                        <span className="text-muted-foreground">±{band.percent}% depth:</span>
+                        <span className="font-medium">
+                          <span className="text-green-500">{formatNotional(band.bidNotional)}</span>
+                          {" / "}
+                          <span className="text-red-500">{formatNotional(band.askNotional)}</span>
+                        </span>
+                      </div>
+                    ))}
+                    {orderBook.fetchedAt && (
+                      <div className="text-[10px] text-muted-foreground">
+                        Snapshot at {format(orderBook.fetchedAt, "HH:mm:ss")}, not historical
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Price Chart */}
       {chartData.length > 1 && (
         <Card>
@@ -339,16 +500,10 @@ export function DataDashboard({
               <span className="sm:hidden">Vol Level:</span>
             </span>
             <Badge
-              variant={
-                aggregatedMetrics.avgVolatility > 2
-                  ? "destructive"
-                  : aggregatedMetrics.avgVolatility > 1
-                    ? "secondary"
-                    : "default"
-              }
+              variant={dailyVolatility > 2 ? "destructive" : dailyVolatility > 1 ? "secondary" : "default"}
               className="text-xs"
             >
-              {aggregatedMetrics.avgVolatility > 2 ? "High" : aggregatedMetrics.avgVolatility > 1 ? "Medium" : "Low"}
+              {dailyVolatility > 2 ? "High" : dailyVolatility > 1 ? "Medium" : "Low"}
             </Badge>
           </div>
         </CardContent>
@@ -0,0 +1,121 @@
+"use client"
+
+import { ShieldCheck, AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import type { DataQualityReport } from "@/types/market"
+import { countDataQualityIssues, formatCandleTime, formatDataGap, REJECTION_REASON_LABELS } from "@/lib/data-quality"
+import { useTheme } from "@/contexts/theme-context"
+
+interface DataQualityPanelProps {
+  quality: DataQualityReport | null
+  symbol: string
+}
+
+// Long lists would push the rest of the sidebar off screen
+const MAX_LISTED = 5
+
+export function DataQualityPanel({ quality, symbol }: DataQualityPanelProps) {
+  const { tradingDay, tradingCalendar } = useTheme()
+  if (!quality) return null
+
+  const issueCount = countDataQualityIssues(quality)
+  const coverage = quality.expectedCandles > 0 ? (quality.receivedCandles / quality.expectedCandles) * 100 : 100
+  const formatTime = (openTime: number) => formatCandleTime(openTime, quality.interval, tradingDay)
+
+  const renderMore = (total: number) =>
+    total > MAX_LISTED && <div className="text-xs text-muted-foreground">+{total - MAX_LISTED} more</div>
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="text-sm font-medium flex items-center justify-between">
+          <span className="flex items-center">
+            {issueCount === 0 ? (
+              <ShieldCheck className="h-4 w-4 mr-2 text-green-500" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 mr-2 text-amber-500" />
+            )}
+            Data Quality
+          </span>
+          <Badge variant={issueCount === 0 ? "outline" : "secondary"} className="text-xs">
+            {issueCount === 0 ? "Complete" : `${issueCount} issue${issueCount === 1 ? "" : "s"}`}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Candles received:</span>
+            <span className="font-medium">
+              {quality.receivedCandles} / {quality.expectedCandles}
+            </span>
+          </div>
+          <Progress value={coverage} className="h-1" />
+          {quality.closed.length > 0 && (
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Market closed ({tradingCalendar.name}):</span>
+              <span>
+                {quality.closed.length} {quality.interval === "1d" ? "day" : "candle"}
+                {quality.closed.length === 1 ? "" : "s"}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {issueCount === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Every {symbol} candle in this period was received and passed validation.
+          </p>
+        )}
+
+        {quality.outages.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-medium">Gaps (exchange outages or maintenance)</div>
+            {quality.outages.slice(0, MAX_LISTED).map((gap) => (
+              <div key={gap.start} className="flex justify-between text-xs">
+                <span className="text-muted-foreground">{formatDataGap(gap, quality.interval, tradingDay)}</span>
+                <span>
+                  {gap.candles} candle{gap.candles === 1 ? "" : "s"}
+                </span>
+              </div>
+            ))}
+            {renderMore(quality.outages.length)}
+          </div>
+        )}
+
+        {quality.rejected.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-medium">Rejected rows</div>
+            {quality.rejected.slice(0, MAX_LISTED).map((row, index) => (
+              <div key={`${row.openTime}-${index}`} className="flex justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {row.openTime !== null ? formatTime(row.openTime) : "Unknown time"}
+                </span>
+                <span>{REJECTION_REASON_LABELS[row.reason]}</span>
+              </div>
+            ))}
+            {renderMore(quality.rejected.length)}
+          </div>
+        )}
+
+        {quality.zeroVolume.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-medium">Zero-volume candles</div>
+            <div className="text-xs text-muted-foreground">
+              {quality.zeroVolume.slice(0, MAX_LISTED).map(formatTime).join(", ")}
+            </div>
+            {renderMore(quality.zeroVolume.length)}
+          </div>
+        )}
+
+        {issueCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Statistics for this period rest on incomplete data. Affected days are marked in the calendar.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
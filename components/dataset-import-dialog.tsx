@@ -0,0 +1,287 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import { FileUp, Trash2 } from "lucide-react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  buildImport,
+  DATE_FORMATS,
+  detectColumnMapping,
+  detectDateFormat,
+  OHLCV_FIELDS,
+  parseOhlcvFile,
+  type ColumnMapping,
+  type DateFormat,
+  type OhlcvField,
+  type ParsedTable,
+} from "@/lib/dataset-import"
+import { DATASET_SOURCE_ID, datasetStore } from "@/lib/datasets"
+import { formatExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { KLINE_INTERVAL_LABELS } from "@/lib/data-sources/intervals"
+import { useDatasets } from "@/hooks/use-symbol-catalog"
+
+interface DatasetImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Receives the qualified symbol of the new dataset
+  onImported: (symbol: string) => void
+}
+
+const NO_COLUMN = "none"
+const MAX_LISTED_REJECTIONS = 5
+
+interface LoadedFile {
+  fileName: string
+  table: ParsedTable
+}
+
+const formatCandleDate = (openTime: number) => new Date(openTime).toISOString().slice(0, 10)
+
+export function DatasetImportDialog({ open, onOpenChange, onImported }: DatasetImportDialogProps) {
+  const datasets = useDatasets()
+  const [file, setFile] = useState<LoadedFile | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [dateFormat, setDateFormat] = useState<DateFormat>("iso")
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const reset = () => {
+    setFile(null)
+    setFileError(null)
+    setName("")
+    setMapping(null)
+    setSaveError(null)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ""
+    if (!selected) return
+
+    reset()
+    try {
+      const table = parseOhlcvFile(selected.name, await selected.text())
+      const detected = detectColumnMapping(table.columns)
+      const dateColumn = detected.date
+      const dateValues = dateColumn === null ? [] : table.rows.map((row) => row[dateColumn] ?? "")
+
+      setFile({ fileName: selected.name, table })
+      setMapping(detected)
+      setDateFormat(detectDateFormat(dateValues) ?? "iso")
+      setName(selected.name.replace(/\.[^.]+$/, ""))
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "Could not read the file")
+    }
+  }
+
+  const missingFields = mapping ? OHLCV_FIELDS.filter((field) => field.required && mapping[field.value] === null) : []
+
+  const result = useMemo(() => {
+    if (!file || !mapping || OHLCV_FIELDS.some((field) => field.required && mapping[field.value] === null)) return null
+    return buildImport(file.table, mapping, dateFormat)
+  }, [file, mapping, dateFormat])
+
+  const canImport = !!result && result.candles.length > 0 && !!result.interval && name.trim().length > 0 && !saving
+
+  const handleImport = async () => {
+    if (!file || !result?.interval) return
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const info = await datasetStore.save(name.trim(), result.interval, result.candles, file.fileName)
+      onImported(formatExchangeSymbol(DATASET_SOURCE_ID, info.id))
+      handleOpenChange(false)
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Could not save the dataset")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateMapping = (field: OhlcvField, value: string) => {
+    if (!mapping) return
+    setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : Number(value) })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Dataset</DialogTitle>
+          <DialogDescription>
+            Load OHLCV candles from a CSV or JSON file. Imported datasets are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dataset-file">File</Label>
+            <Input
+              id="dataset-file"
+              type="file"
+              accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+              onChange={handleFileChange}
+            />
+            {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+            {file && (
+              <p className="text-xs text-muted-foreground">
+                {file.table.rows.length} rows, {file.table.columns.length} columns
+              </p>
+            )}
+          </div>
+
+          {file && mapping && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="dataset-name">Name</Label>
+                <Input id="dataset-name" value={name} onChange={(event) => setName(event.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Columns</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {OHLCV_FIELDS.map((field) => (
+                    <div key={field.value} className="space-y-1">
+                      <div className="text-xs text-muted-foreground">{field.label}</div>
+                      <Select
+                        value={mapping[field.value] === null ? NO_COLUMN : String(mapping[field.value])}
+                        onValueChange={(value) => updateMapping(field.value, value)}
+                      >
+                        <SelectTrigger className="text-xs h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_COLUMN}>{field.required ? "Not mapped" : "None"}</SelectItem>
+                          {file.table.columns.map((column, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dataset-date-format">Date Format</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                  <SelectTrigger id="dataset-date-format" className="text-xs sm:text-sm h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Dates and times without a time zone are read as UTC.</p>
+              </div>
+
+              <div className="rounded-md border p-3 text-xs space-y-1">
+                {missingFields.length > 0 ? (
+                  <div className="text-orange-600">
+                    Map the {missingFields.map((field) => field.label.toLowerCase()).join(", ")} column
+                    {missingFields.length > 1 ? "s" : ""}
+                  </div>
+                ) : (
+                  result && (
+                    <>
+                      <div>
+                        {result.candles.length} valid candles
+                        {result.candles.length > 0 &&
+                          ` from ${formatCandleDate(result.candles[0].openTime)} to ${formatCandleDate(
+                            result.candles[result.candles.length - 1].openTime,
+                          )}`}
+                      </div>
+                      {result.interval ? (
+                        <div>Interval: {KLINE_INTERVAL_LABELS[result.interval]}</div>
+                      ) : (
+                        <div className="text-red-600">{result.intervalError}</div>
+                      )}
+                      {result.duplicates > 0 && (
+                        <div className="text-orange-600">
+                          {result.duplicates} duplicate {result.duplicates === 1 ? "row" : "rows"} replaced by later
+                          rows
+                        </div>
+                      )}
+                      {result.rejected.length > 0 && (
+                        <div className="text-orange-600">
+                          <div>{result.rejected.length} rows skipped:</div>
+                          <ul className="list-disc pl-4">
+                            {result.rejected.slice(0, MAX_LISTED_REJECTIONS).map((rejection) => (
+                              <li key={rejection.row}>
+                                Row {rejection.row}: {rejection.reason}
+                              </li>
+                            ))}
+                            {result.rejected.length > MAX_LISTED_REJECTIONS && (
+                              <li>{result.rejected.length - MAX_LISTED_REJECTIONS} more</li>
+                            )}
+                          </ul>
+                        </div>
+                      )}
+                    </>
+                  )
+                )}
+              </div>
+
+              {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+
+              <Button onClick={handleImport} disabled={!canImport} className="w-full">
+                <FileUp className="h-4 w-4 mr-2" />
+                {saving ? "Importing..." : "Import"}
+              </Button>
+            </>
+          )}
+
+          {datasets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Imported Datasets</Label>
+              <div className="space-y-1">
+                {datasets.map((dataset) => (
+                  <div key={dataset.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{dataset.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {dataset.rows} × {KLINE_INTERVAL_LABELS[dataset.interval]},{" "}
+                        {formatCandleDate(dataset.firstOpenTime)} to {formatCandleDate(dataset.lastOpenTime)} · imported{" "}
+                        {format(dataset.importedAt, "MMM d, yyyy")}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 shrink-0"
+                      onClick={() => datasetStore.remove(dataset.id)}
+                      aria-label={`Delete ${dataset.name}`}
+                      title="Delete dataset"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
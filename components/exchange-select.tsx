@@ -0,0 +1,30 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { listExchanges } from "@/lib/data-sources"
+import { cn } from "@/lib/utils"
+
+interface ExchangeSelectProps {
+  value: string
+  onValueChange: (exchange: string) => void
+  className?: string
+}
+
+const exchanges = listExchanges()
+
+export function ExchangeSelect({ value, onValueChange, className }: ExchangeSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={cn("w-[120px] shrink-0 text-xs sm:text-sm", className)} aria-label="Exchange">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {exchanges.map(({ exchange, name }) => (
+          <SelectItem key={exchange} value={exchange} className="text-xs sm:text-sm">
+            {name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Download, FileText, ImageIcon, Table } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
@@ -16,24 +16,79 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import type { MarketData } from "@/types/market"
-import { format } from "date-fns"
+import type { TimeRange } from "@/types/market"
+import { endOfDay, endOfMonth, format, startOfDay, startOfMonth } from "date-fns"
+import { formatNotional, getMarketMetrics, summarizeLiquidity } from "@/lib/liquidity"
+import { useTheme } from "@/contexts/theme-context"
+import { describeVolatilityModel, formatVolatility } from "@/lib/volatility"
+import { useMarketRange } from "@/hooks/use-market-range"
+import { describeTradingDay } from "@/lib/trading-day"
 
 interface ExportDialogProps {
-  data: MarketData[]
   symbol: string
   currentMonth: Date
+  selectedDate?: Date | null
+  selectedRange?: TimeRange | null
   calendarRef?: React.RefObject<HTMLDivElement>
 }
 
-export function ExportDialog({ data, symbol, currentMonth, calendarRef }: ExportDialogProps) {
+type ExportPeriod = "month" | "selection"
+
+export function ExportDialog({ symbol, currentMonth, selectedDate, selectedRange, calendarRef }: ExportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [period, setPeriod] = useState<ExportPeriod>("month")
   const [exportType, setExportType] = useState<"pdf" | "csv" | "image">("csv")
   const [includeCharts, setIncludeCharts] = useState(true)
   const [includeMetrics, setIncludeMetrics] = useState(true)
   const [isExporting, setIsExporting] = useState(false)
+  const { volatilityModel, tradingDay } = useTheme()
+
+  const selection = useMemo<TimeRange | null>(() => {
+    if (selectedRange) return selectedRange
+    return selectedDate ? { start: startOfDay(selectedDate), end: endOfDay(selectedDate) } : null
+  }, [selectedDate, selectedRange])
+
+  const exportRange = useMemo<TimeRange | null>(() => {
+    if (period === "selection") return selection
+    return { start: startOfMonth(currentMonth), end: endOfMonth(currentMonth) }
+  }, [period, selection, currentMonth])
+
+  // Only fetch while the dialog is open
+  const { data, loading, error } = useMarketRange({
+    symbol,
+    range: open ? exportRange : null,
+    volatilityModel,
+    tradingDay,
+  })
+
+  // Colons aren't allowed in file names on every platform, e.g. in "kraken:XBTUSD"
+  const fileSymbol = symbol.replace(":", "_")
+  const fileLabel =
+    period === "selection" && exportRange
+      ? `${format(exportRange.start, "yyyy-MM-dd")}_${format(exportRange.end, "yyyy-MM-dd")}`
+      : format(currentMonth, "yyyy-MM")
+  const periodLabel =
+    period === "selection" && exportRange
+      ? `${format(exportRange.start, "MMM d, yyyy")} - ${format(exportRange.end, "MMM d, yyyy")}`
+      : format(currentMonth, "MMMM yyyy")
 
   const exportToCSV = () => {
-    const headers = ["Date", "Open", "High", "Low", "Close", "Volume", "Volatility", "Performance"]
+    const headers = [
+      `Date (${describeTradingDay(tradingDay)})`,
+      "Open",
+      "High",
+      "Low",
+      "Close",
+      "Volume",
+      `Volatility % ${volatilityModel.units} (${volatilityModel.estimator} ${volatilityModel.window})`,
+      "Performance",
+      "Quote Volume",
+      "Trades",
+      "Taker Buy Base Volume",
+      "Taker Buy Quote Volume",
+      "Amihud Illiquidity",
+      "Spread Estimate %",
+    ]
     const csvData = data.map((item) => {
       const performance = ((item.close - item.open) / item.open) * 100
       return [
@@ -45,6 +100,12 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
         item.volume.toFixed(0),
         item.volatility.toFixed(2),
         performance.toFixed(2),
+        item.quoteAssetVolume?.toFixed(2) ?? "",
+        item.numberOfTrades?.toFixed(0) ?? "",
+        item.takerBuyBaseAssetVolume?.toFixed(4) ?? "",
+        item.takerBuyQuoteAssetVolume?.toFixed(2) ?? "",
+        item.liquidity?.amihud?.toPrecision(4) ?? "",
+        item.liquidity?.spread?.toFixed(4) ?? "",
       ]
     })
 
@@ -54,7 +115,7 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
     const link = document.createElement("a")
     const url = URL.createObjectURL(blob)
     link.setAttribute("href", url)
-    link.setAttribute("download", `${symbol}_${format(currentMonth, "yyyy-MM")}_market_data.csv`)
+    link.setAttribute("download", `${fileSymbol}_${fileLabel}_market_data.csv`)
     link.style.visibility = "hidden"
     document.body.appendChild(link)
     link.click()
@@ -80,22 +141,26 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
       ctx.fillText(`Market Report - ${symbol}`, 50, 50)
 
       ctx.font = "16px Arial"
-      ctx.fillText(`Period: ${format(currentMonth, "MMMM yyyy")}`, 50, 80)
+      ctx.fillText(`Period: ${periodLabel} (trading day: ${describeTradingDay(tradingDay)})`, 50, 80)
 
       // Add metrics
-      if (includeMetrics && data.length > 0) {
-        const avgVolatility = data.reduce((sum, item) => sum + item.volatility, 0) / data.length
-        const totalVolume = data.reduce((sum, item) => sum + item.volume, 0)
-        const totalReturn =
-          data.length > 0
-            ? (((data[data.length - 1]?.close || 0) - (data[0]?.open || 0)) / (data[0]?.open || 1)) * 100
-            : 0
+      const metrics = includeMetrics ? getMarketMetrics(data) : null
+      if (metrics) {
+        const liquidity = summarizeLiquidity(data)
 
         ctx.fillText("Summary Metrics:", 50, 120)
-        ctx.fillText(`Average Volatility: ${avgVolatility.toFixed(2)}%`, 50, 150)
-        ctx.fillText(`Total Volume: ${(totalVolume / 1000000).toFixed(2)}M`, 50, 180)
-        ctx.fillText(`Period Return: ${totalReturn.toFixed(2)}%`, 50, 210)
+        ctx.fillText(
+          `Average Volatility: ${formatVolatility(metrics.volatility, volatilityModel)} (${describeVolatilityModel(volatilityModel)})`,
+          50,
+          150,
+        )
+        ctx.fillText(`Total Volume: ${(metrics.volume / 1000000).toFixed(2)}M`, 50, 180)
+        ctx.fillText(`Period Return: ${metrics.performance.toFixed(2)}%`, 50, 210)
         ctx.fillText(`Trading Days: ${data.length}`, 50, 240)
+        ctx.fillText(`Avg Turnover: ${formatNotional(metrics.liquidity)}`, 50, 270)
+        if (liquidity && liquidity.spread !== null) {
+          ctx.fillText(`Est. Spread (Corwin-Schultz): ${liquidity.spread.toFixed(3)}%`, 50, 300)
+        }
       }
 
       // Convert canvas to blob and download
@@ -103,7 +168,7 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
         if (blob) {
           const link = document.createElement("a")
           link.href = URL.createObjectURL(blob)
-          link.download = `${symbol}_${format(currentMonth, "yyyy-MM")}_report.pdf`
+          link.download = `${fileSymbol}_${fileLabel}_report.pdf`
           link.click()
         }
       })
@@ -134,7 +199,7 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
         if (blob) {
           const link = document.createElement("a")
           link.href = URL.createObjectURL(blob)
-          link.download = `${symbol}_${format(currentMonth, "yyyy-MM")}_calendar.png`
+          link.download = `${fileSymbol}_${format(currentMonth, "yyyy-MM")}_calendar.png`
           link.click()
         }
       })
@@ -147,7 +212,7 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
       if (typeof window !== "undefined" && (window as any).html2canvas) {
         const canvas = await (window as any).html2canvas(calendarRef.current)
         const link = document.createElement("a")
-        link.download = `${symbol}_${format(currentMonth, "yyyy-MM")}_calendar.png`
+        link.download = `${fileSymbol}_${format(currentMonth, "yyyy-MM")}_calendar.png`
         link.href = canvas.toDataURL()
         link.click()
       } else {
@@ -176,7 +241,7 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
   }
 
   return (
-    <Dialog>
+    <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm" className="flex items-center space-x-2 bg-transparent">
           <Download className="h-4 w-4" />
@@ -189,6 +254,28 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
           <DialogDescription>Choose your export format and options</DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-period">Period</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as ExportPeriod)}>
+              <SelectTrigger id="export-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">{format(currentMonth, "MMMM yyyy")}</SelectItem>
+                <SelectItem value="selection" disabled={!selection}>
+                  {selection
+                    ? `Selection (${format(selection.start, "MMM d")} - ${format(selection.end, "MMM d, yyyy")})`
+                    : "Selection (select dates in the calendar)"}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {exportType !== "image" && (
+              <p className="text-xs text-muted-foreground">
+                {loading ? "Loading market data..." : (error ?? `${data.length} candles`)}
+              </p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="export-type">Export Format</Label>
             <Select value={exportType} onValueChange={(value: any) => setExportType(value)}>
@@ -233,7 +320,11 @@ export function ExportDialog({ data, symbol, currentMonth, calendarRef }: Export
             </div>
           )}
 
-          <Button onClick={handleExport} disabled={isExporting} className="w-full">
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || (exportType !== "image" && (loading || data.length === 0))}
+            className="w-full"
+          >
             {isExporting ? "Exporting..." : `Export as ${exportType.toUpperCase()}`}
           </Button>
         </div>
@@ -0,0 +1,209 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LoadingSpinner } from "@/components/loading-spinner"
+import { useMarketData } from "@/hooks/use-market-data"
+import {
+  buildHourWeekdayHeatmap,
+  getHeatmapValue,
+  WEEKDAY_LABELS,
+  type HeatmapCell,
+  type HeatmapMetric,
+} from "@/lib/intraday"
+import { INTRADAY_INTERVALS, KLINE_INTERVAL_LABELS } from "@/lib/data-sources/intervals"
+import type { KlineInterval, VolatilityModel } from "@/types/market"
+import { useTheme } from "@/contexts/theme-context"
+import { formatVolatility } from "@/lib/volatility"
+import { filterTradingDays } from "@/lib/trading-calendar"
+
+interface IntradayHeatmapProps {
+  symbol: string
+  currentMonth: Date
+  expandedView?: boolean
+}
+
+const METRIC_OPTIONS: { value: HeatmapMetric; label: string }[] = [
+  { value: "volatility", label: "Volatility" },
+  { value: "volume", label: "Volume" },
+  { value: "return", label: "Returns" },
+]
+
+// Approximate UTC trading sessions, used to annotate the hour axis
+const SESSIONS = [
+  { name: "Asia", start: 0, end: 8, className: "bg-purple-400" },
+  { name: "Europe", start: 7, end: 16, className: "bg-blue-400" },
+  { name: "US", start: 13, end: 21, className: "bg-orange-400" },
+]
+
+const formatMetric = (value: number, metric: HeatmapMetric, volatilityModel: VolatilityModel): string => {
+  switch (metric) {
+    case "volatility":
+      return formatVolatility(value, volatilityModel)
+    case "volume":
+      return `${(value / 1000).toFixed(1)}K`
+    case "return":
+      return `${value >= 0 ? "+" : ""}${value.toFixed(3)}%`
+  }
+}
+
+export function IntradayHeatmap({ symbol, currentMonth, expandedView = false }: IntradayHeatmapProps) {
+  const [klineInterval, setKlineInterval] = useState<KlineInterval>("1h")
+  const [metric, setMetric] = useState<HeatmapMetric>("volatility")
+  const { volatilityModel, tradingDay, tradingCalendar } = useTheme()
+  const { timeZone } = tradingDay
+  // The session bands are defined in UTC hours
+  const showSessions = timeZone === "UTC"
+
+  const { data, loading, error, progress } = useMarketData({
+    symbol,
+    viewMode: "intraday",
+    month: currentMonth,
+    interval: klineInterval,
+    volatilityModel,
+    tradingDay,
+    tradingCalendar,
+  })
+
+  const grid = useMemo(
+    () => buildHourWeekdayHeatmap(filterTradingDays(data, tradingCalendar), timeZone),
+    [data, tradingCalendar, timeZone],
+  )
+
+  const { maxAbs, maxValue } = useMemo(() => {
+    const values = grid
+      .flat()
+      .filter((cell) => cell.count > 0)
+      .map((cell) => getHeatmapValue(cell, metric))
+    return {
+      maxAbs: Math.max(0, ...values.map(Math.abs)),
+      maxValue: Math.max(0, ...values),
+    }
+  }, [grid, metric])
+
+  const getCellStyle = (cell: HeatmapCell) => {
+    if (cell.count === 0) return undefined
+
+    const value = getHeatmapValue(cell, metric)
+    if (metric === "return") {
+      const alpha = maxAbs > 0 ? Math.abs(value) / maxAbs : 0
+      return { backgroundColor: value >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})` }
+    }
+
+    const alpha = maxValue > 0 ? value / maxValue : 0
+    return {
+      backgroundColor: metric === "volatility" ? `rgba(249, 115, 22, ${alpha})` : `rgba(59, 130, 246, ${alpha})`,
+    }
+  }
+
+  const cellHeight = expandedView ? "h-8" : "h-6"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          Hour of day ({timeZone}) × weekday, {format(currentMonth, "MMMM yyyy")} ({data.length} candles)
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={klineInterval} onValueChange={(value) => setKlineInterval(value as KlineInterval)}>
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTRADAY_INTERVALS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {KLINE_INTERVAL_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={metric} onValueChange={(value) => setMetric(value as HeatmapMetric)}>
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METRIC_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner progress={progress} />
+        </div>
+      ) : error ? (
+        <div className="text-center text-sm text-red-500 py-4 bg-muted/20 rounded-lg">{error}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-[560px] space-y-1">
+            {/* Session bands */}
+            {showSessions && (
+              <div className="grid grid-cols-[2.5rem_repeat(24,minmax(0,1fr))] gap-px">
+                <div />
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="flex flex-col gap-px">
+                    {SESSIONS.map((session) => (
+                      <div
+                        key={session.name}
+                        className={`h-0.5 rounded ${hour >= session.start && hour < session.end ? session.className : ""}`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Hour header */}
+            <div className="grid grid-cols-[2.5rem_repeat(24,minmax(0,1fr))] gap-px text-[10px] text-muted-foreground">
+              <div />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} className="text-center">
+                  {hour % 3 === 0 ? hour.toString().padStart(2, "0") : ""}
+                </div>
+              ))}
+            </div>
+
+            {/* Monday-first rows read more naturally for trading weeks */}
+            {[1, 2, 3, 4, 5, 6, 0].map((weekday) => (
+              <div key={weekday} className="grid grid-cols-[2.5rem_repeat(24,minmax(0,1fr))] gap-px">
+                <div className="text-xs text-muted-foreground flex items-center">{WEEKDAY_LABELS[weekday]}</div>
+                {grid[weekday].map((cell) => (
+                  <div
+                    key={cell.hour}
+                    className={`${cellHeight} rounded-sm border border-border ${cell.count === 0 ? "bg-muted/20" : ""}`}
+                    style={getCellStyle(cell)}
+                    title={
+                      cell.count === 0
+                        ? `${WEEKDAY_LABELS[weekday]} ${cell.hour}:00 ${timeZone} - no data`
+                        : `${WEEKDAY_LABELS[weekday]} ${cell.hour}:00 ${timeZone}\nVolatility: ${formatMetric(cell.avgVolatility, "volatility", volatilityModel)}\nVolume: ${formatMetric(cell.avgVolume, "volume", volatilityModel)}\nReturn: ${formatMetric(cell.avgReturn, "return", volatilityModel)}\nCandles: ${cell.count}`
+                    }
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showSessions && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {SESSIONS.map((session) => (
+            <div key={session.name} className="flex items-center space-x-1">
+              <div className={`w-3 h-1 rounded ${session.className}`} />
+              <span>
+                {session.name} ({session.start.toString().padStart(2, "0")}-{session.end.toString().padStart(2, "0")}{" "}
+                UTC)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,31 @@
 "use client"
 
 import { Loader2 } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import type { FetchProgress } from "@/types/market"
+
+interface LoadingSpinnerProps {
+  progress?: FetchProgress | null
+}
+
+export function LoadingSpinner({ progress }: LoadingSpinnerProps) {
+  // Only worth showing once the fetch has spilled over into more than one page
+  const showProgress = progress && progress.pages > 1
 
-export function LoadingSpinner() {
   return (
-    <div className="flex items-center justify-center">
-      <Loader2 className="h-8 w-8 animate-spin text-primary" />
-      <span className="ml-2 text-sm text-muted-foreground">Loading market data...</span>
+    <div className="flex flex-col items-center justify-center space-y-2">
+      <div className="flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-sm text-muted-foreground">Loading market data...</span>
+      </div>
+      {showProgress && (
+        <div className="w-48 space-y-1">
+          <Progress value={Math.min(100, (progress.loaded / progress.expected) * 100)} className="h-1" />
+          <div className="text-xs text-muted-foreground text-center">
+            {`${progress.loaded.toLocaleString()} / ~${progress.expected.toLocaleString()} candles (${progress.pages} requests)`}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
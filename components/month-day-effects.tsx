@@ -0,0 +1,285 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ErrorBar,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/loading-spinner"
+import { useMarketHistory } from "@/hooks/use-market-history"
+import { useTheme } from "@/contexts/theme-context"
+import {
+  analyzeMonthDayEffects,
+  formatMonthDayBucket,
+  isSameMonthDayBucket,
+  MONTH_DAY_METRICS,
+  MONTH_DAY_MODES,
+  type MonthDayBucket,
+  type MonthDayMetric,
+  type MonthDayMode,
+} from "@/lib/month-day-effects"
+import { significanceStars } from "@/lib/statistics"
+
+interface MonthDayEffectsProps {
+  symbol: string
+  expandedView?: boolean
+  // The bucket whose days the daily calendar highlights
+  highlightedBucket: MonthDayBucket | null
+  onHighlightChange: (bucket: MonthDayBucket | null) => void
+  // Switches to the daily calendar, when the parent can
+  onShowInCalendar?: () => void
+}
+
+const SIGNIFICANCE_LEVEL = 0.05
+
+const formatValue = (value: number, metric: MonthDayMetric, digits = 3) => {
+  if (isNaN(value)) return "–"
+  if (metric === "volume") return `${value.toFixed(0)}%`
+  return `${metric === "return" && value >= 0 ? "+" : ""}${value.toFixed(digits)}%`
+}
+
+const formatPValue = (value: number) => (isNaN(value) ? "–" : value < 0.001 ? "<0.001" : value.toFixed(3))
+
+// Profiles the days of the month, or the trading days around the month end, over the symbol's whole
+// history. Clicking a bucket highlights its days in the daily calendar.
+export function MonthDayEffects({
+  symbol,
+  expandedView = false,
+  highlightedBucket,
+  onHighlightChange,
+  onShowInCalendar,
+}: MonthDayEffectsProps) {
+  const [mode, setMode] = useState<MonthDayMode>("turn")
+  const [metric, setMetric] = useState<MonthDayMetric>("return")
+  const { tradingCalendar } = useTheme()
+  const { data, loading, error, progress } = useMarketHistory(symbol)
+
+  const effects = useMemo(
+    () => analyzeMonthDayEffects(data, tradingCalendar, mode, metric),
+    [data, tradingCalendar, mode, metric],
+  )
+  const selectedMetric = MONTH_DAY_METRICS.find((option) => option.value === metric)
+  const totalDays = effects.reduce((sum, effect) => sum + effect.days, 0)
+  const overallMean =
+    totalDays > 0 ? effects.reduce((sum, effect) => sum + effect.mean * effect.days, 0) / totalDays : 0
+  const reference = metric === "return" ? 0 : metric === "volume" ? 100 : overallMean
+
+  const visible = effects.filter((effect) => effect.days > 0)
+  const chartData = visible.map((effect) => ({
+    label: mode === "calendar" ? String(effect.bucket.value) : formatMonthDayBucket(effect.bucket),
+    mean: effect.mean,
+    confidence: [effect.mean - effect.confidenceInterval[0], effect.confidenceInterval[1] - effect.mean],
+    significant: effect.adjustedPValue < SIGNIFICANCE_LEVEL,
+    highlighted: isSameMonthDayBucket(effect.bucket, highlightedBucket),
+  }))
+
+  const toggleBucket = (bucket: MonthDayBucket) =>
+    onHighlightChange(isSameMonthDayBucket(bucket, highlightedBucket) ? null : bucket)
+
+  const barColor = (mean: number) =>
+    metric === "range"
+      ? "rgb(249, 115, 22)"
+      : metric === "volume"
+        ? "rgb(59, 130, 246)"
+        : mean >= 0
+          ? "rgb(34, 197, 94)"
+          : "rgb(239, 68, 68)"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          {selectedMetric?.description}; {totalDays} trading days
+        </div>
+        <div className="flex gap-2">
+          <Select value={mode} onValueChange={(value) => setMode(value as MonthDayMode)}>
+            <SelectTrigger className="w-32 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_DAY_MODES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={metric} onValueChange={(value) => setMetric(value as MonthDayMetric)}>
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_DAY_METRICS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {highlightedBucket && (
+        <div className="flex items-center justify-between gap-2 rounded-md border px-3 py-1.5 text-xs">
+          <span>
+            Highlighting <strong>{formatMonthDayBucket(highlightedBucket)}</strong> days in the daily calendar
+          </span>
+          <div className="flex items-center gap-1">
+            {onShowInCalendar && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onShowInCalendar}>
+                Show
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => onHighlightChange(null)}
+              aria-label="Clear highlight"
+              title="Clear highlight"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner progress={progress} />
+        </div>
+      ) : error ? (
+        <div className="text-center text-sm text-red-500 py-4 bg-muted/20 rounded-lg">{error}</div>
+      ) : (
+        <>
+          <div className={expandedView ? "h-80" : "h-56"}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="label"
+                  tick={{ fontSize: 10 }}
+                  stroke="hsl(var(--muted-foreground))"
+                  interval={mode === "calendar" && !expandedView ? 1 : 0}
+                />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  stroke="hsl(var(--muted-foreground))"
+                  width={50}
+                  tickFormatter={(value) => formatValue(Number(value), metric, metric === "volume" ? 0 : 2)}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--popover))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "6px",
+                    fontSize: "12px",
+                  }}
+                  formatter={(value) => [
+                    formatValue(Number(value), metric),
+                    `Mean ${selectedMetric?.label.toLowerCase()}`,
+                  ]}
+                />
+                <ReferenceLine y={reference} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                <Bar
+                  dataKey="mean"
+                  isAnimationActive={false}
+                  cursor="pointer"
+                  onClick={(_, index) => toggleBucket(visible[index].bucket)}
+                >
+                  {chartData.map((entry) => (
+                    <Cell
+                      key={entry.label}
+                      fill={barColor(entry.mean)}
+                      fillOpacity={entry.significant ? 0.9 : 0.35}
+                      stroke={entry.highlighted ? "hsl(var(--foreground))" : undefined}
+                      strokeWidth={entry.highlighted ? 2 : 0}
+                    />
+                  ))}
+                  <ErrorBar dataKey="confidence" width={4} strokeWidth={1.5} stroke="hsl(var(--foreground))" />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto max-h-80 overflow-y-auto">
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{mode === "calendar" ? "Day" : "Offset"}</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Mean</TableHead>
+                  <TableHead className="text-right">95% CI</TableHead>
+                  <TableHead className="text-right" title="Mean of this bucket minus the mean of all other days">
+                    vs Rest
+                  </TableHead>
+                  <TableHead className="text-right">p</TableHead>
+                  <TableHead
+                    className="text-right"
+                    title="Benjamini-Hochberg adjusted for the number of buckets in the profile"
+                  >
+                    q
+                  </TableHead>
+                  <TableHead
+                    className="text-right"
+                    title="Hedges' g effect size: the difference in standard deviations"
+                  >
+                    g
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((effect) => (
+                  <TableRow
+                    key={effect.bucket.value}
+                    className={`cursor-pointer ${
+                      effect.adjustedPValue < SIGNIFICANCE_LEVEL ? "font-medium" : "text-muted-foreground"
+                    } ${isSameMonthDayBucket(effect.bucket, highlightedBucket) ? "bg-muted" : ""}`}
+                    onClick={() => toggleBucket(effect.bucket)}
+                  >
+                    <TableCell>{formatMonthDayBucket(effect.bucket)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{effect.days}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatValue(effect.mean, metric)}</TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {formatValue(effect.confidenceInterval[0], metric)} to{" "}
+                      {formatValue(effect.confidenceInterval[1], metric)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatValue(effect.difference, metric === "volume" ? "return" : metric)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatPValue(effect.test.pValue)}</TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {formatPValue(effect.adjustedPValue)} {significanceStars(effect.adjustedPValue)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {isNaN(effect.effectSize) ? "–" : effect.effectSize.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Each bucket is compared with all other trading days by Welch&apos;s t-test, and the p-values are adjusted for
+        the {effects.length} buckets tested (q). Bars are solid where q &lt; 0.05; whiskers show the 95% confidence
+        interval of the mean. T-1 is a month&apos;s last trading day and T+1 the next month&apos;s first, counted on the
+        trading calendar. Click a bar or row to highlight its days in the daily calendar.
+      </div>
+    </div>
+  )
+}
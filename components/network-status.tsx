@@ -1,8 +1,11 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Wifi, WifiOff, AlertCircle } from "lucide-react"
+import { Wifi, WifiOff, AlertCircle, Clock } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
+import { useRateLimitState } from "@/hooks/use-rate-limit-state"
+import { useLiveStreamState } from "@/hooks/use-live-stream-state"
+import { BINANCE_BASE_URL, isUsingMockBinance } from "@/lib/binance-api"
 
 interface NetworkStatusProps {
   isLoading: boolean
@@ -12,6 +15,13 @@ interface NetworkStatusProps {
 
 export function NetworkStatus({ isLoading, hasError, lastUpdate }: NetworkStatusProps) {
   const [isOnline, setIsOnline] = useState(true)
+  const [now, setNow] = useState(() => Date.now())
+  const rateLimit = useRateLimitState()
+  const liveStream = useLiveStreamState()
+
+  const isThrottled = rateLimit.retryAt !== null
+  // A local mock server stays reachable without a network connection
+  const isOffline = !isOnline && !isUsingMockBinance
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true)
@@ -26,22 +36,35 @@ export function NetworkStatus({ isLoading, hasError, lastUpdate }: NetworkStatus
     }
   }, [])
 
+  // Tick once a second while throttled so the retry countdown stays current
+  useEffect(() => {
+    if (!isThrottled) return
+
+    setNow(Date.now())
+    const timer = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(timer)
+  }, [isThrottled])
+
+  const retryInSeconds = rateLimit.retryAt !== null ? Math.max(0, Math.ceil((rateLimit.retryAt - now) / 1000)) : 0
+
   const getStatusColor = () => {
-    if (!isOnline || hasError) return "destructive"
-    if (isLoading) return "secondary"
+    if (isOffline || hasError) return "destructive"
+    if (isThrottled || isLoading) return "secondary"
     return "default"
   }
 
   const getStatusText = () => {
-    if (!isOnline) return "Offline"
+    if (isOffline) return "Offline"
     if (hasError) return "Connection Error"
+    if (isThrottled) return retryInSeconds > 0 ? `Throttled, retrying in ${retryInSeconds}s` : "Throttled, retrying..."
     if (isLoading) return "Updating..."
     return "Connected"
   }
 
   const getStatusIcon = () => {
-    if (!isOnline) return <WifiOff className="h-3 w-3" />
+    if (isOffline) return <WifiOff className="h-3 w-3" />
     if (hasError) return <AlertCircle className="h-3 w-3" />
+    if (isThrottled) return <Clock className="h-3 w-3" />
     return <Wifi className="h-3 w-3" />
   }
 
@@ -51,7 +74,33 @@ export function NetworkStatus({ isLoading, hasError, lastUpdate }: NetworkStatus
         {getStatusIcon()}
         <span>{getStatusText()}</span>
       </Badge>
-      {lastUpdate && !isLoading && (
+      {liveStream.status !== "idle" && (
+        <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+          <span
+            className={`h-2 w-2 rounded-full ${liveStream.status === "live" ? "bg-green-500 animate-pulse" : "bg-amber-500"}`}
+          />
+          <span>
+            {liveStream.status === "live"
+              ? "Live"
+              : liveStream.status === "connecting"
+                ? "Connecting to live stream..."
+                : "Live stream reconnecting..."}
+          </span>
+          {liveStream.status === "live" && liveStream.lastMessageAt !== null && (
+            <span>· {new Date(liveStream.lastMessageAt).toLocaleTimeString()}</span>
+          )}
+        </div>
+      )}
+      {isUsingMockBinance && (
+        <div className="text-xs text-muted-foreground">Mock data: {new URL(BINANCE_BASE_URL).host}</div>
+      )}
+      {isThrottled && (
+        <div className="text-xs text-muted-foreground">
+          Attempt {rateLimit.retryAttempt}
+          {rateLimit.queued > 0 && `, ${rateLimit.queued} queued`}
+        </div>
+      )}
+      {lastUpdate && !isLoading && !isThrottled && (
         <div className="text-xs text-muted-foreground">Updated: {lastUpdate.toLocaleTimeString()}</div>
       )}
     </div>
@@ -14,19 +14,8 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import type { MarketData } from "@/types/market"
-import { getDay, getDate } from "date-fns"
 import { useTheme } from "@/contexts/theme-context"
-
-interface Pattern {
-  id: string
-  type: "weekly" | "monthly" | "volatility" | "volume" | "anomaly"
-  name: string
-  description: string
-  confidence: number
-  occurrences: number
-  avgImpact: number
-  severity?: "low" | "medium" | "high"
-}
+import { analyzePatterns, MIN_PATTERN_DAYS, PATTERN_FDR, type Pattern } from "@/lib/pattern-analysis"
 
 interface PatternAnalyzerProps {
   data: MarketData[]
@@ -37,158 +26,13 @@ interface PatternAnalyzerProps {
 
 export function PatternAnalyzer({ data, symbol, historicalData = [], expandedView = false }: PatternAnalyzerProps) {
   const [selectedPattern, setSelectedPattern] = useState<Pattern | null>(null)
-  const { getSeverityColor } = useTheme()
-
-  const patterns = useMemo(() => {
-    const allData = [...historicalData, ...data]
-    if (allData.length < 30) return []
-
-    const detectedPatterns: Pattern[] = []
-
-    // Weekly patterns - analyze by day of week
-    const weeklyData = allData.reduce(
-      (acc, item) => {
-        const dayOfWeek = getDay(new Date(item.date))
-        if (!acc[dayOfWeek]) acc[dayOfWeek] = []
-        acc[dayOfWeek].push(item)
-        return acc
-      },
-      {} as Record<number, MarketData[]>,
-    )
-
-    // Find most volatile day of week
-    const weeklyVolatility = Object.entries(weeklyData).map(([day, dayData]) => ({
-      day: Number.parseInt(day),
-      avgVolatility: dayData.reduce((sum, item) => sum + item.volatility, 0) / dayData.length,
-      count: dayData.length,
-    }))
-
-    const mostVolatileDay = weeklyVolatility.reduce((max, current) =>
-      current.avgVolatility > max.avgVolatility ? current : max,
-    )
-
-    if (mostVolatileDay.avgVolatility > 2 && mostVolatileDay.count >= 4) {
-      const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
-      detectedPatterns.push({
-        id: "weekly-volatility",
-        type: "weekly",
-        name: `${dayNames[mostVolatileDay.day]} Volatility`,
-        description: `Higher volatility typically occurs on ${dayNames[mostVolatileDay.day]}s`,
-        confidence: Math.min(95, (mostVolatileDay.count / allData.length) * 100 * 7),
-        occurrences: mostVolatileDay.count,
-        avgImpact: mostVolatileDay.avgVolatility,
-        severity: mostVolatileDay.avgVolatility > 3 ? "high" : "medium",
-      })
-    }
-
-    // Monthly patterns - analyze by day of month
-    const monthlyData = allData.reduce(
-      (acc, item) => {
-        const dayOfMonth = getDate(new Date(item.date))
-        const period = dayOfMonth <= 10 ? "early" : dayOfMonth <= 20 ? "mid" : "late"
-        if (!acc[period]) acc[period] = []
-        acc[period].push(item)
-        return acc
-      },
-      {} as Record<string, MarketData[]>,
-    )
-
-    // Find patterns in monthly periods
-    Object.entries(monthlyData).forEach(([period, periodData]) => {
-      const avgVolatility = periodData.reduce((sum, item) => sum + item.volatility, 0) / periodData.length
-      const avgReturn =
-        periodData.length > 0
-          ? periodData.reduce((sum, item) => sum + ((item.close - item.open) / item.open) * 100, 0) / periodData.length
-          : 0
-
-      if (Math.abs(avgReturn) > 1 && periodData.length >= 5) {
-        detectedPatterns.push({
-          id: `monthly-${period}`,
-          type: "monthly",
-          name: `${period.charAt(0).toUpperCase() + period.slice(1)}-Month ${avgReturn > 0 ? "Rally" : "Decline"}`,
-          description: `${period === "early" ? "Early" : period === "mid" ? "Mid" : "Late"} month periods show ${avgReturn > 0 ? "positive" : "negative"} performance tendency`,
-          confidence: Math.min(90, (periodData.length / allData.length) * 100 * 3),
-          occurrences: periodData.length,
-          avgImpact: Math.abs(avgReturn),
-          severity: Math.abs(avgReturn) > 3 ? "high" : Math.abs(avgReturn) > 1.5 ? "medium" : "low",
-        })
-      }
-    })
-
-    // Volatility clustering
-    let clusterCount = 0
-    let inCluster = false
-    for (let i = 1; i < allData.length; i++) {
-      const current = allData[i].volatility
-      const previous = allData[i - 1].volatility
-
-      if (current > 2 && previous > 2) {
-        if (!inCluster) {
-          clusterCount++
-          inCluster = true
-        }
-      } else {
-        inCluster = false
-      }
-    }
-
-    if (clusterCount >= 3) {
-      detectedPatterns.push({
-        id: "volatility-clustering",
-        type: "volatility",
-        name: "Volatility Clustering",
-        description: "High volatility periods tend to be followed by more high volatility",
-        confidence: Math.min(85, (clusterCount / (allData.length / 10)) * 100),
-        occurrences: clusterCount,
-        avgImpact:
-          allData.filter((item) => item.volatility > 2).reduce((sum, item) => sum + item.volatility, 0) /
-          allData.filter((item) => item.volatility > 2).length,
-        severity: "medium",
-      })
-    }
-
-    // Volume spikes pattern
-    const avgVolume = allData.reduce((sum, item) => sum + item.volume, 0) / allData.length
-    const volumeSpikes = allData.filter((item) => item.volume > avgVolume * 2)
-
-    if (volumeSpikes.length >= 3) {
-      detectedPatterns.push({
-        id: "volume-spikes",
-        type: "volume",
-        name: "Volume Spikes",
-        description: "Periodic volume spikes indicate increased market interest",
-        confidence: Math.min(80, (volumeSpikes.length / allData.length) * 100 * 10),
-        occurrences: volumeSpikes.length,
-        avgImpact: volumeSpikes.reduce((sum, item) => sum + item.volume, 0) / volumeSpikes.length / avgVolume,
-        severity: "low",
-      })
-    }
-
-    // Anomaly detection - extreme price movements
-    const priceChanges = allData.map((item) => ((item.close - item.open) / item.open) * 100)
-    const avgChange = priceChanges.reduce((sum, change) => sum + Math.abs(change), 0) / priceChanges.length
-    const anomalies = allData.filter((item) => {
-      const change = Math.abs(((item.close - item.open) / item.open) * 100)
-      return change > avgChange * 3
-    })
-
-    if (anomalies.length >= 2) {
-      detectedPatterns.push({
-        id: "price-anomalies",
-        type: "anomaly",
-        name: "Price Anomalies",
-        description: "Unusual price movements detected that deviate significantly from normal patterns",
-        confidence: Math.min(75, (anomalies.length / allData.length) * 100 * 20),
-        occurrences: anomalies.length,
-        avgImpact:
-          anomalies.reduce((sum, item) => sum + Math.abs(((item.close - item.open) / item.open) * 100), 0) /
-          anomalies.length,
-        severity: "high",
-      })
-    }
+  const { getSeverityColor, tradingCalendar } = useTheme()
 
-    return detectedPatterns.sort((a, b) => b.confidence - a.confidence)
-  }, [data, historicalData])
+  const patterns = useMemo(
+    () => analyzePatterns([...historicalData, ...data], tradingCalendar),
+    [data, historicalData, tradingCalendar],
+  )
+  const significantCount = patterns.filter((pattern) => pattern.significant).length
 
   const getPatternIcon = (type: Pattern["type"]) => {
     switch (type) {
@@ -205,11 +49,15 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
     }
   }
 
-  const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 80) return "text-green-500"
-    if (confidence >= 60) return "text-yellow-500"
-    return "text-red-500"
-  }
+  // Only fat tails flag anomalies; thin tails mean extreme moves are rarer than normal
+  const isFatTailed = (pattern: Pattern) => pattern.type === "anomaly" && pattern.effectSize > 0
+
+  const getSignificanceColor = (pattern: Pattern) => (pattern.significant ? "text-green-500" : "text-muted-foreground")
+
+  const formatPValue = (value: number) => (value < 0.001 ? "<0.001" : value.toFixed(3))
+
+  const formatImpact = (pattern: Pattern) =>
+    isNaN(pattern.avgImpact) ? "–" : `${pattern.avgImpact.toFixed(2)}${pattern.impactUnit}`
 
   // Determine how many patterns to show based on expanded view
   const patternsToShow = expandedView ? 5 : 3
@@ -223,9 +71,16 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
+        {patterns.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {patterns.length} patterns tested, {significantCount} significant at a {PATTERN_FDR * 100}% false discovery
+            rate
+          </p>
+        )}
         {patterns.length === 0 ? (
           <p className="text-sm text-muted-foreground">
-            Insufficient data for pattern analysis. Need more historical data to detect recurring patterns.
+            Insufficient data for pattern analysis. At least {MIN_PATTERN_DAYS} trading days are needed to test for
+            patterns.
           </p>
         ) : (
           patterns.slice(0, patternsToShow).map((pattern) => (
@@ -238,14 +93,14 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                     <div className="flex items-center space-x-2">
                       {getPatternIcon(pattern.type)}
                       <span className="font-medium text-sm">{pattern.name}</span>
-                      {pattern.type === "anomaly" && (
+                      {isFatTailed(pattern) && (
                         <Badge variant="destructive" className="text-xs">
                           Anomaly
                         </Badge>
                       )}
                     </div>
-                    <Badge variant="outline" className={getConfidenceColor(pattern.confidence)}>
-                      {pattern.confidence.toFixed(0)}%
+                    <Badge variant="outline" className={`shrink-0 ${getSignificanceColor(pattern)}`}>
+                      {pattern.significant ? "Significant" : "Not significant"}
                     </Badge>
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">{pattern.description}</p>
@@ -275,30 +130,38 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                 <div className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <div className="text-sm text-muted-foreground">Confidence Level</div>
-                      <div className={`text-lg font-bold ${getConfidenceColor(pattern.confidence)}`}>
-                        {pattern.confidence.toFixed(1)}%
+                      <div className="text-sm text-muted-foreground">Adjusted p-value</div>
+                      <div className={`text-lg font-bold ${getSignificanceColor(pattern)}`}>
+                        {formatPValue(pattern.adjustedPValue)}
                       </div>
                     </div>
                     <div>
-                      <div className="text-sm text-muted-foreground">Occurrences</div>
-                      <div className="text-lg font-bold">{pattern.occurrences}</div>
+                      <div className="text-sm text-muted-foreground">Raw p-value</div>
+                      <div className="text-lg font-bold">{formatPValue(pattern.pValue)}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Sample Size</div>
+                      <div className="text-lg font-bold">{pattern.sampleSize}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">{pattern.effectSizeLabel}</div>
+                      <div className="text-lg font-bold">
+                        {isNaN(pattern.effectSize) ? "–" : pattern.effectSize.toFixed(2)}
+                      </div>
                     </div>
                   </div>
                   <div>
                     <div className="text-sm text-muted-foreground">Average Impact</div>
-                    <div className="text-lg font-bold">
-                      {pattern.avgImpact.toFixed(2)}
-                      {pattern.type === "volume" ? "x" : "%"}
-                    </div>
+                    <div className="text-lg font-bold">{formatImpact(pattern)}</div>
                   </div>
                   <div className="text-sm text-muted-foreground">
                     <p>
-                      This pattern has been observed {pattern.occurrences} times in the analyzed data with a confidence
-                      level of {pattern.confidence.toFixed(1)}%. The average impact is {pattern.avgImpact.toFixed(2)}
-                      {pattern.type === "volume" ? "x normal volume" : "% change"}.
+                      Tested with a {pattern.test.charAt(0).toLowerCase() + pattern.test.slice(1)} over{" "}
+                      {pattern.sampleSize} days. After Benjamini-Hochberg correction across all {patterns.length}{" "}
+                      patterns tested, it is {pattern.significant ? "" : "not "}significant at a {PATTERN_FDR * 100}%
+                      false discovery rate.
                     </p>
-                    {pattern.type === "anomaly" && (
+                    {isFatTailed(pattern) && (
                       <p className="mt-2 text-orange-600 dark:text-orange-400">
                         <strong>Note:</strong> Anomalies represent unusual market behavior that may indicate significant
                         events or market inefficiencies.
@@ -322,10 +185,11 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
               <DialogHeader>
                 <DialogTitle className="flex items-center space-x-2">
                   <Zap className="h-5 w-5" />
-                  <span>All Detected Patterns ({patterns.length})</span>
+                  <span>All Tested Patterns ({patterns.length})</span>
                 </DialogTitle>
                 <DialogDescription>
-                  Complete analysis of all recurring patterns detected in the market data
+                  Every candidate pattern tested on the market data, most significant first ({significantCount}{" "}
+                  significant)
                 </DialogDescription>
               </DialogHeader>
 
@@ -342,7 +206,7 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
-                          {pattern.type === "anomaly" && (
+                          {isFatTailed(pattern) && (
                             <Badge variant="destructive" className="text-xs">
                               Anomaly
                             </Badge>
@@ -361,31 +225,40 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                               {pattern.severity} severity
                             </Badge>
                           )}
-                          <Badge variant="outline" className={`text-xs ${getConfidenceColor(pattern.confidence)}`}>
-                            {pattern.confidence.toFixed(0)}% confidence
+                          <Badge variant="outline" className={`text-xs ${getSignificanceColor(pattern)}`}>
+                            {pattern.significant ? "Significant" : "Not significant"}
                           </Badge>
                         </div>
                       </div>
 
-                      <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                        <div className="text-center p-2 bg-muted/20 rounded">
+                          <div className="text-muted-foreground text-xs">Adjusted p (raw)</div>
+                          <div className={`font-bold text-lg ${getSignificanceColor(pattern)}`}>
+                            {formatPValue(pattern.adjustedPValue)}{" "}
+                            <span className="text-xs font-normal text-muted-foreground">
+                              ({formatPValue(pattern.pValue)})
+                            </span>
+                          </div>
+                        </div>
                         <div className="text-center p-2 bg-muted/20 rounded">
-                          <div className="text-muted-foreground text-xs">Occurrences</div>
-                          <div className="font-bold text-lg">{pattern.occurrences}</div>
+                          <div className="text-muted-foreground text-xs">Sample Size</div>
+                          <div className="font-bold text-lg">{pattern.sampleSize}</div>
                         </div>
                         <div className="text-center p-2 bg-muted/20 rounded">
-                          <div className="text-muted-foreground text-xs">Average Impact</div>
+                          <div className="text-muted-foreground text-xs">{pattern.effectSizeLabel}</div>
                           <div className="font-bold text-lg">
-                            {pattern.avgImpact.toFixed(2)}
-                            {pattern.type === "volume" ? "x" : "%"}
+                            {isNaN(pattern.effectSize) ? "–" : pattern.effectSize.toFixed(2)}
                           </div>
                         </div>
                         <div className="text-center p-2 bg-muted/20 rounded">
-                          <div className="text-muted-foreground text-xs">Pattern Type</div>
-                          <div className="font-bold text-sm capitalize">{pattern.type}</div>
+                          <div className="text-muted-foreground text-xs">Average Impact</div>
+                          <div className="font-bold text-lg">{formatImpact(pattern)}</div>
                         </div>
                       </div>
+                      <div className="mt-2 text-xs text-muted-foreground">{pattern.test}</div>
 
-                      {pattern.type === "anomaly" && (
+                      {isFatTailed(pattern) && (
                         <div className="mt-3 p-3 bg-orange-50 dark:bg-orange-950 border border-orange-200 dark:border-orange-800 rounded">
                           <div className="text-xs text-orange-600 dark:text-orange-400">
                             <strong>⚠️ Anomaly Alert:</strong> This pattern represents unusual market behavior that
@@ -418,9 +291,9 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                       {pattern.type === "volatility" && (
                         <div className="mt-3 p-3 bg-purple-50 dark:bg-purple-950 border border-purple-200 dark:border-purple-800 rounded">
                           <div className="text-xs text-purple-600 dark:text-purple-400">
-                            <strong>⚡ Volatility Pattern:</strong> This pattern shows how market volatility tends to
-                            cluster together. High volatility periods are often followed by more high volatility,
-                            indicating market uncertainty or major events.
+                            <strong>⚡ Volatility Pattern:</strong> This pattern tests whether the size of one
+                            day&apos;s move carries over to the next. Positive autocorrelation means volatile periods
+                            cluster together; negative means large moves tend to be followed by calmer days.
                           </div>
                         </div>
                       )}
@@ -428,9 +301,9 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                       {pattern.type === "volume" && (
                         <div className="mt-3 p-3 bg-indigo-50 dark:bg-indigo-950 border border-indigo-200 dark:border-indigo-800 rounded">
                           <div className="text-xs text-indigo-600 dark:text-indigo-400">
-                            <strong>📈 Volume Pattern:</strong> This pattern indicates periods of unusually high trading
-                            volume, which often correlates with increased market interest, news events, or significant
-                            price movements.
+                            <strong>📈 Volume Pattern:</strong> This pattern compares price moves on days of unusually
+                            high trading volume with other days. A positive effect means volume spikes come with larger
+                            moves, as around news events; a negative one that they come with smaller moves.
                           </div>
                         </div>
                       )}
@@ -452,10 +325,17 @@ export function PatternAnalyzer({ data, symbol, historicalData = [], expandedVie
                   <h4 className="font-semibold text-sm mb-2">Pattern Analysis Notes:</h4>
                   <ul className="text-xs text-muted-foreground space-y-1">
                     <li>
-                      • <strong>Confidence Level:</strong> Higher percentages indicate more reliable patterns
+                      • <strong>p-value:</strong> Chance of an effect at least this large if there were no pattern
+                    </li>
+                    <li>
+                      • <strong>Adjusted p-value:</strong> Benjamini-Hochberg corrected for the {patterns.length}{" "}
+                      patterns tested; below {PATTERN_FDR} counts as significant
+                    </li>
+                    <li>
+                      • <strong>Sample Size:</strong> Trading days behind the test
                     </li>
                     <li>
-                      • <strong>Occurrences:</strong> Number of times this pattern was observed in the data
+                      • <strong>Effect Size:</strong> How large the pattern is, whatever its p-value
                     </li>
                     <li>
                       • <strong>Average Impact:</strong> Typical magnitude of the pattern's effect
@@ -12,10 +12,19 @@ import { format, isFuture, startOfMonth, subMonths } from "date-fns"
 interface QuickDatePickerProps {
   currentMonth: Date
   onMonthChange: (month: Date) => void
+  // The first month the selected symbol's source has data for
+  earliestMonth?: Date
   className?: string
 }
 
-export function QuickDatePicker({ currentMonth, onMonthChange, className }: QuickDatePickerProps) {
+const BINANCE_LAUNCH_MONTH = new Date(2017, 6, 1) // July 2017
+
+export function QuickDatePicker({
+  currentMonth,
+  onMonthChange,
+  earliestMonth = BINANCE_LAUNCH_MONTH,
+  className,
+}: QuickDatePickerProps) {
   const [isOpen, setIsOpen] = useState(false)
 
   const quickOptions = [
@@ -69,9 +78,8 @@ export function QuickDatePicker({ currentMonth, onMonthChange, className }: Quic
 
   const handleMonthYearChange = (month: number, year: number) => {
     const newDate = new Date(year, month, 1)
-    const binanceLaunchDate = new Date(2017, 6, 1) // July 2017
 
-    if (!isFuture(startOfMonth(newDate)) && newDate >= binanceLaunchDate) {
+    if (!isFuture(startOfMonth(newDate)) && newDate >= earliestMonth) {
       onMonthChange(newDate)
     }
   }
@@ -111,14 +119,13 @@ export function QuickDatePicker({ currentMonth, onMonthChange, className }: Quic
                     {Array.from({ length: 12 }, (_, i) => {
                       const monthDate = new Date(currentMonth.getFullYear(), i, 1)
                       const isFutureMonth = isFuture(startOfMonth(monthDate))
-                      const binanceLaunchDate = new Date(2017, 6, 1)
-                      const isTooOld = monthDate < binanceLaunchDate
+                      const isTooOld = monthDate < earliestMonth
 
                       return (
                         <SelectItem key={i} value={i.toString()} disabled={isFutureMonth || isTooOld}>
                           {format(monthDate, "MMMM")}
                           {isFutureMonth && <span className="text-xs ml-1">(Future)</span>}
-                          {isTooOld && <span className="text-xs ml-1">(Pre-Binance)</span>}
+                          {isTooOld && <span className="text-xs ml-1">(No data)</span>}
                         </SelectItem>
                       )
                     })}
@@ -136,7 +143,7 @@ export function QuickDatePicker({ currentMonth, onMonthChange, className }: Quic
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent className="max-h-60">
-                    {Array.from({ length: 8 }, (_, i) => {
+                    {Array.from({ length: new Date().getFullYear() - earliestMonth.getFullYear() + 1 }, (_, i) => {
                       const year = new Date().getFullYear() - i
                       return (
                         <SelectItem key={year} value={year.toString()}>
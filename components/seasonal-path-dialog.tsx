@@ -0,0 +1,170 @@
+"use client"
+
+import { useMemo } from "react"
+import { format } from "date-fns"
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { LoadingSpinner } from "@/components/loading-spinner"
+import { useMarketHistory } from "@/hooks/use-market-history"
+import { useTheme } from "@/contexts/theme-context"
+import { buildSeasonalPath } from "@/lib/seasonality"
+
+interface SeasonalPathDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  symbol: string
+  // Any day of the month to compare with its seasonal norm
+  month: Date
+}
+
+const formatReturn = (value: number) => (isNaN(value) ? "–" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`)
+
+const SERIES_LABELS: Record<string, string> = {
+  outer: "10th-90th percentile",
+  inner: "25th-75th percentile",
+  mean: "Mean",
+  median: "Median",
+}
+
+// Rendered inside the dialog so the whole history only loads once the dialog opens
+function SeasonalPathChart({ symbol, month }: { symbol: string; month: Date }) {
+  const { tradingCalendar } = useTheme()
+  const { data, loading, error, progress } = useMarketHistory(symbol)
+  const path = useMemo(
+    () => buildSeasonalPath(data, tradingCalendar, month.getFullYear(), month.getMonth()),
+    [data, tradingCalendar, month],
+  )
+  const yearLabel = String(path.year)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-80">
+        <LoadingSpinner progress={progress} />
+      </div>
+    )
+  }
+  if (error) {
+    return <div className="text-center text-sm text-red-500 py-4 bg-muted/20 rounded-lg">{error}</div>
+  }
+  if (path.points.length === 0) {
+    return (
+      <div className="text-center text-sm text-muted-foreground py-4 bg-muted/20 rounded-lg">
+        No {format(month, "MMMM")} data for {symbol}
+      </div>
+    )
+  }
+
+  const { tracking } = path
+
+  return (
+    <div className="space-y-4">
+      {tracking && (
+        <div className="grid grid-cols-3 gap-2 text-center text-xs sm:text-sm">
+          <div className="rounded-md border p-2">
+            <div className="text-muted-foreground">
+              {format(month, "MMM yyyy")}, day {tracking.tradingDay}
+            </div>
+            <div className={`font-bold ${tracking.value >= 0 ? "text-green-500" : "text-red-500"}`}>
+              {formatReturn(tracking.value)}
+            </div>
+          </div>
+          <div className="rounded-md border p-2">
+            <div className="text-muted-foreground">Seasonal mean</div>
+            <div className="font-bold">{formatReturn(tracking.mean)}</div>
+          </div>
+          <div className="rounded-md border p-2">
+            <div className="text-muted-foreground">Percentile</div>
+            <div className="font-bold">{tracking.percentile.toFixed(0)}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={path.points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="tradingDay" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+            <YAxis
+              tick={{ fontSize: 10 }}
+              stroke="hsl(var(--muted-foreground))"
+              width={50}
+              tickFormatter={(value) => `${Number(value).toFixed(1)}%`}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--popover))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "6px",
+                fontSize: "12px",
+              }}
+              labelFormatter={(label) => `Trading day ${label}`}
+              formatter={(value, name) => [
+                Array.isArray(value)
+                  ? `${formatReturn(Number(value[0]))} to ${formatReturn(Number(value[1]))}`
+                  : formatReturn(Number(value)),
+                SERIES_LABELS[String(name)] ?? name,
+              ]}
+            />
+            <Legend wrapperStyle={{ fontSize: "12px" }} formatter={(value) => SERIES_LABELS[String(value)] ?? value} />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+            <Area dataKey="outer" stroke="none" fill="rgb(59, 130, 246)" fillOpacity={0.12} isAnimationActive={false} />
+            <Area dataKey="inner" stroke="none" fill="rgb(59, 130, 246)" fillOpacity={0.25} isAnimationActive={false} />
+            <Line dataKey="mean" stroke="rgb(59, 130, 246)" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Line
+              dataKey="median"
+              stroke="rgb(59, 130, 246)"
+              strokeDasharray="4 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="current"
+              name={yearLabel}
+              stroke="rgb(249, 115, 22)"
+              strokeWidth={2.5}
+              dot={{ r: 2 }}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Cumulative return from the previous month&apos;s close, by trading day of the month on the{" "}
+        {tradingCalendar.name} calendar. The norm is taken over {path.years.length} complete {format(month, "MMMM")}s
+        {path.years.length > 0 && ` (${path.years[0]}-${path.years[path.years.length - 1]})`}, leaving out {yearLabel}.
+        A day without a candle carries the previous day&apos;s value.
+      </div>
+    </div>
+  )
+}
+
+// The average path through a calendar month across every year of history, with the month being
+// viewed overlaid to see whether it is tracking its seasonal norm
+export function SeasonalPathDialog({ open, onOpenChange, symbol, month }: SeasonalPathDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{format(month, "MMMM")} Seasonal Path</DialogTitle>
+          <DialogDescription>
+            How {symbol} has moved through {format(month, "MMMM")} on average, against {format(month, "MMMM yyyy")}
+          </DialogDescription>
+        </DialogHeader>
+        <SeasonalPathChart symbol={symbol} month={month} />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LoadingSpinner } from "@/components/loading-spinner"
+import { useMarketHistory } from "@/hooks/use-market-history"
+import { useTheme } from "@/contexts/theme-context"
+import {
+  buildMonthlyPerformance,
+  getSeasonalityValue,
+  getYearReturn,
+  MONTH_LABELS,
+  summarizeMonthsOfYear,
+  type MonthlyPerformance,
+  type SeasonalityMetric,
+} from "@/lib/seasonality"
+import { formatVolatility } from "@/lib/volatility"
+import type { VolatilityModel } from "@/types/market"
+
+interface SeasonalityHeatmapProps {
+  symbol: string
+  expandedView?: boolean
+}
+
+const METRIC_OPTIONS: { value: SeasonalityMetric; label: string }[] = [
+  { value: "return", label: "Returns" },
+  { value: "volatility", label: "Volatility" },
+]
+
+const GRID_COLUMNS = "grid-cols-[3rem_repeat(12,minmax(0,1fr))_3.5rem]"
+
+const formatReturn = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`
+
+const formatValue = (value: number, metric: SeasonalityMetric, volatilityModel: VolatilityModel): string => {
+  if (isNaN(value)) return "–"
+  return metric === "return" ? formatReturn(value) : formatVolatility(value, volatilityModel)
+}
+
+// Loads a symbol's whole daily history and lays out its monthly returns or volatility by year,
+// with how each calendar month has behaved across the years underneath
+export function SeasonalityHeatmap({ symbol, expandedView = false }: SeasonalityHeatmapProps) {
+  const [metric, setMetric] = useState<SeasonalityMetric>("return")
+  const { volatilityModel, tradingCalendar } = useTheme()
+  const { data, loading, error, progress } = useMarketHistory(symbol)
+
+  const months = useMemo(() => buildMonthlyPerformance(data, tradingCalendar), [data, tradingCalendar])
+  const stats = useMemo(() => summarizeMonthsOfYear(months, metric), [months, metric])
+
+  const years = useMemo(() => {
+    const byYear = new Map<number, MonthlyPerformance[]>()
+    months.forEach((item) => byYear.set(item.year, [...(byYear.get(item.year) ?? []), item]))
+    return [...byYear.entries()].sort(([a], [b]) => a - b)
+  }, [months])
+
+  const { maxAbs, maxValue } = useMemo(() => {
+    const values = months.map((item) => getSeasonalityValue(item, metric))
+    return {
+      maxAbs: Math.max(0, ...values.map(Math.abs)),
+      maxValue: Math.max(0, ...values),
+    }
+  }, [months, metric])
+
+  const getCellStyle = (value: number) => {
+    if (isNaN(value)) return undefined
+    if (metric === "return") {
+      const alpha = maxAbs > 0 ? Math.min(1, Math.abs(value) / maxAbs) : 0
+      return { backgroundColor: value >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})` }
+    }
+    const alpha = maxValue > 0 ? Math.min(1, value / maxValue) : 0
+    return { backgroundColor: `rgba(249, 115, 22, ${alpha})` }
+  }
+
+  const cellHeight = expandedView ? "h-9" : "h-7"
+  const completeMonths = months.filter((item) => !item.partial).length
+
+  const statRows: {
+    label: string
+    title: string
+    value: (index: number) => number
+    format: (value: number) => string
+  }[] = [
+    {
+      label: "Mean",
+      title: "Average over complete months",
+      value: (index) => stats[index].mean,
+      format: (value) => formatValue(value, metric, volatilityModel),
+    },
+    {
+      label: "Median",
+      title: "Median over complete months",
+      value: (index) => stats[index].median,
+      format: (value) => formatValue(value, metric, volatilityModel),
+    },
+    {
+      label: "Hit %",
+      title: "Percent of years the month closed higher",
+      value: (index) => stats[index].hitRate,
+      format: (value) => (isNaN(value) ? "–" : `${value.toFixed(0)}%`),
+    },
+    {
+      label: "Std",
+      title: "Standard deviation across years",
+      value: (index) => stats[index].stdDev,
+      format: (value) => formatValue(value, metric, volatilityModel),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          Month × year, {years.length} years ({completeMonths} complete months)
+        </div>
+        <Select value={metric} onValueChange={(value) => setMetric(value as SeasonalityMetric)}>
+          <SelectTrigger className="w-28 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METRIC_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner progress={progress} />
+        </div>
+      ) : error ? (
+        <div className="text-center text-sm text-red-500 py-4 bg-muted/20 rounded-lg">{error}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-[640px] space-y-1 text-[10px] sm:text-xs">
+            <div className={`grid ${GRID_COLUMNS} gap-px text-muted-foreground`}>
+              <div />
+              {MONTH_LABELS.map((label) => (
+                <div key={label} className="text-center">
+                  {label}
+                </div>
+              ))}
+              <div className="text-center">{metric === "return" ? "Year" : "Avg"}</div>
+            </div>
+
+            {years.map(([year, yearMonths]) => {
+              const yearValue =
+                metric === "return"
+                  ? getYearReturn(yearMonths)
+                  : yearMonths.reduce((sum, item) => sum + item.avgVolatility, 0) / yearMonths.length
+              return (
+                <div key={year} className={`grid ${GRID_COLUMNS} gap-px`}>
+                  <div className="text-muted-foreground flex items-center">{year}</div>
+                  {MONTH_LABELS.map((label, month) => {
+                    const item = yearMonths.find((candidate) => candidate.month === month)
+                    if (!item) {
+                      return <div key={label} className={`${cellHeight} rounded-sm border border-border bg-muted/20`} />
+                    }
+                    const value = getSeasonalityValue(item, metric)
+                    return (
+                      <div
+                        key={label}
+                        className={`${cellHeight} rounded-sm border flex items-center justify-center tabular-nums ${
+                          item.partial ? "border-dashed border-muted-foreground/50 italic" : "border-border"
+                        }`}
+                        style={getCellStyle(value)}
+                        title={`${label} ${year}${item.partial ? " (partial, left out of the averages)" : ""}\nReturn: ${formatReturn(item.return)}\nVolatility: ${formatVolatility(item.avgVolatility, volatilityModel)}\nTrading days: ${item.days}`}
+                      >
+                        {formatValue(value, metric, volatilityModel)}
+                      </div>
+                    )
+                  })}
+                  <div
+                    className={`${cellHeight} rounded-sm border border-border flex items-center justify-center font-medium tabular-nums`}
+                    title={
+                      metric === "return" ? `${year}, compounded from its months` : `${year}, average of its months`
+                    }
+                  >
+                    {formatValue(yearValue, metric, volatilityModel)}
+                  </div>
+                </div>
+              )
+            })}
+
+            <div className="pt-2 space-y-1 border-t">
+              {statRows.map((row) => (
+                <div key={row.label} className={`grid ${GRID_COLUMNS} gap-px`}>
+                  <div className="text-muted-foreground flex items-center" title={row.title}>
+                    {row.label}
+                  </div>
+                  {MONTH_LABELS.map((label, month) => {
+                    const value = row.value(month)
+                    return (
+                      <div
+                        key={label}
+                        className={`${cellHeight} rounded-sm flex items-center justify-center tabular-nums`}
+                        style={row.label === "Mean" ? getCellStyle(value) : undefined}
+                        title={`${label}: ${row.title.toLowerCase()} (${stats[month].years} years)`}
+                      >
+                        {row.format(value)}
+                      </div>
+                    )
+                  })}
+                  <div />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Monthly returns run close to close. Months missing their first or last trading day (dashed) are shown but left
+        out of the statistics.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Check, ChevronsUpDown, RefreshCw, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import type { SymbolInfo } from "@/types/market"
+import { useFavoriteSymbols, useSymbolCatalog } from "@/hooks/use-symbol-catalog"
+import { getDataSource } from "@/lib/data-sources"
+import { formatExchangeSymbol, parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { describeSymbol, formatSymbolStatus, isTradingSymbol } from "@/lib/symbol-catalog"
+import { cn } from "@/lib/utils"
+
+// Values are exchange-qualified symbols (see lib/data-sources/exchange-symbol), bare for Binance
+interface SymbolPickerProps {
+  value: string
+  onValueChange: (symbol: string) => void
+  // The exchange whose pairs are offered, the value's own by default
+  exchange?: string
+  exclude?: string[]
+  placeholder?: string
+  className?: string
+}
+
+// Rendering thousands of cmdk items makes typing sluggish; narrowing the search is the way to the long tail
+const MAX_RESULTS = 100
+const QUOTE_FILTER_COUNT = 5
+
+type QuoteFilter = "all" | "favorites" | string
+
+const normalizeQuery = (query: string) => query.toUpperCase().replace(/[\s/\-_]/g, "")
+
+function matchRank(info: SymbolInfo, query: string): number {
+  if (!query) return 0
+  if (info.baseAsset === query || info.symbol === query) return 0
+  if (info.symbol.startsWith(query)) return 1
+  if (info.symbol.includes(query)) return 2
+  return -1
+}
+
+export function SymbolPicker({
+  value,
+  onValueChange,
+  exchange = parseExchangeSymbol(value).exchange,
+  exclude = [],
+  placeholder = "Select trading pair...",
+  className,
+}: SymbolPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [quoteFilter, setQuoteFilter] = useState<QuoteFilter>("all")
+  const [showInactive, setShowInactive] = useState(false)
+  const { symbols, loading, error, refresh } = useSymbolCatalog(getDataSource(exchange))
+  const { favorites: allFavorites, toggleFavorite } = useFavoriteSymbols()
+
+  // Within the picker symbols are the exchange's own; favorites and values are stored qualified
+  const qualify = (symbol: string) => formatExchangeSymbol(exchange, symbol)
+  const favorites = useMemo(
+    () =>
+      allFavorites
+        .map(parseExchangeSymbol)
+        .filter((favorite) => favorite.exchange === exchange)
+        .map((favorite) => favorite.symbol),
+    [allFavorites, exchange],
+  )
+  const selectedSymbol = parseExchangeSymbol(value)
+  const currentSymbol = selectedSymbol.exchange === exchange ? selectedSymbol.symbol : ""
+
+  const selected = currentSymbol ? describeSymbol(currentSymbol, symbols) : null
+
+  // Offer the quote assets with the most trading pairs as one-click filters
+  const quoteAssets = useMemo(() => {
+    const counts = new Map<string, number>()
+    // Imported datasets have no quote asset
+    symbols
+      .filter((info) => isTradingSymbol(info) && info.quoteAsset)
+      .forEach((info) => {
+        counts.set(info.quoteAsset, (counts.get(info.quoteAsset) ?? 0) + 1)
+      })
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, QUOTE_FILTER_COUNT)
+      .map(([quote]) => quote)
+  }, [symbols])
+
+  const { favoriteResults, otherResults, truncated } = useMemo(() => {
+    const query = normalizeQuery(search)
+    const excludedSymbols = exclude
+      .map(parseExchangeSymbol)
+      .filter((excluded) => excluded.exchange === exchange)
+      .map((excluded) => excluded.symbol)
+    const catalog =
+      symbols.length > 0
+        ? symbols
+        : [...new Set([currentSymbol, ...favorites].filter(Boolean))].map((s) => describeSymbol(s))
+
+    const matches = catalog
+      .filter((info) => !excludedSymbols.includes(info.symbol))
+      .filter((info) => showInactive || isTradingSymbol(info) || favorites.includes(info.symbol))
+      .filter((info) => {
+        if (quoteFilter === "favorites") return favorites.includes(info.symbol)
+        return quoteFilter === "all" || info.quoteAsset === quoteFilter
+      })
+      .map((info) => ({ info, rank: matchRank(info, query) }))
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.info.symbol.localeCompare(b.info.symbol))
+      .map(({ info }) => info)
+
+    const favoriteMatches = matches.filter((info) => favorites.includes(info.symbol))
+    const otherMatches = matches.filter((info) => !favorites.includes(info.symbol))
+
+    return {
+      favoriteResults: favoriteMatches,
+      otherResults: otherMatches.slice(0, MAX_RESULTS),
+      truncated: otherMatches.length > MAX_RESULTS,
+    }
+  }, [symbols, search, quoteFilter, showInactive, favorites, exclude, exchange, currentSymbol])
+
+  const handleSelect = (symbol: string) => {
+    onValueChange(qualify(symbol))
+    setOpen(false)
+    setSearch("")
+  }
+
+  const renderItem = (info: SymbolInfo) => {
+    const isFavorite = favorites.includes(info.symbol)
+
+    return (
+      <CommandItem key={info.symbol} value={info.symbol} onSelect={() => handleSelect(info.symbol)}>
+        <Check className={cn("mr-2 h-4 w-4", info.symbol === currentSymbol ? "opacity-100" : "opacity-0")} />
+        <span className="flex-1 truncate">
+          {info.baseAsset}
+          {info.quoteAsset && <span className="text-muted-foreground">/{info.quoteAsset}</span>}
+        </span>
+        {!isTradingSymbol(info) && (
+          <Badge variant="outline" className="mr-1 px-1 py-0 text-[10px]">
+            {formatSymbolStatus(info.status)}
+          </Badge>
+        )}
+        <button
+          type="button"
+          aria-label={isFavorite ? `Remove ${info.label} from favorites` : `Add ${info.label} to favorites`}
+          className="rounded p-0.5 hover:bg-muted"
+          onClick={(event) => {
+            event.stopPropagation()
+            toggleFavorite(qualify(info.symbol))
+          }}
+        >
+          <Star
+            className={cn("h-3.5 w-3.5", isFavorite ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")}
+          />
+        </button>
+      </CommandItem>
+    )
+  }
+
+  const filterButton = (filter: QuoteFilter, label: string) => (
+    <Button
+      key={filter}
+      type="button"
+      variant={quoteFilter === filter ? "secondary" : "ghost"}
+      size="sm"
+      className="h-6 px-2 text-xs"
+      onClick={() => setQuoteFilter(filter)}
+    >
+      {label}
+    </Button>
+  )
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal text-xs sm:text-sm", className)}
+        >
+          <span className="truncate">{selected ? selected.label : placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[300px] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search pairs, e.g. BTC or ETH/USDC" value={search} onValueChange={setSearch} />
+          <div className="flex flex-wrap items-center gap-1 border-b p-2">
+            {filterButton("all", "All")}
+            {filterButton("favorites", "Favorites")}
+            {quoteAssets.map((quote) => filterButton(quote, quote))}
+            <Button
+              type="button"
+              variant={showInactive ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setShowInactive((current) => !current)}
+            >
+              Delisted
+            </Button>
+          </div>
+          <CommandList>
+            {loading && symbols.length === 0 ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">Loading trading pairs...</div>
+            ) : (
+              <CommandEmpty>No trading pairs found.</CommandEmpty>
+            )}
+            {favoriteResults.length > 0 && (
+              <CommandGroup heading="Favorites">{favoriteResults.map(renderItem)}</CommandGroup>
+            )}
+            {otherResults.length > 0 && (
+              <CommandGroup heading={quoteFilter === "all" ? "All Pairs" : `${quoteFilter} Pairs`}>
+                {otherResults.map(renderItem)}
+              </CommandGroup>
+            )}
+            {truncated && (
+              <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                Showing the first {MAX_RESULTS} matches, keep typing to narrow down
+              </div>
+            )}
+          </CommandList>
+          {error && (
+            <div className="flex items-center justify-between border-t p-2 text-xs">
+              <span className="text-red-500">Failed to load trading pairs</span>
+              <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={refresh}>
+                <RefreshCw className="mr-1 h-3 w-3" />
+                Retry
+              </Button>
+            </div>
+          )}
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,314 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dices, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DEFAULT_SYNTHETIC_CONFIG,
+  describeSyntheticConfig,
+  SYNTHETIC_MODELS,
+  SYNTHETIC_SOURCE_ID,
+  syntheticMarketStore,
+  validateSyntheticConfig,
+  type SyntheticMarketConfig,
+  type SyntheticModel,
+} from "@/lib/synthetic"
+import { formatExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { useSyntheticMarkets } from "@/hooks/use-symbol-catalog"
+
+interface SyntheticMarketDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The market the form starts from, e.g. the one being viewed
+  template?: SyntheticMarketConfig
+  // Receives the qualified symbol of the new market
+  onCreated: (symbol: string) => void
+}
+
+type Draft = Omit<SyntheticMarketConfig, "id">
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+const toDraft = (template?: SyntheticMarketConfig): Draft =>
+  template
+    ? { ...template, name: `${template.name} (copy)` }
+    : { ...DEFAULT_SYNTHETIC_CONFIG, name: "Synthetic market" }
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+  step?: number
+}
+
+// Cleared fields hold NaN, which validation reports, rather than silently becoming 0
+function NumberField({ id, label, value, onChange, step = 0.1 }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        className="h-8 text-xs px-2"
+        value={isNaN(value) ? "" : value}
+        onChange={(event) => onChange(event.target.valueAsNumber)}
+      />
+    </div>
+  )
+}
+
+export function SyntheticMarketDialog({ open, onOpenChange, template, onCreated }: SyntheticMarketDialogProps) {
+  const markets = useSyntheticMarkets()
+  const [draft, setDraft] = useState<Draft>(() => toDraft(template))
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(template))
+      setSaveError(null)
+    }
+  }, [open, template])
+
+  const update = (change: Partial<Draft>) => setDraft((current) => ({ ...current, ...change }))
+  const updateItem = (field: "weekdayDrift" | "monthVolatility" | "weekdayVolume", index: number, value: number) =>
+    setDraft((current) => ({ ...current, [field]: current[field].map((item, i) => (i === index ? value : item)) }))
+
+  const validationError = validateSyntheticConfig(draft)
+  const customMarkets = markets.filter((market) => !syntheticMarketStore.isPreset(market.id))
+
+  const handleCreate = () => {
+    try {
+      const market = syntheticMarketStore.add(draft)
+      onCreated(formatExchangeSymbol(SYNTHETIC_SOURCE_ID, market.id))
+      onOpenChange(false)
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Could not create the market")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Synthetic Market</DialogTitle>
+          <DialogDescription>
+            Generate hourly OHLCV from a seed with known effects planted, to check what the analysis finds. Weekdays and
+            months are in UTC.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="synthetic-name">Name</Label>
+              <Input
+                id="synthetic-name"
+                value={draft.name}
+                onChange={(event) => update({ name: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="synthetic-model">Model</Label>
+              <Select value={draft.model} onValueChange={(value) => update({ model: value as SyntheticModel })}>
+                <SelectTrigger id="synthetic-model" className="text-xs sm:text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SYNTHETIC_MODELS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+            <div className="flex items-end gap-1">
+              <NumberField
+                id="synthetic-seed"
+                label="Seed"
+                value={draft.seed}
+                step={1}
+                onChange={(seed) => update({ seed })}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                onClick={() => update({ seed: Math.floor(Math.random() * 1_000_000) })}
+                aria-label="Random seed"
+                title="Random seed"
+              >
+                <Dices className="h-4 w-4" />
+              </Button>
+            </div>
+            <NumberField
+              id="synthetic-drift"
+              label="Drift %/yr"
+              value={draft.drift}
+              step={1}
+              onChange={(drift) => update({ drift })}
+            />
+            <NumberField
+              id="synthetic-volatility"
+              label="Volatility %/yr"
+              value={draft.volatility}
+              step={1}
+              onChange={(volatility) => update({ volatility })}
+            />
+            {draft.model === "garch" && (
+              <>
+                <NumberField
+                  id="synthetic-alpha"
+                  label="GARCH α"
+                  value={draft.garchAlpha}
+                  step={0.01}
+                  onChange={(garchAlpha) => update({ garchAlpha })}
+                />
+                <NumberField
+                  id="synthetic-beta"
+                  label="GARCH β"
+                  value={draft.garchBeta}
+                  step={0.01}
+                  onChange={(garchBeta) => update({ garchBeta })}
+                />
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Weekday Return (% per day)</Label>
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <NumberField
+                  key={label}
+                  id={`synthetic-weekday-drift-${index}`}
+                  label={label}
+                  value={draft.weekdayDrift[index]}
+                  onChange={(value) => updateItem("weekdayDrift", index, value)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Month Volatility (×)</Label>
+            <div className="grid grid-cols-6 gap-1">
+              {MONTH_LABELS.map((label, index) => (
+                <NumberField
+                  key={label}
+                  id={`synthetic-month-volatility-${index}`}
+                  label={label}
+                  value={draft.monthVolatility[index]}
+                  onChange={(value) => updateItem("monthVolatility", index, value)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Weekday Volume (×)</Label>
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <NumberField
+                  key={label}
+                  id={`synthetic-weekday-volume-${index}`}
+                  label={label}
+                  value={draft.weekdayVolume[index]}
+                  onChange={(value) => updateItem("weekdayVolume", index, value)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            <NumberField
+              id="synthetic-spike-probability"
+              label="Spike chance %/day"
+              value={draft.spikeProbability * 100}
+              onChange={(value) => update({ spikeProbability: value / 100 })}
+            />
+            <NumberField
+              id="synthetic-spike-multiplier"
+              label="Spike volume ×"
+              value={draft.spikeMultiplier}
+              step={0.5}
+              onChange={(spikeMultiplier) => update({ spikeMultiplier })}
+            />
+            <NumberField
+              id="synthetic-regime-probability"
+              label="Regime switch %/day"
+              value={draft.regimeSwitchProbability * 100}
+              onChange={(value) => update({ regimeSwitchProbability: value / 100 })}
+            />
+            <NumberField
+              id="synthetic-regime-drift"
+              label="Stressed drift %/yr"
+              value={draft.regimeDrift}
+              step={1}
+              onChange={(regimeDrift) => update({ regimeDrift })}
+            />
+            <NumberField
+              id="synthetic-regime-volatility"
+              label="Stressed vol ×"
+              value={draft.regimeVolatility}
+              onChange={(regimeVolatility) => update({ regimeVolatility })}
+            />
+          </div>
+
+          <div className="rounded-md border p-3 text-xs">
+            {validationError ? (
+              <span className="text-orange-600">{validationError}</span>
+            ) : (
+              <span className="text-muted-foreground">{describeSyntheticConfig({ ...draft, id: "" })}</span>
+            )}
+          </div>
+
+          {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+
+          <Button onClick={handleCreate} disabled={validationError !== null} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Market
+          </Button>
+
+          {customMarkets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Your Synthetic Markets</Label>
+              <div className="space-y-1">
+                {customMarkets.map((market) => (
+                  <div key={market.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{market.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">{describeSyntheticConfig(market)}</div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 shrink-0"
+                      onClick={() => syntheticMarketStore.remove(market.id)}
+                      aria-label={`Delete ${market.name}`}
+                      title="Delete market"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ErrorBar,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/loading-spinner"
+import { useMarketHistory } from "@/hooks/use-market-history"
+import { useTheme } from "@/contexts/theme-context"
+import { WEEKDAY_LABELS } from "@/lib/intraday"
+import { analyzeWeekdayEffects, WEEKDAY_METRICS, type WeekdayMetric } from "@/lib/weekday-effects"
+import { significanceStars } from "@/lib/statistics"
+
+interface WeekdayEffectsProps {
+  symbol: string
+  expandedView?: boolean
+}
+
+const SIGNIFICANCE_LEVEL = 0.05
+
+const formatPercent = (value: number, digits = 3) =>
+  isNaN(value) ? "–" : `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`
+
+const formatPValue = (value: number) => (isNaN(value) ? "–" : value < 0.001 ? "<0.001" : value.toFixed(3))
+
+// Tests each trading weekday against the rest of the week over the symbol's whole history, so a
+// weekday that merely looks different in one month can be told from one that is
+export function WeekdayEffects({ symbol, expandedView = false }: WeekdayEffectsProps) {
+  const [metric, setMetric] = useState<WeekdayMetric>("return")
+  const { tradingCalendar } = useTheme()
+  const { data, loading, error, progress } = useMarketHistory(symbol)
+
+  const effects = useMemo(() => analyzeWeekdayEffects(data, tradingCalendar, metric), [data, tradingCalendar, metric])
+  const selectedMetric = WEEKDAY_METRICS.find((option) => option.value === metric)
+  const totalDays = effects.reduce((sum, effect) => sum + effect.days, 0)
+  const overallMean =
+    totalDays > 0 ? effects.reduce((sum, effect) => sum + effect.mean * effect.days, 0) / totalDays : 0
+
+  // Monday-first, like the intraday heatmap
+  const ordered = [...effects].sort((a, b) => ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7))
+  const chartData = ordered
+    .filter((effect) => effect.days > 0)
+    .map((effect) => ({
+      day: WEEKDAY_LABELS[effect.weekday],
+      mean: effect.mean,
+      confidence: [effect.mean - effect.confidenceInterval[0], effect.confidenceInterval[1] - effect.mean],
+      significant: effect.adjustedPValue < SIGNIFICANCE_LEVEL,
+    }))
+
+  const barColor = (mean: number) =>
+    metric === "range" ? "rgb(249, 115, 22)" : mean >= 0 ? "rgb(34, 197, 94)" : "rgb(239, 68, 68)"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          {selectedMetric?.description}; {totalDays} trading days
+        </div>
+        <Select value={metric} onValueChange={(value) => setMetric(value as WeekdayMetric)}>
+          <SelectTrigger className="w-28 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEEKDAY_METRICS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner progress={progress} />
+        </div>
+      ) : error ? (
+        <div className="text-center text-sm text-red-500 py-4 bg-muted/20 rounded-lg">{error}</div>
+      ) : (
+        <>
+          <div className={expandedView ? "h-80" : "h-56"}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="day" tick={{ fontSize: 10 }} stroke="hsl(var(--muted-foreground))" />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  stroke="hsl(var(--muted-foreground))"
+                  width={50}
+                  tickFormatter={(value) => `${Number(value).toFixed(2)}%`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--popover))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "6px",
+                    fontSize: "12px",
+                  }}
+                  formatter={(value) => [formatPercent(Number(value)), `Mean ${selectedMetric?.label.toLowerCase()}`]}
+                />
+                <ReferenceLine
+                  y={metric === "return" ? 0 : overallMean}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                />
+                <Bar dataKey="mean" isAnimationActive={false}>
+                  {chartData.map((entry) => (
+                    <Cell key={entry.day} fill={barColor(entry.mean)} fillOpacity={entry.significant ? 0.9 : 0.35} />
+                  ))}
+                  <ErrorBar dataKey="confidence" width={6} strokeWidth={1.5} stroke="hsl(var(--foreground))" />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Mean</TableHead>
+                  <TableHead className="text-right">95% CI</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right" title="Mean of this weekday minus the mean of all other days">
+                    vs Rest
+                  </TableHead>
+                  <TableHead className="text-right" title="Welch's t statistic against all other days">
+                    t
+                  </TableHead>
+                  <TableHead className="text-right">p</TableHead>
+                  <TableHead
+                    className="text-right"
+                    title="Benjamini-Hochberg adjusted for the number of weekdays tested"
+                  >
+                    q
+                  </TableHead>
+                  <TableHead
+                    className="text-right"
+                    title="Hedges' g effect size: the difference in standard deviations"
+                  >
+                    g
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ordered.map((effect) => (
+                  <TableRow
+                    key={effect.weekday}
+                    className={effect.adjustedPValue < SIGNIFICANCE_LEVEL ? "font-medium" : "text-muted-foreground"}
+                  >
+                    <TableCell>{WEEKDAY_LABELS[effect.weekday]}</TableCell>
+                    <TableCell className="text-right tabular-nums">{effect.days}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatPercent(effect.mean)}</TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {formatPercent(effect.confidenceInterval[0])} to {formatPercent(effect.confidenceInterval[1])}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatPercent(effect.median)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatPercent(effect.difference)}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {isNaN(effect.test.t) ? "–" : effect.test.t.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatPValue(effect.test.pValue)}</TableCell>
+                    <TableCell className="text-right tabular-nums whitespace-nowrap">
+                      {formatPValue(effect.adjustedPValue)} {significanceStars(effect.adjustedPValue)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {isNaN(effect.effectSize) ? "–" : effect.effectSize.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Each weekday is compared with all other trading days by Welch&apos;s t-test, and the p-values are adjusted for
+        the {effects.length} weekdays tested (q). Bars are solid where q &lt; 0.05; whiskers show the 95% confidence
+        interval of the mean. An effect size |g| below 0.1 is small whatever its p-value.
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,38 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useEffect } from "react"
+import { createContext, useContext, useState, useEffect, useMemo } from "react"
+import type {
+  CellColorMetric,
+  CustomTradingCalendar,
+  TradingCalendar,
+  TradingDayConfig,
+  VolatilityModel,
+} from "@/types/market"
+import { CELL_COLOR_METRICS } from "@/lib/order-flow"
+import { DEFAULT_VOLATILITY_MODEL, parseVolatilityModel, toDailyVolatility } from "@/lib/volatility"
+import { DEFAULT_TRADING_DAY, parseTradingDayConfig } from "@/lib/trading-day"
+import { ALWAYS_OPEN_CALENDAR_ID, findTradingCalendar, parseCustomTradingCalendars } from "@/lib/trading-calendar"
 
 export type ColorScheme = "default" | "high-contrast" | "colorblind-friendly" | "dark-mode" | "monochrome"
 
 interface ThemeContextType {
   colorScheme: ColorScheme
   setColorScheme: (scheme: ColorScheme) => void
+  cellColorMetric: CellColorMetric
+  setCellColorMetric: (metric: CellColorMetric) => void
+  volatilityModel: VolatilityModel
+  setVolatilityModel: (model: VolatilityModel) => void
+  tradingDay: TradingDayConfig
+  setTradingDay: (config: TradingDayConfig) => void
+  // The selected calendar, resolved from its id
+  tradingCalendar: TradingCalendar
+  tradingCalendarId: string
+  setTradingCalendarId: (id: string) => void
+  customCalendars: CustomTradingCalendar[]
+  setCustomCalendars: (calendars: CustomTradingCalendar[]) => void
   getVolatilityColor: (volatility: number) => string
+  getScaleColor: (intensity: number) => string
   getPerformanceColor: (performance: number) => string
   getVolumeColor: (volume: number) => string
   getSeverityColor: (severity?: string) => string
@@ -154,20 +178,82 @@ const COLOR_SCHEMES = {
 
 export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const [colorScheme, setColorScheme] = useState<ColorScheme>("default")
+  const [cellColorMetric, setCellColorMetric] = useState<CellColorMetric>("volatility")
+  const [volatilityModel, setVolatilityModel] = useState<VolatilityModel>(DEFAULT_VOLATILITY_MODEL)
+  const [tradingDay, setTradingDay] = useState<TradingDayConfig>(DEFAULT_TRADING_DAY)
+  const [tradingCalendarId, setTradingCalendarId] = useState(ALWAYS_OPEN_CALENDAR_ID)
+  const [customCalendars, setCustomCalendars] = useState<CustomTradingCalendar[]>([])
+  const tradingCalendar = useMemo(
+    () => findTradingCalendar(tradingCalendarId, customCalendars),
+    [tradingCalendarId, customCalendars],
+  )
 
   useEffect(() => {
     const saved = localStorage.getItem("market-explorer-color-scheme")
     if (saved && saved in COLOR_SCHEMES) {
       setColorScheme(saved as ColorScheme)
     }
+
+    const savedMetric = localStorage.getItem("market-explorer-cell-color-metric")
+    if (savedMetric && CELL_COLOR_METRICS.some((option) => option.value === savedMetric)) {
+      setCellColorMetric(savedMetric as CellColorMetric)
+    }
+
+    const savedModel = localStorage.getItem("market-explorer-volatility-model")
+    if (savedModel) {
+      try {
+        setVolatilityModel(parseVolatilityModel(JSON.parse(savedModel)))
+      } catch {}
+    }
+
+    const savedTradingDay = localStorage.getItem("market-explorer-trading-day")
+    if (savedTradingDay) {
+      try {
+        setTradingDay(parseTradingDayConfig(JSON.parse(savedTradingDay)))
+      } catch {}
+    }
+
+    const savedCalendars = localStorage.getItem("market-explorer-custom-calendars")
+    if (savedCalendars) {
+      try {
+        setCustomCalendars(parseCustomTradingCalendars(JSON.parse(savedCalendars)))
+      } catch {}
+    }
+
+    const savedCalendarId = localStorage.getItem("market-explorer-trading-calendar")
+    if (savedCalendarId) {
+      setTradingCalendarId(savedCalendarId)
+    }
   }, [])
 
   useEffect(() => {
     localStorage.setItem("market-explorer-color-scheme", colorScheme)
   }, [colorScheme])
 
-  const getVolatilityColor = (volatility: number): string => {
+  useEffect(() => {
+    localStorage.setItem("market-explorer-cell-color-metric", cellColorMetric)
+  }, [cellColorMetric])
+
+  useEffect(() => {
+    localStorage.setItem("market-explorer-volatility-model", JSON.stringify(volatilityModel))
+  }, [volatilityModel])
+
+  useEffect(() => {
+    localStorage.setItem("market-explorer-trading-day", JSON.stringify(tradingDay))
+  }, [tradingDay])
+
+  useEffect(() => {
+    localStorage.setItem("market-explorer-trading-calendar", tradingCalendarId)
+  }, [tradingCalendarId])
+
+  useEffect(() => {
+    localStorage.setItem("market-explorer-custom-calendars", JSON.stringify(customCalendars))
+  }, [customCalendars])
+
+  // Thresholds are in daily percent whatever units the model reports in
+  const getVolatilityColor = (value: number): string => {
     const scheme = COLOR_SCHEMES[colorScheme].volatility
+    const volatility = toDailyVolatility(value, volatilityModel)
     if (volatility > 4) return scheme.extreme
     if (volatility > 3) return scheme.veryHigh
     if (volatility > 2) return scheme.high
@@ -176,6 +262,17 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     return scheme.veryLow
   }
 
+  // Maps a 0-1 intensity onto the volatility scale, for metrics without fixed thresholds
+  const getScaleColor = (intensity: number): string => {
+    const scheme = COLOR_SCHEMES[colorScheme].volatility
+    if (intensity > 0.9) return scheme.extreme
+    if (intensity > 0.7) return scheme.veryHigh
+    if (intensity > 0.5) return scheme.high
+    if (intensity > 0.3) return scheme.medium
+    if (intensity > 0.1) return scheme.low
+    return scheme.veryLow
+  }
+
   const getPerformanceColor = (performance: number): string => {
     const scheme = COLOR_SCHEMES[colorScheme].performance
     if (performance > 0.5) return scheme.positive
@@ -209,7 +306,19 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
       value={{
         colorScheme,
         setColorScheme,
+        cellColorMetric,
+        setCellColorMetric,
+        volatilityModel,
+        setVolatilityModel,
+        tradingDay,
+        setTradingDay,
+        tradingCalendar,
+        tradingCalendarId,
+        setTradingCalendarId,
+        customCalendars,
+        setCustomCalendars,
         getVolatilityColor,
+        getScaleColor,
         getPerformanceColor,
         getVolumeColor,
         getSeverityColor,
@@ -0,0 +1,8 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import { binanceKlineStream, type LiveStreamState } from "@/lib/binance-stream"
+
+export function useLiveStreamState(): LiveStreamState {
+  return useSyncExternalStore(binanceKlineStream.subscribe, binanceKlineStream.getState, binanceKlineStream.getState)
+}
@@ -0,0 +1,19 @@
+"use client"
+
+import { useMemo } from "react"
+import { startOfDay } from "date-fns"
+import { useTheme } from "@/contexts/theme-context"
+import { useMarketRange } from "@/hooks/use-market-range"
+import { useEarliestMonth } from "@/hooks/use-symbol-catalog"
+
+// Every daily candle of a symbol from its exchange's launch (or a dataset's first candle) to today,
+// with the app's volatility, trading day and calendar settings. Views that load it at the same time
+// share one fetch.
+export function useMarketHistory(symbol: string) {
+  const { volatilityModel, tradingDay, tradingCalendar } = useTheme()
+  const earliestMonth = useEarliestMonth(symbol)
+  const today = startOfDay(new Date()).getTime()
+  const range = useMemo(() => ({ start: earliestMonth, end: new Date(today) }), [earliestMonth, today])
+
+  return useMarketRange({ symbol, range, volatilityModel, tradingDay, tradingCalendar })
+}
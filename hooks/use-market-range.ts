@@ -0,0 +1,198 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type {
+  DataQualityReport,
+  FetchProgress,
+  KlineInterval,
+  MarketData,
+  MarketDataSource,
+  TimeRange,
+  TradingCalendar,
+  TradingDayConfig,
+  VolatilityModel,
+} from "@/types/market"
+import { addDays, endOfDay, format, startOfDay, subDays } from "date-fns"
+import {
+  getEarliestAvailableDate,
+  isAbortError,
+  loadMarketDataWithRejections,
+  resolveMarketSymbol,
+} from "@/lib/data-sources"
+import { buildDataQualityReport } from "@/lib/data-quality"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+import { DEFAULT_VOLATILITY_MODEL } from "@/lib/volatility"
+import { DEFAULT_TRADING_DAY, getTradingDayStart, shiftDateLabel } from "@/lib/trading-day"
+import { ALWAYS_OPEN_CALENDAR } from "@/lib/trading-calendar"
+
+interface UseMarketRangeProps {
+  // Bare for Binance, or qualified with the exchange, e.g. "kraken:XBTUSD"
+  symbol: string
+  // Nothing is fetched while the range is null
+  range: TimeRange | null
+  interval?: KlineInterval
+  // Overrides the exchange named by the symbol
+  source?: MarketDataSource
+  volatilityModel?: VolatilityModel
+  tradingDay?: TradingDayConfig
+  // Days it has the market closed don't count as missing candles
+  tradingCalendar?: TradingCalendar
+}
+
+interface UseMarketRangeReturn {
+  data: MarketData[]
+  quality: DataQualityReport | null
+  loading: boolean
+  error: string | null
+  progress: FetchProgress | null
+  refetch: () => void
+}
+
+// Candles are labelled with their trading date, which can fall a day either side of the UTC open time
+const DATE_LABEL_PADDING_DAYS = 1
+
+// Rolling metrics need history before the first candle shown: the volatility window,
+// plus one candle for returns, Yang-Zhang gaps and the Corwin-Schultz spread
+const warmUpMs = (model: VolatilityModel, interval: KlineInterval) => (model.window + 1) * KLINE_INTERVAL_MS[interval]
+
+const formatRange = (range: TimeRange) => `${format(range.start, "MMM d, yyyy")} - ${format(range.end, "MMM d, yyyy")}`
+
+// Loads the candles of any date range, independent of the calendar month. The range is inclusive
+// of whole days, and rolling metrics on the first candles are computed from padded history.
+export function useMarketRange({
+  symbol: marketSymbol,
+  range,
+  interval = "1d",
+  source: sourceOverride,
+  volatilityModel = DEFAULT_VOLATILITY_MODEL,
+  tradingDay = DEFAULT_TRADING_DAY,
+  tradingCalendar = ALWAYS_OPEN_CALENDAR,
+}: UseMarketRangeProps): UseMarketRangeReturn {
+  const { source, symbol } = resolveMarketSymbol(marketSymbol, sourceOverride)
+  const [data, setData] = useState<MarketData[]>([])
+  const [quality, setQuality] = useState<DataQualityReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<FetchProgress | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const requestIdRef = useRef(0)
+
+  // Callers tend to build a new TimeRange every render, so depend on the timestamps
+  const rangeStart = range?.start.getTime() ?? null
+  const rangeEnd = range?.end.getTime() ?? null
+
+  const fetchData = useCallback(async () => {
+    abortControllerRef.current?.abort()
+    const requestId = ++requestIdRef.current
+    const isCurrent = () => requestId === requestIdRef.current
+
+    if (rangeStart === null || rangeEnd === null) {
+      setData([])
+      setQuality(null)
+      setError(null)
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    setLoading(true)
+    setError(null)
+    setProgress(null)
+
+    const selection = { start: new Date(rangeStart), end: new Date(rangeEnd) }
+
+    try {
+      if (rangeStart > rangeEnd) {
+        throw new Error("Start date must be before end date")
+      }
+
+      // Launch date, or for sources keeping only recent candles, the oldest one still served
+      const earliestDate = getEarliestAvailableDate(source, symbol, interval, tradingDay)
+      const now = Date.now()
+
+      if (selection.end < earliestDate) {
+        setData([])
+        setQuality(null)
+        setError(`${source.name} has no data before ${format(earliestDate, "MMMM d, yyyy")}`)
+        return
+      }
+
+      const paddedStart = subDays(startOfDay(selection.start), DATE_LABEL_PADDING_DAYS).getTime()
+      const startTime = Math.max(paddedStart - warmUpMs(volatilityModel, interval), earliestDate.getTime())
+      const endTime = Math.min(addDays(endOfDay(selection.end), DATE_LABEL_PADDING_DAYS).getTime(), now)
+
+      if (startTime >= endTime) {
+        setData([])
+        setQuality(null)
+        return
+      }
+
+      const {
+        data: loaded,
+        rejected,
+        sourceCandles,
+        sourceInterval,
+      } = await loadMarketDataWithRejections(
+        source,
+        {
+          symbol,
+          interval,
+          startTime,
+          endTime,
+          onProgress: (update) => isCurrent() && setProgress(update),
+          signal: controller.signal,
+        },
+        volatilityModel,
+        tradingDay,
+      )
+
+      if (!isCurrent()) return
+
+      const firstDate = format(selection.start, "yyyy-MM-dd")
+      const lastDate = format(selection.end, "yyyy-MM-dd")
+      const inRange = loaded.filter((item) => item.date >= firstDate && item.date <= lastDate)
+
+      if (inRange.length === 0) {
+        setError(`No trading data available for ${symbol} in ${formatRange(selection)}.`)
+      }
+      setData(inRange)
+      setQuality(
+        buildDataQualityReport({
+          data: sourceCandles,
+          rejected,
+          interval: sourceInterval,
+          startTime: getTradingDayStart(firstDate, tradingDay),
+          endTime: getTradingDayStart(shiftDateLabel(lastDate, 1), tradingDay) - 1,
+          calendar: tradingCalendar,
+          tradingDay,
+        }),
+      )
+    } catch (err) {
+      if (isAbortError(err) || !isCurrent()) return
+
+      const errorMessage = err instanceof Error ? err.message : `Failed to fetch market data from ${source.name}`
+      console.error("Market range fetch error:", errorMessage)
+      setError(errorMessage)
+      setData([])
+      setQuality(null)
+    } finally {
+      if (isCurrent()) {
+        setLoading(false)
+        setProgress(null)
+      }
+    }
+  }, [symbol, rangeStart, rangeEnd, interval, source, volatilityModel, tradingDay, tradingCalendar])
+
+  useEffect(() => {
+    fetchData()
+    return () => abortControllerRef.current?.abort()
+  }, [fetchData])
+
+  const refetch = useCallback(() => {
+    fetchData()
+  }, [fetchData])
+
+  return { data, quality, loading, error, progress, refetch }
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { MarketDataSource } from "@/types/market"
+import { isAbortError, resolveMarketSymbol } from "@/lib/data-sources"
+import { summarizeOrderBook, type DepthSummary } from "@/lib/liquidity"
+
+interface UseOrderBookReturn {
+  depth: DepthSummary | null
+  fetchedAt: number | null
+  loading: boolean
+  error: string | null
+  supported: boolean
+  load: () => void
+}
+
+// The order book is a live snapshot that costs request weight, so it is only fetched on demand
+export function useOrderBook(marketSymbol: string, sourceOverride?: MarketDataSource): UseOrderBookReturn {
+  const { source, symbol } = resolveMarketSymbol(marketSymbol, sourceOverride)
+  const [depth, setDepth] = useState<DepthSummary | null>(null)
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // A snapshot for the previous symbol would be misleading
+  useEffect(() => {
+    setDepth(null)
+    setFetchedAt(null)
+    setError(null)
+    return () => controllerRef.current?.abort()
+  }, [symbol, source])
+
+  const load = useCallback(() => {
+    if (!source.getOrderBook) return
+
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setLoading(true)
+    setError(null)
+
+    source
+      .getOrderBook(symbol, controller.signal)
+      .then((book) => {
+        setDepth(summarizeOrderBook(book))
+        setFetchedAt(book.fetchedAt)
+      })
+      .catch((err) => {
+        if (isAbortError(err) || controller.signal.aborted) return
+        console.error("Error loading order book:", err)
+        setError(err instanceof Error ? err.message : "Failed to load order book")
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) setLoading(false)
+      })
+  }, [symbol, source])
+
+  return { depth, fetchedAt, loading, error, supported: !!source.getOrderBook, load }
+}
@@ -0,0 +1,8 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import { binanceRateLimiter, type RateLimitState } from "@/lib/binance-api"
+
+export function useRateLimitState(): RateLimitState {
+  return useSyncExternalStore(binanceRateLimiter.subscribe, binanceRateLimiter.getState, binanceRateLimiter.getState)
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from "react"
+import type { MarketDataSource, SymbolInfo } from "@/types/market"
+import { getDataSource, getEarliestAvailableDate, resolveMarketSymbol } from "@/lib/data-sources"
+import { favoriteSymbols, loadListingDate, loadSymbolCatalog } from "@/lib/symbol-catalog"
+import { DATASET_SOURCE_ID, datasetStore } from "@/lib/datasets"
+import { syntheticMarketStore } from "@/lib/synthetic"
+import { parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { startOfMonth } from "date-fns"
+import { useTheme } from "@/contexts/theme-context"
+
+interface UseSymbolCatalogReturn {
+  symbols: SymbolInfo[]
+  loading: boolean
+  error: string | null
+  refresh: () => void
+}
+
+export function useSymbolCatalog(source: MarketDataSource = getDataSource()): UseSymbolCatalogReturn {
+  const [symbols, setSymbols] = useState<SymbolInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadToken, setReloadToken] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    setLoading(true)
+    setError(null)
+
+    loadSymbolCatalog(source, { force: reloadToken > 0 })
+      .then((catalog) => {
+        if (!cancelled) setSymbols(catalog)
+      })
+      .catch((err) => {
+        console.error("Error loading symbol catalog:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load trading pairs")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source, reloadToken])
+
+  useEffect(() => source.subscribeSymbols?.(() => setReloadToken((token) => token + 1)), [source])
+
+  const refresh = useCallback(() => setReloadToken((token) => token + 1), [])
+
+  return { symbols, loading, error, refresh }
+}
+
+export function useFavoriteSymbols() {
+  const favorites = useSyncExternalStore(
+    favoriteSymbols.subscribe,
+    favoriteSymbols.getSnapshot,
+    favoriteSymbols.getServerSnapshot,
+  )
+  const toggleFavorite = useCallback((symbol: string) => favoriteSymbols.toggle(symbol), [])
+
+  return { favorites, toggleFavorite }
+}
+
+export function useListingDate(marketSymbol: string, sourceOverride?: MarketDataSource): Date | null {
+  const { source, symbol } = resolveMarketSymbol(marketSymbol, sourceOverride)
+  const [listingDate, setListingDate] = useState<Date | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setListingDate(null)
+
+    loadListingDate(source, symbol)
+      .then((date) => {
+        if (!cancelled) setListingDate(date)
+      })
+      .catch((err) => console.warn(`Could not determine listing date for ${symbol}:`, err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [source, symbol])
+
+  return listingDate
+}
+
+export function useDatasets() {
+  return useSyncExternalStore(datasetStore.subscribe, datasetStore.getSnapshot, datasetStore.getServerSnapshot)
+}
+
+export function useSyntheticMarkets() {
+  return useSyncExternalStore(
+    syntheticMarketStore.subscribe,
+    syntheticMarketStore.getSnapshot,
+    syntheticMarketStore.getServerSnapshot,
+  )
+}
+
+// The first month to offer for a symbol: its exchange's launch (Binance: July 2017), the oldest daily
+// candle of an exchange keeping only recent ones (Kraken), or an imported dataset's first candle
+export function useEarliestMonth(marketSymbol: string): Date {
+  const datasets = useDatasets()
+  const { tradingDay } = useTheme()
+
+  return useMemo(() => {
+    const { exchange, symbol } = parseExchangeSymbol(marketSymbol)
+    const dataset = exchange === DATASET_SOURCE_ID ? datasets.find((item) => item.id === symbol) : undefined
+    return startOfMonth(
+      dataset
+        ? new Date(dataset.firstOpenTime)
+        : getEarliestAvailableDate(getDataSource(exchange), symbol, "1d", tradingDay),
+    )
+  }, [marketSymbol, datasets, tradingDay])
+}
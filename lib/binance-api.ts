@@ -5,70 +5,282 @@ export const BINANCE_ENDPOINTS = {
   TICKER_24HR: "/api/v3/ticker/24hr",
   EXCHANGE_INFO: "/api/v3/exchangeInfo",
   TICKER_PRICE: "/api/v3/ticker/price",
+  DEPTH: "/api/v3/depth",
 } as const
 
-export const BINANCE_BASE_URL = "https://api.binance.com"
+// Same-origin routes (app/api) that proxy and cache the Binance endpoints the app reads most
+export const PROXY_ENDPOINTS = {
+  KLINES: "/api/klines",
+  SYMBOLS: "/api/symbols",
+} as const
+
+// The proxy's weight used across all its clients, kept apart from X-MBX-USED-WEIGHT-1M so the
+// browser's own limiter doesn't count other clients' requests as its own
+export const PROXY_USED_WEIGHT_HEADER = "X-Proxy-Used-Weight-1M"
+
+export const BINANCE_DEFAULT_BASE_URL = "https://api.binance.com"
+
+// Point at a local mock server (see scripts/mock-binance) to run the app against recorded fixtures
+export const BINANCE_BASE_URL = process.env.NEXT_PUBLIC_BINANCE_BASE_URL || BINANCE_DEFAULT_BASE_URL
+
+export const isUsingMockBinance = BINANCE_BASE_URL !== BINANCE_DEFAULT_BASE_URL
+
+// The browser goes through the API routes unless they are switched off, e.g. for a static export
+export const USE_MARKET_DATA_PROXY = process.env.NEXT_PUBLIC_MARKET_DATA_PROXY !== "false"
+
+// The fields of an exchangeInfo symbol entry the symbol catalog reads
+export interface BinanceSymbolEntry {
+  symbol: string
+  baseAsset: string
+  quoteAsset: string
+  status: string
+}
+
+export function isBinanceSymbolEntry(value: unknown): value is BinanceSymbolEntry {
+  if (typeof value !== "object" || value === null) return false
+  const { symbol, baseAsset, quoteAsset, status } = value as Record<string, unknown>
+  return (
+    typeof symbol === "string" &&
+    typeof baseAsset === "string" &&
+    typeof quoteAsset === "string" &&
+    typeof status === "string"
+  )
+}
+
+// Request weights as documented by Binance for the endpoints we call
+export function getRequestWeight(endpoint: string, params: Record<string, string | number> = {}): number {
+  switch (endpoint) {
+    // Proxied requests are budgeted as if they reached Binance, since a cache miss does
+    case BINANCE_ENDPOINTS.KLINES:
+    case PROXY_ENDPOINTS.KLINES:
+      return 2
+    case BINANCE_ENDPOINTS.EXCHANGE_INFO:
+    case PROXY_ENDPOINTS.SYMBOLS:
+      return 20
+    case BINANCE_ENDPOINTS.TICKER_24HR:
+      return params.symbol ? 2 : 80
+    case BINANCE_ENDPOINTS.TICKER_PRICE:
+      return params.symbol ? 2 : 4
+    case BINANCE_ENDPOINTS.DEPTH: {
+      const limit = Number(params.limit ?? 100)
+      if (limit <= 100) return 5
+      if (limit <= 500) return 25
+      if (limit <= 1000) return 50
+      return 250
+    }
+    default:
+      return 1
+  }
+}
+
+export interface RateLimitState {
+  usedWeight: number
+  weightLimit: number
+  queued: number
+  // Epoch ms until which requests are held back after a 429/418, or null when not throttled
+  retryAt: number | null
+  retryAttempt: number
+}
+
+const WEIGHT_WINDOW_MS = 60000
+const BASE_BACKOFF_MS = 1000
+const MAX_RETRIES = 5
+// Don't sit on a request for longer than this; an IP ban (418) can last hours
+const MAX_RETRY_WAIT_MS = 5 * 60 * 1000
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort)
+      resolve()
+    }, ms)
+    const handleAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true })
+  })
 
-class RateLimiter {
-  private requests: number[] = []
-  private readonly maxRequests: number
-  private readonly timeWindow: number
+export class RateLimiter {
+  private usedWeight = 0
+  private windowStart = 0
+  private retryAt: number | null = null
+  private retryAttempt = 0
+  private queued = 0
+  private queue: Promise<void> = Promise.resolve()
+  private listeners = new Set<() => void>()
+  private state: RateLimitState
+  private readonly weightLimit: number
+  private readonly safetyMargin: number
 
-  constructor(maxRequests = 1200, timeWindow = 60000) {
-    this.maxRequests = maxRequests
-    this.timeWindow = timeWindow
+  constructor(weightLimit = 6000, safetyMargin = 0.9) {
+    this.weightLimit = weightLimit
+    this.safetyMargin = safetyMargin
+    this.state = this.snapshot()
   }
 
-  async waitIfNeeded(): Promise<void> {
-    const now = Date.now()
+  // Requests are admitted strictly in arrival order, each waiting for weight budget
+  acquire(weight: number, signal?: AbortSignal): Promise<void> {
+    this.queued++
+    this.notify()
+
+    const turn = this.queue.then(() => this.waitForCapacity(weight, signal))
+    this.queue = turn.catch(() => {})
+
+    return turn.finally(() => {
+      this.queued--
+      this.notify()
+    })
+  }
 
-    this.requests = this.requests.filter((time) => now - time < this.timeWindow)
+  // Binance reports the authoritative weight used in the current minute on every response
+  recordUsedWeight(header: string | null): void {
+    const usedWeight = header ? Number.parseInt(header, 10) : NaN
+    if (isNaN(usedWeight)) return
 
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = Math.min(...this.requests)
-      const waitTime = this.timeWindow - (now - oldestRequest) + 100 // Add 100ms buffer
+    this.rollWindow(Date.now())
+    this.usedWeight = usedWeight
+    this.notify()
+  }
+
+  // Schedules a retry after a 429/418, honouring Retry-After and adding exponential backoff with jitter
+  backOff(retryAfterSeconds: number | null, attempt: number): number {
+    const exponential = BASE_BACKOFF_MS * Math.pow(2, attempt)
+    const jitter = Math.random() * exponential * 0.5
+    const delay = Math.max((retryAfterSeconds ?? 0) * 1000, exponential + jitter)
+
+    this.retryAt = Date.now() + delay
+    this.retryAttempt = attempt + 1
+    this.notify()
+
+    return delay
+  }
+
+  clearBackoff(): void {
+    if (this.retryAt === null && this.retryAttempt === 0) return
+    this.retryAt = null
+    this.retryAttempt = 0
+    this.notify()
+  }
 
-      if (waitTime > 0) {
-        console.log(`Rate limit reached, waiting ${waitTime}ms`)
-        await new Promise((resolve) => setTimeout(resolve, waitTime))
+  getState = (): RateLimitState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async waitForCapacity(weight: number, signal?: AbortSignal): Promise<void> {
+    while (true) {
+      signal?.throwIfAborted()
+      const now = Date.now()
+
+      if (this.retryAt !== null && now < this.retryAt) {
+        await sleep(this.retryAt - now, signal)
+        continue
+      }
+
+      this.rollWindow(now)
+      if (this.usedWeight + weight <= this.weightLimit * this.safetyMargin) {
+        this.usedWeight += weight
+        this.notify()
+        return
       }
+
+      const waitTime = this.windowStart + WEIGHT_WINDOW_MS - now + 100 // Add 100ms buffer
+      console.log(`Rate limit weight budget reached, waiting ${waitTime}ms`)
+      await sleep(waitTime, signal)
     }
+  }
+
+  private rollWindow(now: number): void {
+    const windowStart = Math.floor(now / WEIGHT_WINDOW_MS) * WEIGHT_WINDOW_MS
+    if (windowStart !== this.windowStart) {
+      this.windowStart = windowStart
+      this.usedWeight = 0
+    }
+  }
+
+  private snapshot(): RateLimitState {
+    return {
+      usedWeight: this.usedWeight,
+      weightLimit: this.weightLimit,
+      queued: this.queued,
+      retryAt: this.retryAt,
+      retryAttempt: this.retryAttempt,
+    }
+  }
 
-    this.requests.push(now)
+  private notify(): void {
+    this.state = this.snapshot()
+    this.listeners.forEach((listener) => listener())
   }
 }
 
-const rateLimiter = new RateLimiter()
+export const binanceRateLimiter = new RateLimiter()
 
-export async function fetchBinanceAPI(endpoint: string, params: Record<string, string | number> = {}): Promise<any> {
-  await rateLimiter.waitIfNeeded()
+interface FetchBinanceOptions {
+  signal?: AbortSignal
+  baseUrl?: string
+}
 
-  const url = new URL(BINANCE_BASE_URL + endpoint)
+export async function fetchBinanceAPI(
+  endpoint: string,
+  params: Record<string, string | number> = {},
+  { signal, baseUrl = BINANCE_BASE_URL }: FetchBinanceOptions = {},
+): Promise<any> {
+  // An empty base URL addresses this app's own API routes
+  const base = baseUrl.replace(/\/+$/, "")
+  const url = new URL(base + endpoint, base ? undefined : window.location.origin)
   Object.entries(params).forEach(([key, value]) => {
     url.searchParams.append(key, value.toString())
   })
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Accept: "application/json",
-    },
-  })
+  const weight = getRequestWeight(endpoint, params)
+
+  for (let attempt = 0; ; attempt++) {
+    await binanceRateLimiter.acquire(weight, signal)
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        Accept: "application/json",
+      },
+      signal,
+    })
 
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`
+    binanceRateLimiter.recordUsedWeight(response.headers.get("X-MBX-USED-WEIGHT-1M"))
 
-    try {
-      const errorData = await response.json()
-      if (errorData.msg) {
-        errorMessage = errorData.msg
+    if (response.status === 429 || response.status === 418) {
+      const retryAfterHeader = response.headers.get("Retry-After")
+      const retryAfter = retryAfterHeader ? Number.parseInt(retryAfterHeader, 10) : null
+      const validRetryAfter = retryAfter !== null && !isNaN(retryAfter) ? retryAfter : null
+
+      if (attempt < MAX_RETRIES && (validRetryAfter ?? 0) * 1000 <= MAX_RETRY_WAIT_MS) {
+        const delay = binanceRateLimiter.backOff(validRetryAfter, attempt)
+        console.warn(`Binance rate limit hit (HTTP ${response.status}), retrying in ${Math.ceil(delay / 1000)}s`)
+        continue
       }
-    } catch {
     }
 
-    throw new Error(errorMessage)
-  }
+    binanceRateLimiter.clearBackoff()
+
+    if (!response.ok) {
+      let errorMessage = `Binance API error: ${response.status} ${response.statusText}`
 
-  return response.json()
+      try {
+        const errorData = await response.json()
+        if (errorData.msg) {
+          errorMessage = `Binance API: ${errorData.msg}`
+        }
+      } catch {}
+
+      throw new Error(errorMessage)
+    }
+
+    return response.json()
+  }
 }
 
 export function validateTradingSymbol(symbol: string): boolean {
@@ -76,23 +288,6 @@ export function validateTradingSymbol(symbol: string): boolean {
   return symbolRegex.test(symbol)
 }
 
-export async function getAvailableTradingPairs(): Promise<string[]> {
-  try {
-    const exchangeInfo = await fetchBinanceAPI(BINANCE_ENDPOINTS.EXCHANGE_INFO)
-
-    return exchangeInfo.symbols
-      .filter(
-        (symbol: any) =>
-          symbol.status === "TRADING" && (symbol.symbol.endsWith("USDT") || symbol.symbol.endsWith("USDC")),
-      )
-      .map((symbol: any) => symbol.symbol)
-      .sort()
-  } catch (error) {
-    console.error("Error fetching trading pairs:", error)
-    return []
-  }
-}
-
 export function formatVolume(volume: number): string {
   if (volume >= 1e9) {
     return `${(volume / 1e9).toFixed(2)}B`
@@ -0,0 +1,170 @@
+import type { KlineInterval, MarketData } from "@/types/market"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+
+export const BINANCE_STREAM_DEFAULT_URL = "wss://stream.binance.com:9443"
+
+// Point at a local stub (the mock server serves one, see scripts/mock-binance) to stream without the exchange
+export const BINANCE_STREAM_URL = process.env.NEXT_PUBLIC_BINANCE_STREAM_URL || BINANCE_STREAM_DEFAULT_URL
+
+export type LiveStreamStatus = "idle" | "connecting" | "live" | "reconnecting"
+
+export interface LiveStreamState {
+  status: LiveStreamStatus
+  // Stream names currently subscribed, e.g. "btcusdt@kline_1d"
+  streams: string[]
+  lastMessageAt: number | null
+}
+
+type KlineListener = (candle: MarketData, closed: boolean) => void
+
+const BASE_RECONNECT_MS = 1000
+const MAX_RECONNECT_MS = 30 * 1000
+
+export const klineStreamName = (symbol: string, interval: KlineInterval) => `${symbol.toLowerCase()}@kline_${interval}`
+
+const isNumeric = (value: unknown): value is number | string => typeof value === "number" || typeof value === "string"
+
+const optionalNumeric = (value: unknown): number | string | undefined => (isNumeric(value) ? value : undefined)
+
+// Converts the `k` object of a kline stream event. The stream carries the same fields as a
+// /klines row under single-letter keys.
+export function parseKlineStreamEvent(event: unknown): { stream: string; candle: MarketData; closed: boolean } | null {
+  if (typeof event !== "object" || event === null) return null
+  const { stream, data } = event as Record<string, unknown>
+  if (typeof stream !== "string" || typeof data !== "object" || data === null) return null
+  const kline = (data as Record<string, unknown>).k
+  if (typeof kline !== "object" || kline === null) return null
+
+  const { t, o, h, l, c, v, q, n, V, Q, x } = kline as Record<string, unknown>
+  if (!isNumeric(t) || !isNumeric(o) || !isNumeric(h) || !isNumeric(l) || !isNumeric(c) || !isNumeric(v)) return null
+
+  const candle = normalizeCandle(
+    {
+      openTime: t,
+      open: o,
+      high: h,
+      low: l,
+      close: c,
+      volume: v,
+      quoteAssetVolume: optionalNumeric(q),
+      numberOfTrades: optionalNumeric(n),
+      takerBuyBaseAssetVolume: optionalNumeric(V),
+      takerBuyQuoteAssetVolume: optionalNumeric(Q),
+    },
+    0,
+  )
+
+  return candle ? { stream, candle, closed: x === true } : null
+}
+
+// One combined-stream connection for every kline stream the app watches. It reconnects with
+// exponential backoff whenever the exchange drops it (Binance closes every connection after 24h).
+export class KlineStream {
+  private listeners = new Map<string, Set<KlineListener>>()
+  private socket: WebSocket | null = null
+  private reconnectTimer: number | null = null
+  private reconnectAttempt = 0
+  private stateListeners = new Set<() => void>()
+  private state: LiveStreamState = { status: "idle", streams: [], lastMessageAt: null }
+  private readonly baseUrl: string
+
+  constructor(baseUrl = BINANCE_STREAM_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "")
+  }
+
+  watch(symbol: string, interval: KlineInterval, listener: KlineListener): () => void {
+    const stream = klineStreamName(symbol, interval)
+    const streamListeners = this.listeners.get(stream) ?? new Set()
+    const isNewStream = streamListeners.size === 0
+    streamListeners.add(listener)
+    this.listeners.set(stream, streamListeners)
+    if (isNewStream) this.reconnect()
+
+    return () => {
+      streamListeners.delete(listener)
+      if (streamListeners.size === 0) {
+        this.listeners.delete(stream)
+        this.reconnect()
+      }
+    }
+  }
+
+  getState = (): LiveStreamState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
+  // The combined stream URL lists every stream, so a change of subscriptions means a new connection
+  private reconnect(): void {
+    this.closeSocket()
+    this.reconnectAttempt = 0
+
+    if (this.listeners.size === 0) {
+      this.setState({ status: "idle", streams: [], lastMessageAt: null })
+      return
+    }
+    this.open()
+  }
+
+  private open(): void {
+    const streams = [...this.listeners.keys()]
+    this.setState({ ...this.state, status: this.reconnectAttempt > 0 ? "reconnecting" : "connecting", streams })
+
+    const socket = new WebSocket(`${this.baseUrl}/stream?streams=${streams.join("/")}`)
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0
+      this.setState({ ...this.state, status: "live" })
+    }
+
+    socket.onmessage = (message) => {
+      let update: ReturnType<typeof parseKlineStreamEvent> = null
+      try {
+        update = parseKlineStreamEvent(JSON.parse(message.data))
+      } catch (error) {
+        console.warn("Ignoring malformed kline stream message:", error)
+      }
+      if (!update) return
+
+      this.setState({ ...this.state, lastMessageAt: Date.now() })
+      this.listeners.get(update.stream)?.forEach((listener) => listener(update.candle, update.closed))
+    }
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+
+      const delay = Math.min(MAX_RECONNECT_MS, BASE_RECONNECT_MS * Math.pow(2, this.reconnectAttempt))
+      this.reconnectAttempt++
+      console.warn(`Kline stream closed, reconnecting in ${Math.ceil(delay / 1000)}s`)
+      this.setState({ ...this.state, status: "reconnecting" })
+      this.reconnectTimer = window.setTimeout(() => {
+        this.reconnectTimer = null
+        this.open()
+      }, delay)
+    }
+  }
+
+  private closeSocket(): void {
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+  }
+
+  private setState(state: LiveStreamState): void {
+    this.state = state
+    this.stateListeners.forEach((listener) => listener())
+  }
+}
+
+export const binanceKlineStream = new KlineStream()
@@ -0,0 +1,165 @@
+import { format } from "date-fns"
+import type {
+  CandleRejectionReason,
+  DataGap,
+  DataQualityReport,
+  KlineInterval,
+  MarketData,
+  RejectedCandle,
+  TradingCalendar,
+  TradingDayConfig,
+} from "@/types/market"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+import { DEFAULT_TRADING_DAY, formatZonedTime, getTradingDate, parseTradingDate } from "@/lib/trading-day"
+import { ALWAYS_OPEN_CALENDAR, isTradingDate } from "@/lib/trading-calendar"
+
+export type DataQualityIssueKind = "rejected" | "missing" | "zero-volume"
+
+export interface DataQualityIssue {
+  kind: DataQualityIssueKind
+  openTime: number
+  description: string
+}
+
+export const REJECTION_REASON_LABELS: Record<CandleRejectionReason, string> = {
+  malformed: "Malformed row",
+  "non-numeric": "Non-numeric values",
+  "non-positive-price": "Zero or negative price",
+  "negative-volume": "Negative volume",
+  "inconsistent-range": "High/low outside open/close",
+  "invalid-timestamp": "Invalid open time",
+  "before-launch": "Before exchange launch",
+}
+
+interface BuildDataQualityReportParams {
+  data: MarketData[]
+  rejected: RejectedCandle[]
+  interval: KlineInterval
+  // The period being analyzed; data outside it (e.g. warm-up history) only helps locate gaps
+  startTime: number
+  endTime: number
+  // Open times on days the market is closed aren't expected to have a candle
+  calendar?: TradingCalendar
+  tradingDay?: TradingDayConfig
+}
+
+export function buildDataQualityReport({
+  data,
+  rejected,
+  interval,
+  startTime,
+  endTime,
+  calendar = ALWAYS_OPEN_CALENDAR,
+  tradingDay = DEFAULT_TRADING_DAY,
+}: BuildDataQualityReportParams): DataQualityReport {
+  const intervalMs = KLINE_INTERVAL_MS[interval]
+  const inPeriod = (openTime: number) => openTime >= startTime && openTime <= endTime
+
+  const received = data.filter((item) => inPeriod(item.openTime))
+  const rejectedInPeriod = rejected.filter((row) => row.openTime === null || inPeriod(row.openTime))
+  const rejectedTimes = new Set(rejectedInPeriod.map((row) => row.openTime))
+  const candleTimes = new Set(data.map((item) => item.openTime))
+
+  // Only gaps between candles count: before the first one the pair wasn't listed yet,
+  // and after the last one the period hasn't printed
+  const knownTimes = [...candleTimes, ...rejected.flatMap((row) => (row.openTime !== null ? [row.openTime] : []))]
+  // A loop rather than spreading into Math.min/max, which overflows the stack on long hourly histories
+  const knownBounds = knownTimes.reduce<{ first: number; last: number } | null>(
+    (bounds, openTime) =>
+      bounds
+        ? { first: Math.min(bounds.first, openTime), last: Math.max(bounds.last, openTime) }
+        : { first: openTime, last: openTime },
+    null,
+  )
+
+  const missing: number[] = []
+  const closed: number[] = []
+  let expectedCandles = 0
+  if (knownBounds) {
+    const coverageStart = Math.max(Math.ceil(startTime / intervalMs) * intervalMs, knownBounds.first)
+    const coverageEnd = Math.min(endTime, knownBounds.last)
+    for (let openTime = coverageStart; openTime <= coverageEnd; openTime += intervalMs) {
+      const received = candleTimes.has(openTime) || rejectedTimes.has(openTime)
+      if (!received && !isTradingDate(calendar, getTradingDate(openTime, tradingDay))) {
+        closed.push(openTime)
+        continue
+      }
+      expectedCandles++
+      if (!received) missing.push(openTime)
+    }
+  }
+
+  return {
+    interval,
+    expectedCandles,
+    receivedCandles: received.length,
+    rejected: rejectedInPeriod,
+    missing,
+    closed,
+    outages: toGaps(missing, intervalMs),
+    zeroVolume: received.filter((item) => item.volume === 0).map((item) => item.openTime),
+  }
+}
+
+const toGaps = (openTimes: number[], intervalMs: number): DataGap[] =>
+  openTimes.reduce<DataGap[]>((gaps, openTime) => {
+    const last = gaps[gaps.length - 1]
+    if (last && openTime - last.end === intervalMs) {
+      last.end = openTime
+      last.candles++
+    } else {
+      gaps.push({ start: openTime, end: openTime, candles: 1 })
+    }
+    return gaps
+  }, [])
+
+export const countDataQualityIssues = (report: DataQualityReport): number =>
+  report.rejected.length + report.missing.length + report.zeroVolume.length
+
+// Groups issues by the trading date their candle falls on
+export function getDataQualityIssuesByDate(
+  report: DataQualityReport,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): Map<string, DataQualityIssue[]> {
+  const issues: DataQualityIssue[] = [
+    ...report.rejected.flatMap((row) =>
+      row.openTime !== null
+        ? [{ kind: "rejected" as const, openTime: row.openTime, description: REJECTION_REASON_LABELS[row.reason] }]
+        : [],
+    ),
+    ...report.missing.map((openTime) => ({
+      kind: "missing" as const,
+      openTime,
+      description: "No candle from the exchange",
+    })),
+    ...report.zeroVolume.map((openTime) => ({ kind: "zero-volume" as const, openTime, description: "Zero volume" })),
+  ]
+
+  const byDate = new Map<string, DataQualityIssue[]>()
+  issues.forEach((issue) => {
+    const date = getTradingDate(issue.openTime, tradingDay)
+    byDate.set(date, [...(byDate.get(date) ?? []), issue])
+  })
+  return byDate
+}
+
+// Daily candles are shown by trading date, intraday ones by wall-clock time in the trading day's zone
+export function formatCandleTime(
+  openTime: number,
+  interval: KlineInterval,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): string {
+  return interval === "1d"
+    ? format(parseTradingDate(getTradingDate(openTime, tradingDay)), "MMM d, yyyy")
+    : formatZonedTime(openTime, tradingDay.timeZone)
+}
+
+export function formatDataGap(
+  gap: DataGap,
+  interval: KlineInterval,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): string {
+  const start = formatCandleTime(gap.start, interval, tradingDay)
+  if (gap.candles === 1) return start
+  return `${start} – ${formatCandleTime(gap.end, interval, tradingDay)}`
+}
@@ -0,0 +1,228 @@
+import type {
+  FetchKlinesParams,
+  KlineInterval,
+  MarketData,
+  MarketDataSource,
+  OrderBookSnapshot,
+  RejectedCandle,
+  SymbolInfo,
+} from "@/types/market"
+import {
+  BINANCE_BASE_URL,
+  BINANCE_DEFAULT_BASE_URL,
+  BINANCE_ENDPOINTS,
+  fetchBinanceAPI,
+  isBinanceSymbolEntry,
+  PROXY_ENDPOINTS,
+  USE_MARKET_DATA_PROXY,
+} from "@/lib/binance-api"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { binanceKlineStream } from "@/lib/binance-stream"
+import { fetchPaginated } from "@/lib/data-sources/paginate"
+
+export const BINANCE_LAUNCH_DATE = new Date(2017, 6, 1)
+
+const BINANCE_KLINE_LIMIT = 1000
+// Enough levels to cover a few percent either side of the mid on major pairs, at the lowest depth weight
+const BINANCE_DEPTH_LIMIT = 100
+
+// Converts one row of the /klines array payload. Rows are
+// [openTime, open, high, low, close, volume, closeTime, quoteAssetVolume, trades, takerBase, takerQuote, ignore]
+export function parseBinanceKline(
+  kline: unknown,
+  index: number,
+  onReject?: (rejection: RejectedCandle) => void,
+): MarketData | null {
+  if (!Array.isArray(kline) || kline.length < 11) {
+    console.warn(`Invalid kline data structure at index ${index}:`, kline)
+    const openTime = Array.isArray(kline) ? Number(kline[0]) : NaN
+    onReject?.({
+      openTime: openTime > 0 ? openTime : null,
+      reason: "malformed",
+      detail: "Invalid kline data structure",
+    })
+    return null
+  }
+
+  const [
+    openTime,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    ,
+    quoteAssetVolume,
+    numberOfTrades,
+    takerBuyBaseAssetVolume,
+    takerBuyQuoteAssetVolume,
+  ] = kline
+
+  return normalizeCandle(
+    {
+      openTime,
+      open,
+      high,
+      low,
+      close,
+      volume,
+      quoteAssetVolume,
+      numberOfTrades,
+      takerBuyBaseAssetVolume,
+      takerBuyQuoteAssetVolume,
+    },
+    index,
+    BINANCE_LAUNCH_DATE,
+    onReject,
+  )
+}
+
+export interface BinanceDataSourceOptions {
+  baseUrl?: string
+  // Read klines and symbols through this app's caching API routes instead of calling Binance directly
+  useProxy?: boolean
+}
+
+export class BinanceDataSource implements MarketDataSource {
+  readonly id: string
+  readonly name: string
+  readonly capabilities = {
+    intervals: ["15m", "1h", "4h", "1d"] as KlineInterval[],
+    maxKlinesPerRequest: BINANCE_KLINE_LIMIT,
+    earliestDate: BINANCE_LAUNCH_DATE,
+  }
+  private readonly baseUrl: string
+  private readonly useProxy: boolean
+
+  // The proxy reaches the same upstream (NEXT_PUBLIC_BINANCE_BASE_URL), so the id stays tied to it
+  constructor({ baseUrl = BINANCE_BASE_URL, useProxy = USE_MARKET_DATA_PROXY }: BinanceDataSourceOptions = {}) {
+    this.baseUrl = baseUrl
+    this.useProxy = useProxy
+
+    // Keep candles served by a mock server out of the cache entries for the real exchange
+    if (baseUrl === BINANCE_DEFAULT_BASE_URL) {
+      this.id = "binance"
+      this.name = "Binance"
+    } else {
+      const host = new URL(baseUrl).host
+      this.id = `binance@${host}`
+      this.name = `Binance (${host})`
+    }
+  }
+
+  private fetchKlinePage(params: Record<string, string | number>, signal?: AbortSignal): Promise<any> {
+    return this.useProxy
+      ? fetchBinanceAPI(PROXY_ENDPOINTS.KLINES, params, { signal, baseUrl: "" })
+      : fetchBinanceAPI(BINANCE_ENDPOINTS.KLINES, params, { signal, baseUrl: this.baseUrl })
+  }
+
+  async fetchKlines({
+    symbol,
+    interval,
+    startTime,
+    endTime,
+    onProgress,
+    onReject,
+    signal,
+  }: FetchKlinesParams): Promise<MarketData[]> {
+    if (!startTime || !endTime || startTime >= endTime) {
+      throw new Error("Invalid date range provided")
+    }
+
+    if (endTime < BINANCE_LAUNCH_DATE.getTime()) {
+      console.warn(`Requested date range is before Binance launch (July 2017)`)
+      return []
+    }
+
+    const validStartTime = Math.floor(Math.max(startTime, BINANCE_LAUNCH_DATE.getTime()))
+    const validEndTime = Math.floor(endTime)
+
+    const klineData = await fetchPaginated<unknown>({
+      interval,
+      startTime: validStartTime,
+      endTime: validEndTime,
+      pageLimit: BINANCE_KLINE_LIMIT,
+      onProgress,
+      signal,
+      getOpenTime: (kline) => (Array.isArray(kline) ? Number(kline[0]) : NaN),
+      fetchPage: async (cursor) => {
+        const page = await this.fetchKlinePage(
+          {
+            symbol,
+            interval,
+            startTime: cursor,
+            endTime: validEndTime,
+            limit: BINANCE_KLINE_LIMIT,
+          },
+          signal,
+        )
+
+        if (!Array.isArray(page)) {
+          throw new Error("Invalid response format from Binance API")
+        }
+
+        return page
+      },
+    })
+
+    if (klineData.length === 0) {
+      console.warn(`No data returned for ${symbol} in the specified date range`)
+      return []
+    }
+
+    return klineData
+      .map((kline, index) => parseBinanceKline(kline, index, onReject))
+      .filter((item): item is MarketData => item !== null)
+  }
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    // The proxy serves exchangeInfo trimmed to the fields read here
+    const exchangeInfo: { symbols?: unknown[] } = this.useProxy
+      ? await fetchBinanceAPI(PROXY_ENDPOINTS.SYMBOLS, {}, { baseUrl: "" })
+      : await fetchBinanceAPI(BINANCE_ENDPOINTS.EXCHANGE_INFO, {}, { baseUrl: this.baseUrl })
+
+    if (!Array.isArray(exchangeInfo?.symbols)) throw new Error("Invalid exchangeInfo response from Binance API")
+
+    // Halted and delisted pairs are kept so their history can still be explored
+    return exchangeInfo.symbols
+      .filter(isBinanceSymbolEntry)
+      .map((symbol) => ({
+        symbol: symbol.symbol,
+        baseAsset: symbol.baseAsset,
+        quoteAsset: symbol.quoteAsset,
+        label: `${symbol.baseAsset}/${symbol.quoteAsset}`,
+        status: symbol.status,
+      }))
+      .sort((a, b) => a.symbol.localeCompare(b.symbol))
+  }
+
+  // exchangeInfo carries no listing date, so ask for the very first daily candle instead
+  async getListingDate(symbol: string): Promise<Date | null> {
+    const [firstKline] = await this.fetchKlinePage({ symbol, interval: "1d", startTime: 0, limit: 1 })
+
+    return Array.isArray(firstKline) ? new Date(Number(firstKline[0])) : null
+  }
+
+  async getOrderBook(symbol: string, signal?: AbortSignal): Promise<OrderBookSnapshot> {
+    const book = await fetchBinanceAPI(
+      BINANCE_ENDPOINTS.DEPTH,
+      { symbol, limit: BINANCE_DEPTH_LIMIT },
+      { signal, baseUrl: this.baseUrl },
+    )
+
+    if (!Array.isArray(book?.bids) || !Array.isArray(book?.asks)) {
+      throw new Error("Invalid order book response from Binance API")
+    }
+
+    const toLevels = (levels: [string, string][]): [number, number][] =>
+      levels
+        .map(([price, quantity]): [number, number] => [Number.parseFloat(price), Number.parseFloat(quantity)])
+        .filter(([price, quantity]) => price > 0 && quantity >= 0)
+
+    return { symbol, fetchedAt: Date.now(), bids: toLevels(book.bids), asks: toLevels(book.asks) }
+  }
+
+  watchKlines(symbol: string, interval: KlineInterval, onCandle: (candle: MarketData) => void): () => void {
+    return binanceKlineStream.watch(symbol, interval, (candle) => onCandle(candle))
+  }
+}
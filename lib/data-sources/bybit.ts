@@ -0,0 +1,195 @@
+import type {
+  FetchKlinesParams,
+  KlineInterval,
+  MarketData,
+  MarketDataSource,
+  RejectedCandle,
+  SymbolInfo,
+} from "@/types/market"
+import {
+  EXCHANGE_BASE_URLS,
+  EXCHANGE_DEFAULT_BASE_URLS,
+  fetchExchangeAPI,
+  getExchangeRequestBaseUrl,
+} from "@/lib/exchange-api"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { fetchPaginated } from "@/lib/data-sources/paginate"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+// Bybit's spot market opened in July 2021
+export const BYBIT_LAUNCH_DATE = new Date(2021, 6, 1)
+
+const BYBIT_KLINE_LIMIT = 1000
+
+const BYBIT_INTERVALS: Record<KlineInterval, string> = {
+  "15m": "15",
+  "1h": "60",
+  "4h": "240",
+  "1d": "D",
+}
+
+// Rows are [startTime, open, high, low, close, volume, turnover], newest first
+export function parseBybitKline(
+  row: unknown,
+  index: number,
+  onReject?: (rejection: RejectedCandle) => void,
+): MarketData | null {
+  if (!Array.isArray(row) || row.length < 7) {
+    console.warn(`Invalid Bybit kline at index ${index}:`, row)
+    const openTime = Array.isArray(row) ? Number(row[0]) : NaN
+    onReject?.({
+      openTime: openTime > 0 ? openTime : null,
+      reason: "malformed",
+      detail: "Invalid kline data structure",
+    })
+    return null
+  }
+
+  const [openTime, open, high, low, close, volume, quoteAssetVolume] = row
+  return normalizeCandle(
+    { openTime, open, high, low, close, volume, quoteAssetVolume },
+    index,
+    BYBIT_LAUNCH_DATE,
+    onReject,
+  )
+}
+
+// Bybit reports errors through retCode, with HTTP 200
+async function fetchBybitResult(
+  path: string,
+  params: Record<string, string | number>,
+  options: { signal?: AbortSignal; baseUrl: string },
+): Promise<any> {
+  const body = await fetchExchangeAPI("bybit", path, params, options)
+  if (body?.retCode !== 0) {
+    throw new Error(`Bybit API: ${body?.retMsg || "Unknown error"}`)
+  }
+  return body.result
+}
+
+// The fields of an instruments-info entry the symbol list reads
+interface BybitInstrument {
+  symbol: string
+  baseCoin: string
+  quoteCoin: string
+  status?: string
+}
+
+function isBybitInstrument(value: unknown): value is BybitInstrument {
+  if (typeof value !== "object" || value === null) return false
+  const { symbol, baseCoin, quoteCoin } = value as Record<string, unknown>
+  return typeof symbol === "string" && typeof baseCoin === "string" && typeof quoteCoin === "string"
+}
+
+export interface BybitDataSourceOptions {
+  baseUrl?: string
+}
+
+export class BybitDataSource implements MarketDataSource {
+  readonly id: string
+  readonly name: string
+  readonly capabilities = {
+    intervals: Object.keys(BYBIT_INTERVALS) as KlineInterval[],
+    maxKlinesPerRequest: BYBIT_KLINE_LIMIT,
+    earliestDate: BYBIT_LAUNCH_DATE,
+  }
+  private readonly upstreamUrl: string
+
+  constructor({ baseUrl = EXCHANGE_BASE_URLS.bybit }: BybitDataSourceOptions = {}) {
+    this.upstreamUrl = baseUrl
+
+    // Keep candles served by a mock server out of the cache entries for the real exchange
+    if (baseUrl === EXCHANGE_DEFAULT_BASE_URLS.bybit) {
+      this.id = "bybit"
+      this.name = "Bybit"
+    } else {
+      const host = new URL(baseUrl).host
+      this.id = `bybit@${host}`
+      this.name = `Bybit (${host})`
+    }
+  }
+
+  private get baseUrl(): string {
+    return this.upstreamUrl === EXCHANGE_BASE_URLS.bybit ? getExchangeRequestBaseUrl("bybit") : this.upstreamUrl
+  }
+
+  async fetchKlines({
+    symbol,
+    interval,
+    startTime,
+    endTime,
+    onProgress,
+    onReject,
+    signal,
+  }: FetchKlinesParams): Promise<MarketData[]> {
+    if (!startTime || !endTime || startTime >= endTime) {
+      throw new Error("Invalid date range provided")
+    }
+    if (endTime < BYBIT_LAUNCH_DATE.getTime()) return []
+
+    const intervalMs = KLINE_INTERVAL_MS[interval]
+    const validStartTime = Math.floor(Math.max(startTime, BYBIT_LAUNCH_DATE.getTime()))
+    const validEndTime = Math.floor(endTime)
+
+    // Bybit returns the newest candles of the requested range first, so walk it in windows that
+    // each fit in one page
+    const windowMs = BYBIT_KLINE_LIMIT * intervalMs
+    const rows = await fetchPaginated<unknown>({
+      interval,
+      startTime: validStartTime,
+      endTime: validEndTime,
+      pageLimit: BYBIT_KLINE_LIMIT,
+      windowMs,
+      onProgress,
+      signal,
+      getOpenTime: (row) => (Array.isArray(row) ? Number(row[0]) : NaN),
+      fetchPage: async (cursor) => {
+        const result = await fetchBybitResult(
+          "/v5/market/kline",
+          {
+            category: "spot",
+            symbol,
+            interval: BYBIT_INTERVALS[interval],
+            start: cursor,
+            end: Math.min(validEndTime, cursor + windowMs - 1),
+            limit: BYBIT_KLINE_LIMIT,
+          },
+          { signal, baseUrl: this.baseUrl },
+        )
+
+        if (!Array.isArray(result?.list)) {
+          throw new Error("Invalid response format from Bybit API")
+        }
+        return result.list
+      },
+    })
+
+    return rows
+      .map((row, index) => parseBybitKline(row, index, onReject))
+      .filter((item): item is MarketData => item !== null)
+  }
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    const result = await fetchBybitResult(
+      "/v5/market/instruments-info",
+      { category: "spot" },
+      { baseUrl: this.baseUrl },
+    )
+    const list: unknown = result?.list
+    if (!Array.isArray(list)) {
+      throw new Error("Invalid instruments response from Bybit API")
+    }
+
+    // Entries missing a field the list needs are skipped rather than listed half-empty
+    return list
+      .filter(isBybitInstrument)
+      .map((instrument) => ({
+        symbol: instrument.symbol,
+        baseAsset: instrument.baseCoin,
+        quoteAsset: instrument.quoteCoin,
+        label: `${instrument.baseCoin}/${instrument.quoteCoin}`,
+        status: instrument.status === "Trading" ? "TRADING" : "HALT",
+      }))
+      .sort((a, b) => a.symbol.localeCompare(b.symbol))
+  }
+}
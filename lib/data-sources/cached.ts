@@ -0,0 +1,127 @@
+import type { FetchKlinesParams, MarketData, MarketDataSource, RejectedCandle } from "@/types/market"
+import { getEarliestOpenTime, KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+import { klineCache, type CachedCandle, type KlineCache } from "@/lib/kline-cache"
+
+interface TimeSpan {
+  start: number
+  end: number
+}
+
+// Groups sorted, grid-aligned open times into contiguous spans
+const toContiguousSpans = (openTimes: number[], intervalMs: number): TimeSpan[] =>
+  openTimes.reduce<TimeSpan[]>((spans, openTime) => {
+    const last = spans[spans.length - 1]
+    if (last && openTime - last.end === intervalMs) {
+      last.end = openTime
+    } else {
+      spans.push({ start: openTime, end: openTime })
+    }
+    return spans
+  }, [])
+
+async function fetchKlinesWithCache(
+  source: MarketDataSource,
+  cache: KlineCache,
+  params: FetchKlinesParams,
+): Promise<MarketData[]> {
+  if (!cache.isAvailable()) {
+    return source.fetchKlines(params)
+  }
+
+  const { symbol, interval, startTime, endTime, onProgress, onReject } = params
+  const intervalMs = KLINE_INTERVAL_MS[interval]
+  const now = Date.now()
+
+  // Candles open on multiples of the interval since the epoch (00:00 UTC for daily). Periods the source
+  // can no longer serve aren't expected, so they aren't cached as closed without a candle either.
+  const firstOpenTime =
+    Math.ceil(Math.max(startTime, getEarliestOpenTime(source.capabilities, interval, now)) / intervalMs) * intervalMs
+  const expectedOpenTimes: number[] = []
+  for (let openTime = firstOpenTime; openTime <= endTime; openTime += intervalMs) {
+    expectedOpenTimes.push(openTime)
+  }
+
+  if (expectedOpenTimes.length === 0) return []
+
+  let cached: CachedCandle[]
+  try {
+    cached = await cache.getRange(source.id, symbol, interval, firstOpenTime, endTime)
+  } catch (error) {
+    console.warn("Kline cache unavailable, fetching directly:", error)
+    return source.fetchKlines(params)
+  }
+
+  const entries = new Map(cached.map((entry) => [entry.openTime, entry]))
+  const missing = expectedOpenTimes.filter((openTime) => !entries.get(openTime)?.closed)
+  // Rows rejected on an earlier fetch are reported again rather than looking like plain gaps
+  cached.forEach((entry) => entry.closed && entry.rejection && onReject?.(entry.rejection))
+  const spans = toContiguousSpans(missing, intervalMs)
+
+  const fetched: CachedCandle[] = []
+  let loadedBefore = expectedOpenTimes.length - missing.length
+
+  for (const span of spans) {
+    const rejections = new Map<number, RejectedCandle>()
+    const candles = await source.fetchKlines({
+      ...params,
+      onReject: (rejection) => {
+        if (rejection.openTime !== null) rejections.set(rejection.openTime, rejection)
+        onReject?.(rejection)
+      },
+      startTime: span.start,
+      endTime: Math.min(endTime, span.end + intervalMs - 1),
+      onProgress: onProgress
+        ? (progress) =>
+            onProgress({
+              loaded: loadedBefore + progress.loaded,
+              expected: expectedOpenTimes.length,
+              pages: progress.pages,
+            })
+        : undefined,
+    })
+
+    const candlesByOpenTime = new Map(candles.map((candle) => [candle.openTime, candle]))
+    for (let openTime = span.start; openTime <= span.end; openTime += intervalMs) {
+      const candle = candlesByOpenTime.get(openTime) ?? null
+      const closed = openTime + intervalMs <= now
+      // Only remember an empty period once it has closed; an open one may still print
+      if (candle || closed) {
+        const rejection = candle ? undefined : rejections.get(openTime)
+        const entry = { sourceId: source.id, symbol, interval, openTime, candle, rejection, closed, cachedAt: now }
+        fetched.push(entry)
+        entries.set(openTime, entry)
+      } else {
+        entries.delete(openTime)
+      }
+    }
+
+    loadedBefore += (span.end - span.start) / intervalMs + 1
+  }
+
+  try {
+    await cache.putMany(fetched)
+  } catch (error) {
+    console.warn("Failed to write klines to cache:", error)
+  }
+
+  return expectedOpenTimes
+    .map((openTime) => entries.get(openTime)?.candle ?? null)
+    .filter((candle): candle is MarketData => candle !== null)
+}
+
+// Wraps a source so closed candles are served from the browser-side kline cache and
+// only missing or still-open periods hit the network.
+export function withKlineCache(source: MarketDataSource, cache: KlineCache = klineCache): MarketDataSource {
+  return {
+    id: source.id,
+    name: source.name,
+    capabilities: source.capabilities,
+    fetchKlines: (params) => fetchKlinesWithCache(source, cache, params),
+    listSymbols: () => source.listSymbols(),
+    getListingDate: source.getListingDate?.bind(source),
+    getOrderBook: source.getOrderBook?.bind(source),
+    watchKlines: source.watchKlines?.bind(source),
+    getSymbolIntervals: source.getSymbolIntervals?.bind(source),
+    subscribeSymbols: source.subscribeSymbols?.bind(source),
+  }
+}
@@ -0,0 +1,180 @@
+import type {
+  FetchKlinesParams,
+  KlineInterval,
+  MarketData,
+  MarketDataSource,
+  RejectedCandle,
+  SymbolInfo,
+} from "@/types/market"
+import {
+  EXCHANGE_BASE_URLS,
+  EXCHANGE_DEFAULT_BASE_URLS,
+  fetchExchangeAPI,
+  getExchangeRequestBaseUrl,
+} from "@/lib/exchange-api"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { fetchPaginated } from "@/lib/data-sources/paginate"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+// Coinbase Exchange (formerly GDAX) opened in January 2015
+export const COINBASE_LAUNCH_DATE = new Date(2015, 0, 1)
+
+const COINBASE_CANDLE_LIMIT = 300
+
+// Coinbase has no 4 hour granularity
+const COINBASE_GRANULARITY: Partial<Record<KlineInterval, number>> = {
+  "15m": 900,
+  "1h": 3600,
+  "1d": 86400,
+}
+
+// Rows are [time (seconds), low, high, open, close, volume], newest first
+export function parseCoinbaseCandle(
+  row: unknown,
+  index: number,
+  onReject?: (rejection: RejectedCandle) => void,
+): MarketData | null {
+  if (!Array.isArray(row) || row.length < 6) {
+    console.warn(`Invalid Coinbase candle at index ${index}:`, row)
+    const time = Array.isArray(row) ? Number(row[0]) : NaN
+    onReject?.({ openTime: time > 0 ? time * 1000 : null, reason: "malformed", detail: "Invalid candle structure" })
+    return null
+  }
+
+  const [time, low, high, open, close, volume] = row
+  return normalizeCandle(
+    { openTime: Number(time) * 1000, open, high, low, close, volume },
+    index,
+    COINBASE_LAUNCH_DATE,
+    onReject,
+  )
+}
+
+// The fields of a /products entry the symbol list reads
+interface CoinbaseProduct {
+  id: string
+  base_currency: string
+  quote_currency: string
+  status?: string
+  trading_disabled?: boolean
+}
+
+function isCoinbaseProduct(value: unknown): value is CoinbaseProduct {
+  if (typeof value !== "object" || value === null) return false
+  const { id, base_currency, quote_currency } = value as Record<string, unknown>
+  return typeof id === "string" && typeof base_currency === "string" && typeof quote_currency === "string"
+}
+
+function toSymbolStatus(product: CoinbaseProduct): string {
+  if (product.status === "delisted") return "BREAK"
+  return product.status === "online" && !product.trading_disabled ? "TRADING" : "HALT"
+}
+
+export interface CoinbaseDataSourceOptions {
+  baseUrl?: string
+}
+
+export class CoinbaseDataSource implements MarketDataSource {
+  readonly id: string
+  readonly name: string
+  readonly capabilities = {
+    intervals: Object.keys(COINBASE_GRANULARITY) as KlineInterval[],
+    maxKlinesPerRequest: COINBASE_CANDLE_LIMIT,
+    earliestDate: COINBASE_LAUNCH_DATE,
+  }
+  private readonly upstreamUrl: string
+
+  constructor({ baseUrl = EXCHANGE_BASE_URLS.coinbase }: CoinbaseDataSourceOptions = {}) {
+    this.upstreamUrl = baseUrl
+
+    // Keep candles served by a mock server out of the cache entries for the real exchange
+    if (baseUrl === EXCHANGE_DEFAULT_BASE_URLS.coinbase) {
+      this.id = "coinbase"
+      this.name = "Coinbase"
+    } else {
+      const host = new URL(baseUrl).host
+      this.id = `coinbase@${host}`
+      this.name = `Coinbase (${host})`
+    }
+  }
+
+  private get baseUrl(): string {
+    return this.upstreamUrl === EXCHANGE_BASE_URLS.coinbase ? getExchangeRequestBaseUrl("coinbase") : this.upstreamUrl
+  }
+
+  async fetchKlines({
+    symbol,
+    interval,
+    startTime,
+    endTime,
+    onProgress,
+    onReject,
+    signal,
+  }: FetchKlinesParams): Promise<MarketData[]> {
+    const granularity = COINBASE_GRANULARITY[interval]
+    if (!granularity) {
+      throw new Error(`Coinbase does not offer ${interval} candles`)
+    }
+    if (!startTime || !endTime || startTime >= endTime) {
+      throw new Error("Invalid date range provided")
+    }
+    if (endTime < COINBASE_LAUNCH_DATE.getTime()) return []
+
+    const intervalMs = KLINE_INTERVAL_MS[interval]
+    const validStartTime = Math.floor(Math.max(startTime, COINBASE_LAUNCH_DATE.getTime()))
+    const validEndTime = Math.floor(endTime)
+
+    // Coinbase answers a start/end window with at most 300 candles
+    const windowMs = COINBASE_CANDLE_LIMIT * intervalMs
+    const rows = await fetchPaginated<unknown>({
+      interval,
+      startTime: validStartTime,
+      endTime: validEndTime,
+      pageLimit: COINBASE_CANDLE_LIMIT,
+      windowMs,
+      onProgress,
+      signal,
+      getOpenTime: (row) => (Array.isArray(row) ? Number(row[0]) * 1000 : NaN),
+      fetchPage: async (cursor) => {
+        const page = await fetchExchangeAPI(
+          "coinbase",
+          `/products/${encodeURIComponent(symbol)}/candles`,
+          {
+            granularity,
+            start: new Date(cursor).toISOString(),
+            end: new Date(Math.min(validEndTime, cursor + windowMs - intervalMs)).toISOString(),
+          },
+          { signal, baseUrl: this.baseUrl },
+        )
+
+        if (!Array.isArray(page)) {
+          throw new Error("Invalid response format from Coinbase API")
+        }
+        return page
+      },
+    })
+
+    return rows
+      .map((row, index) => parseCoinbaseCandle(row, index, onReject))
+      .filter((item): item is MarketData => item !== null)
+  }
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    const products: unknown = await fetchExchangeAPI("coinbase", "/products", {}, { baseUrl: this.baseUrl })
+    if (!Array.isArray(products)) {
+      throw new Error("Invalid products response from Coinbase API")
+    }
+
+    // Entries missing a field the list needs are skipped rather than listed half-empty
+    return products
+      .filter(isCoinbaseProduct)
+      .map((product) => ({
+        symbol: product.id,
+        baseAsset: product.base_currency,
+        quoteAsset: product.quote_currency,
+        label: `${product.base_currency}/${product.quote_currency}`,
+        status: toSymbolStatus(product),
+      }))
+      .sort((a, b) => a.symbol.localeCompare(b.symbol))
+  }
+}
@@ -0,0 +1,88 @@
+import type { FetchKlinesParams, KlineInterval, MarketData, MarketDataSource, SymbolInfo } from "@/types/market"
+import { DATASET_SOURCE_ID, datasetStore, type DatasetCandle } from "@/lib/datasets"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { KLINE_INTERVAL_LABELS, KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+const ALL_INTERVALS = Object.keys(KLINE_INTERVAL_MS) as KlineInterval[]
+
+// A dataset can be read in its own interval or any longer one
+const intervalsFrom = (interval: KlineInterval): KlineInterval[] =>
+  ALL_INTERVALS.filter((candidate) => KLINE_INTERVAL_MS[candidate] >= KLINE_INTERVAL_MS[interval])
+
+// Combines consecutive candles into candles of a longer interval, aligned to the epoch like exchange candles
+export function aggregateCandles(candles: DatasetCandle[], intervalMs: number): DatasetCandle[] {
+  const buckets = new Map<number, DatasetCandle>()
+  candles.forEach((candle) => {
+    const openTime = Math.floor(candle.openTime / intervalMs) * intervalMs
+    const bucket = buckets.get(openTime)
+    if (!bucket) {
+      buckets.set(openTime, { ...candle, openTime })
+      return
+    }
+    bucket.high = Math.max(bucket.high, candle.high)
+    bucket.low = Math.min(bucket.low, candle.low)
+    bucket.close = candle.close
+    bucket.volume += candle.volume
+  })
+  return [...buckets.values()]
+}
+
+// Serves the OHLCV files imported through the import dialog (see lib/dataset-import), with dataset
+// ids as symbols. Candles are already validated on import.
+export class DatasetDataSource implements MarketDataSource {
+  readonly id = DATASET_SOURCE_ID
+  readonly name = "Imported"
+  readonly capabilities = {
+    intervals: ["1d"] as KlineInterval[],
+    maxKlinesPerRequest: Number.MAX_SAFE_INTEGER,
+    earliestDate: new Date(1970, 0, 2),
+  }
+
+  getSymbolIntervals(symbol: string): KlineInterval[] | null {
+    const dataset = datasetStore.find(symbol)
+    return dataset ? intervalsFrom(dataset.interval) : null
+  }
+
+  subscribeSymbols(listener: () => void): () => void {
+    return datasetStore.subscribe(listener)
+  }
+
+  async fetchKlines({ symbol, interval, startTime, endTime, onReject }: FetchKlinesParams): Promise<MarketData[]> {
+    const dataset = await datasetStore.get(symbol)
+    if (!dataset) {
+      throw new Error(`Imported dataset ${symbol} no longer exists`)
+    }
+    if (!intervalsFrom(dataset.interval).includes(interval)) {
+      throw new Error(
+        `${dataset.name} has ${KLINE_INTERVAL_LABELS[dataset.interval]} candles, too coarse for ${KLINE_INTERVAL_LABELS[interval]} candles`,
+      )
+    }
+
+    const intervalMs = KLINE_INTERVAL_MS[interval]
+    const candles = await datasetStore.getCandles(symbol)
+    const inRange = candles.filter(
+      (candle) => candle.openTime >= Math.floor(startTime / intervalMs) * intervalMs && candle.openTime <= endTime,
+    )
+    const rows = interval === dataset.interval ? inRange : aggregateCandles(inRange, intervalMs)
+
+    return rows
+      .map((row, index) => normalizeCandle(row, index, undefined, onReject))
+      .filter((item): item is MarketData => item !== null)
+  }
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    const datasets = await datasetStore.load()
+    return datasets.map((dataset) => ({
+      symbol: dataset.id,
+      baseAsset: dataset.name,
+      quoteAsset: "",
+      label: dataset.name,
+      status: "TRADING",
+    }))
+  }
+
+  async getListingDate(symbol: string): Promise<Date | null> {
+    const dataset = await datasetStore.get(symbol)
+    return dataset ? new Date(dataset.firstOpenTime) : null
+  }
+}
@@ -0,0 +1,19 @@
+// Symbols may be qualified with the exchange they trade on, e.g. "kraken:XBTUSD". Bare symbols
+// are Binance's, so everything saved before other exchanges were added keeps working.
+
+export const DEFAULT_EXCHANGE = "binance"
+
+export interface ExchangeSymbol {
+  exchange: string
+  symbol: string
+}
+
+export function parseExchangeSymbol(value: string): ExchangeSymbol {
+  const separator = value.indexOf(":")
+  if (separator === -1) return { exchange: DEFAULT_EXCHANGE, symbol: value }
+  return { exchange: value.slice(0, separator).toLowerCase(), symbol: value.slice(separator + 1) }
+}
+
+export function formatExchangeSymbol(exchange: string, symbol: string): string {
+  return exchange === DEFAULT_EXCHANGE ? symbol : `${exchange}:${symbol}`
+}
@@ -0,0 +1,250 @@
+import type {
+  FetchKlinesParams,
+  FetchProgress,
+  KlineInterval,
+  MarketData,
+  MarketDataSource,
+  RejectedCandle,
+  TradingDayConfig,
+  VolatilityModel,
+} from "@/types/market"
+import { BinanceDataSource } from "@/lib/data-sources/binance"
+import { BybitDataSource } from "@/lib/data-sources/bybit"
+import { CoinbaseDataSource } from "@/lib/data-sources/coinbase"
+import { KrakenDataSource } from "@/lib/data-sources/kraken"
+import { DatasetDataSource } from "@/lib/data-sources/dataset"
+import { SyntheticDataSource } from "@/lib/data-sources/synthetic"
+import { withKlineCache } from "@/lib/data-sources/cached"
+import { DEFAULT_EXCHANGE, parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { applyVolatilityModel, DEFAULT_VOLATILITY_MODEL } from "@/lib/volatility"
+import { applyLiquidityMetrics } from "@/lib/liquidity"
+import { DEFAULT_TRADING_DAY, labelTradingDates, needsResampling, resampleToTradingDays } from "@/lib/trading-day"
+import { getEarliestOpenTime, KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+export const DEFAULT_DATA_SOURCE_ID = DEFAULT_EXCHANGE
+
+// Keyed by the exchange prefix of qualified symbols, e.g. "kraken" in "kraken:XBTUSD"
+const dataSources: Record<string, MarketDataSource> = {
+  binance: withKlineCache(new BinanceDataSource()),
+  coinbase: withKlineCache(new CoinbaseDataSource()),
+  kraken: withKlineCache(new KrakenDataSource()),
+  bybit: withKlineCache(new BybitDataSource()),
+  // Already stored locally, so not cached again
+  dataset: new DatasetDataSource(),
+  // Generated on demand from a seed, so as cheap to regenerate as to read back
+  synthetic: new SyntheticDataSource(),
+}
+
+// The pair selected when switching to an exchange, as each names bitcoin against the dollar differently
+export const DEFAULT_EXCHANGE_SYMBOLS: Record<string, string> = {
+  binance: "BTCUSDT",
+  coinbase: "BTC-USD",
+  kraken: "XBTUSD",
+  bybit: "BTCUSDT",
+  synthetic: "RANDOMWALK",
+}
+
+export function getDataSource(id: string = DEFAULT_DATA_SOURCE_ID): MarketDataSource {
+  const source = dataSources[id]
+  if (!source) {
+    throw new Error(`Unknown market data source: ${id}`)
+  }
+  return source
+}
+
+export function listDataSources(): MarketDataSource[] {
+  return Object.values(dataSources)
+}
+
+export function listExchanges(): { exchange: string; name: string }[] {
+  return Object.entries(dataSources).map(([exchange, source]) => ({ exchange, name: source.name }))
+}
+
+// Splits a possibly exchange-qualified symbol into the source to read it from and the exchange's own
+// symbol. An explicitly passed source takes the value as a plain symbol of that source.
+export function resolveMarketSymbol(
+  value: string,
+  source?: MarketDataSource,
+): { source: MarketDataSource; symbol: string } {
+  if (source) return { source, symbol: value }
+
+  const { exchange, symbol } = parseExchangeSymbol(value)
+  return { source: getDataSource(exchange), symbol }
+}
+
+interface InFlightRequest {
+  promise: Promise<{ candles: MarketData[]; rejected: RejectedCandle[] }>
+  controller: AbortController
+  subscribers: number
+  progressListeners: Set<(progress: FetchProgress) => void>
+}
+
+export interface MarketDataResult {
+  data: MarketData[]
+  // Rows the source returned but failed validation, for the data-quality report
+  rejected: RejectedCandle[]
+  // Candles as the source returned them, hourly when trading days were resampled
+  sourceCandles: MarketData[]
+  sourceInterval: KlineInterval
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>()
+
+export const createAbortError = () => new DOMException("Market data request was aborted", "AbortError")
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === "AbortError"
+
+// Turns candles as fetched into the caller's candles: grouped into trading days (resampled when
+// fetched hourly for a daily view), with volatility and liquidity derived. Live updates merged into
+// the source candles go through here again so they match a fresh load.
+export function deriveMarketData(
+  candles: MarketData[],
+  sourceInterval: KlineInterval,
+  interval: KlineInterval,
+  volatilityModel: VolatilityModel = DEFAULT_VOLATILITY_MODEL,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): MarketData[] {
+  const days =
+    sourceInterval !== interval ? resampleToTradingDays(candles, tradingDay) : labelTradingDates(candles, tradingDay)
+  return applyLiquidityMetrics(applyVolatilityModel(days, volatilityModel, interval))
+}
+
+// The interval actually fetched for a request: days other than UTC midnight are built from hourly
+// candles, unless the symbol has none (e.g. an imported end-of-day series)
+export function getFetchInterval(
+  source: MarketDataSource,
+  symbol: string,
+  interval: KlineInterval,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): KlineInterval {
+  const hourly = (source.getSymbolIntervals?.(symbol) ?? source.capabilities.intervals).includes("1h")
+  return interval === "1d" && hourly && needsResampling(tradingDay) ? "1h" : interval
+}
+
+// The first date a request for the interval can get candles for, which for sources keeping only
+// recent candles is much later than their launch
+export const getEarliestAvailableDate = (
+  source: MarketDataSource,
+  symbol: string,
+  interval: KlineInterval,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): Date => new Date(getEarliestOpenTime(source.capabilities, getFetchInterval(source, symbol, interval, tradingDay)))
+
+// Fetches candles from a source, groups them into the caller's trading days and derives volatility
+// (per the caller's model) and liquidity, so every consumer sees the same numbers for the same symbol,
+// period and settings. Identical concurrent requests share one underlying fetch, which is only
+// aborted once every caller has aborted.
+export function loadMarketData(
+  source: MarketDataSource,
+  params: FetchKlinesParams,
+  volatilityModel: VolatilityModel = DEFAULT_VOLATILITY_MODEL,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): Promise<MarketData[]> {
+  return loadMarketDataWithRejections(source, params, volatilityModel, tradingDay).then(({ data }) => data)
+}
+
+// Like loadMarketData, but also hands back the rows the source rejected during validation
+export function loadMarketDataWithRejections(
+  source: MarketDataSource,
+  params: FetchKlinesParams,
+  volatilityModel: VolatilityModel = DEFAULT_VOLATILITY_MODEL,
+  tradingDay: TradingDayConfig = DEFAULT_TRADING_DAY,
+): Promise<MarketDataResult> {
+  const { signal, onProgress, onReject, ...requestedParams } = params
+
+  // Days other than UTC midnight are built from hourly candles. A trading day can start up to
+  // a day either side of the UTC date, so fetch a day of margin on both ends. The end stops at
+  // the current hour's candle and stays the same all hour, so concurrent requests still share a key.
+  // Symbols without hourly candles (e.g. an imported end-of-day series) can't be regrouped, so their
+  // daily candles keep the dates the source gave them.
+  const hourly = (source.getSymbolIntervals?.(params.symbol) ?? source.capabilities.intervals).includes("1h")
+  const dayConfig = hourly ? tradingDay : DEFAULT_TRADING_DAY
+  const resample = getFetchInterval(source, params.symbol, params.interval, tradingDay) !== params.interval
+  const fetchParams = resample
+    ? {
+        ...requestedParams,
+        interval: "1h" as const,
+        startTime: params.startTime - KLINE_INTERVAL_MS["1d"],
+        endTime: Math.min(
+          params.endTime + KLINE_INTERVAL_MS["1d"],
+          Math.ceil(Date.now() / KLINE_INTERVAL_MS["1h"]) * KLINE_INTERVAL_MS["1h"] - 1,
+        ),
+      }
+    : requestedParams
+  const key = [source.id, params.symbol, fetchParams.interval, fetchParams.startTime, fetchParams.endTime].join(":")
+
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError())
+  }
+
+  let request = inFlightRequests.get(key)
+  if (!request) {
+    const controller = new AbortController()
+    const progressListeners = new Set<(progress: FetchProgress) => void>()
+    const rejected: RejectedCandle[] = []
+    const promise = source
+      .fetchKlines({
+        ...fetchParams,
+        signal: controller.signal,
+        onProgress: (progress) => progressListeners.forEach((listener) => listener(progress)),
+        onReject: (rejection) => rejected.push(rejection),
+      })
+      .then((candles) => ({ candles, rejected }))
+      .finally(() => {
+        if (inFlightRequests.get(key) === newRequest) {
+          inFlightRequests.delete(key)
+        }
+      })
+    const newRequest: InFlightRequest = { promise, controller, subscribers: 0, progressListeners }
+    inFlightRequests.set(key, newRequest)
+    request = newRequest
+  }
+
+  const shared = request
+  shared.subscribers++
+  if (onProgress) shared.progressListeners.add(onProgress)
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+
+    const release = () => {
+      settled = true
+      signal?.removeEventListener("abort", handleAbort)
+      if (onProgress) shared.progressListeners.delete(onProgress)
+      shared.subscribers--
+    }
+
+    const handleAbort = () => {
+      if (settled) return
+      release()
+      if (shared.subscribers === 0) {
+        shared.controller.abort()
+        if (inFlightRequests.get(key) === shared) {
+          inFlightRequests.delete(key)
+        }
+      }
+      reject(createAbortError())
+    }
+
+    signal?.addEventListener("abort", handleAbort, { once: true })
+
+    shared.promise.then(
+      ({ candles, rejected }) => {
+        if (settled) return
+        release()
+        rejected.forEach((rejection) => onReject?.(rejection))
+        resolve({
+          data: deriveMarketData(candles, fetchParams.interval, params.interval, volatilityModel, dayConfig),
+          rejected,
+          sourceCandles: candles,
+          sourceInterval: fetchParams.interval,
+        })
+      },
+      (error) => {
+        if (settled) return
+        release()
+        reject(error)
+      },
+    )
+  })
+}
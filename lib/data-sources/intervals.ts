@@ -0,0 +1,35 @@
+import type { DataSourceCapabilities, KlineInterval } from "@/types/market"
+
+export const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+}
+
+export const INTRADAY_INTERVALS: KlineInterval[] = ["15m", "1h", "4h"]
+
+export const KLINE_INTERVAL_LABELS: Record<KlineInterval, string> = {
+  "15m": "15 minutes",
+  "1h": "1 hour",
+  "4h": "4 hours",
+  "1d": "1 day",
+}
+
+// The first open time a source can still serve for an interval: its launch, or for a source keeping
+// only its latest candles, that many candles back from the current one
+export function getEarliestOpenTime(
+  capabilities: DataSourceCapabilities,
+  interval: KlineInterval,
+  now = Date.now(),
+): number {
+  const launch = capabilities.earliestDate.getTime()
+  if (!capabilities.historyLimit) return launch
+  const intervalMs = KLINE_INTERVAL_MS[interval]
+  const currentOpenTime = Math.floor(now / intervalMs) * intervalMs
+  return Math.max(launch, currentOpenTime - (capabilities.historyLimit - 1) * intervalMs)
+}
+
+export function expectedCandleCount(interval: KlineInterval, startTime: number, endTime: number): number {
+  return Math.max(1, Math.ceil((endTime - startTime) / KLINE_INTERVAL_MS[interval]))
+}
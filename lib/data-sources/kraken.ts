@@ -0,0 +1,201 @@
+import type {
+  FetchKlinesParams,
+  KlineInterval,
+  MarketData,
+  MarketDataSource,
+  RejectedCandle,
+  SymbolInfo,
+} from "@/types/market"
+import {
+  EXCHANGE_BASE_URLS,
+  EXCHANGE_DEFAULT_BASE_URLS,
+  fetchExchangeAPI,
+  getExchangeRequestBaseUrl,
+  readExchangeError,
+} from "@/lib/exchange-api"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { fetchPaginated } from "@/lib/data-sources/paginate"
+import { getEarliestOpenTime } from "@/lib/data-sources/intervals"
+
+export const KRAKEN_LAUNCH_DATE = new Date(2013, 8, 1)
+
+// Kraken only serves the most recent 720 candles of each interval, however far back `since` asks
+const KRAKEN_CANDLE_LIMIT = 720
+
+const KRAKEN_INTERVAL_MINUTES: Record<KlineInterval, number> = {
+  "15m": 15,
+  "1h": 60,
+  "4h": 240,
+  "1d": 1440,
+}
+
+// Rows are [time (seconds), open, high, low, close, vwap, volume, count]
+export function parseKrakenCandle(
+  row: unknown,
+  index: number,
+  onReject?: (rejection: RejectedCandle) => void,
+): MarketData | null {
+  if (!Array.isArray(row) || row.length < 8) {
+    console.warn(`Invalid Kraken candle at index ${index}:`, row)
+    const time = Array.isArray(row) ? Number(row[0]) : NaN
+    onReject?.({ openTime: time > 0 ? time * 1000 : null, reason: "malformed", detail: "Invalid candle structure" })
+    return null
+  }
+
+  const [time, open, high, low, close, vwap, volume, count] = row
+  return normalizeCandle(
+    {
+      openTime: Number(time) * 1000,
+      open,
+      high,
+      low,
+      close,
+      volume,
+      quoteAssetVolume: Number.parseFloat(vwap) * Number.parseFloat(volume),
+      numberOfTrades: count,
+    },
+    index,
+    KRAKEN_LAUNCH_DATE,
+    onReject,
+  )
+}
+
+// Kraken reports errors in the body's `error` array, with HTTP 200
+function readKrakenResult(body: unknown): Record<string, unknown> {
+  const message = readExchangeError(body)
+  if (message) throw new Error(`Kraken API: ${message}`)
+  const result = typeof body === "object" && body !== null ? (body as { result?: unknown }).result : undefined
+  if (typeof result !== "object" || result === null) {
+    throw new Error("Invalid response format from Kraken API")
+  }
+  return result as Record<string, unknown>
+}
+
+// The fields of an AssetPairs entry the symbol list reads
+interface KrakenAssetPair {
+  altname: string
+  wsname: string
+  status?: string
+}
+
+function isKrakenAssetPair(value: unknown): value is KrakenAssetPair {
+  if (typeof value !== "object" || value === null) return false
+  const { altname, wsname } = value as Record<string, unknown>
+  return typeof altname === "string" && typeof wsname === "string" && wsname.includes("/")
+}
+
+function toSymbolStatus(pair: KrakenAssetPair): string {
+  if (pair.status === "delisted") return "BREAK"
+  // Older responses carry no status at all
+  return pair.status === undefined || pair.status === "online" ? "TRADING" : "HALT"
+}
+
+export interface KrakenDataSourceOptions {
+  baseUrl?: string
+}
+
+export class KrakenDataSource implements MarketDataSource {
+  readonly id: string
+  readonly name: string
+  readonly capabilities = {
+    intervals: Object.keys(KRAKEN_INTERVAL_MINUTES) as KlineInterval[],
+    maxKlinesPerRequest: KRAKEN_CANDLE_LIMIT,
+    earliestDate: KRAKEN_LAUNCH_DATE,
+    historyLimit: KRAKEN_CANDLE_LIMIT,
+  }
+  private readonly upstreamUrl: string
+
+  constructor({ baseUrl = EXCHANGE_BASE_URLS.kraken }: KrakenDataSourceOptions = {}) {
+    this.upstreamUrl = baseUrl
+
+    // Keep candles served by a mock server out of the cache entries for the real exchange
+    if (baseUrl === EXCHANGE_DEFAULT_BASE_URLS.kraken) {
+      this.id = "kraken"
+      this.name = "Kraken"
+    } else {
+      const host = new URL(baseUrl).host
+      this.id = `kraken@${host}`
+      this.name = `Kraken (${host})`
+    }
+  }
+
+  private get baseUrl(): string {
+    return this.upstreamUrl === EXCHANGE_BASE_URLS.kraken ? getExchangeRequestBaseUrl("kraken") : this.upstreamUrl
+  }
+
+  async fetchKlines({
+    symbol,
+    interval,
+    startTime,
+    endTime,
+    onProgress,
+    onReject,
+    signal,
+  }: FetchKlinesParams): Promise<MarketData[]> {
+    if (!startTime || !endTime || startTime >= endTime) {
+      throw new Error("Invalid date range provided")
+    }
+    // Older candles are out of reach rather than missing; callers learn the limit from the capabilities
+    const earliestOpenTime = getEarliestOpenTime(this.capabilities, interval)
+    if (endTime < earliestOpenTime) return []
+
+    const validStartTime = Math.floor(Math.max(startTime, earliestOpenTime))
+    const validEndTime = Math.floor(endTime)
+
+    const rows = await fetchPaginated<unknown>({
+      interval,
+      startTime: validStartTime,
+      endTime: validEndTime,
+      pageLimit: KRAKEN_CANDLE_LIMIT,
+      onProgress,
+      signal,
+      getOpenTime: (row) => (Array.isArray(row) ? Number(row[0]) * 1000 : NaN),
+      fetchPage: async (cursor) => {
+        // `since` is exclusive, so step back a second to include the candle opening at the cursor
+        const result = readKrakenResult(
+          await fetchExchangeAPI(
+            "kraken",
+            "/0/public/OHLC",
+            { pair: symbol, interval: KRAKEN_INTERVAL_MINUTES[interval], since: Math.floor(cursor / 1000) - 1 },
+            { signal, baseUrl: this.baseUrl },
+          ),
+        )
+
+        // Candles are keyed by Kraken's internal pair name (e.g. XXBTZUSD), next to `last`
+        const pairKey = Object.keys(result).find((key) => key !== "last")
+        const page = pairKey ? result[pairKey] : []
+        if (!Array.isArray(page)) {
+          throw new Error("Invalid response format from Kraken API")
+        }
+        return page
+      },
+    })
+
+    return rows
+      .map((row, index) => parseKrakenCandle(row, index, onReject))
+      .filter((item): item is MarketData => item !== null)
+  }
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    const pairs = readKrakenResult(
+      await fetchExchangeAPI("kraken", "/0/public/AssetPairs", {}, { baseUrl: this.baseUrl }),
+    )
+
+    // Pairs are listed by their altname (e.g. XBTUSD), which the OHLC endpoint also accepts.
+    // Dark pool pairs (".d") have no candles of their own.
+    return Object.values(pairs)
+      .filter(isKrakenAssetPair)
+      .filter((pair) => !pair.altname.endsWith(".d"))
+      .map((pair) => {
+        const [baseAsset, quoteAsset] = pair.wsname.split("/")
+        return {
+          symbol: pair.altname,
+          baseAsset,
+          quoteAsset,
+          label: pair.wsname,
+          status: toSymbolStatus(pair),
+        }
+      })
+      .sort((a, b) => a.symbol.localeCompare(b.symbol))
+  }
+}
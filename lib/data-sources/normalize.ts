@@ -0,0 +1,94 @@
+import type { CandleRejectionReason, MarketData, RejectedCandle } from "@/types/market"
+
+// Exchange-agnostic candle as read off the wire, before validation
+export interface RawCandle {
+  openTime: number | string
+  open: number | string
+  high: number | string
+  low: number | string
+  close: number | string
+  volume: number | string
+  quoteAssetVolume?: number | string
+  numberOfTrades?: number | string
+  takerBuyBaseAssetVolume?: number | string
+  takerBuyQuoteAssetVolume?: number | string
+}
+
+const toNumber = (value: number | string): number => (typeof value === "number" ? value : Number.parseFloat(value))
+
+// Optional fields are dropped rather than rejecting the whole candle when malformed
+const toOptionalNumber = (value: number | string | undefined): number | undefined => {
+  if (value === undefined) return undefined
+  const parsed = toNumber(value)
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed
+}
+
+// Validates a raw candle and converts it to MarketData. Every adapter goes through
+// here so that rejected rows and the intraday range volatility are identical across sources.
+// Rejected rows are reported through onReject so they can show up in the data-quality report.
+export function normalizeCandle(
+  raw: RawCandle,
+  index: number,
+  earliestDate?: Date,
+  onReject?: (rejection: RejectedCandle) => void,
+): MarketData | null {
+  const timestamp = Number(raw.openTime)
+  const reject = (reason: CandleRejectionReason, detail: string) => {
+    console.warn(`${detail} at index ${index}:`, raw)
+    onReject?.({ openTime: isNaN(timestamp) || timestamp <= 0 ? null : timestamp, reason, detail })
+    return null
+  }
+
+  const openPrice = toNumber(raw.open)
+  const highPrice = toNumber(raw.high)
+  const lowPrice = toNumber(raw.low)
+  const closePrice = toNumber(raw.close)
+  const volumeValue = toNumber(raw.volume)
+
+  if (isNaN(openPrice) || isNaN(highPrice) || isNaN(lowPrice) || isNaN(closePrice) || isNaN(volumeValue)) {
+    return reject("non-numeric", "Invalid numeric data in candle")
+  }
+
+  if (openPrice <= 0 || highPrice <= 0 || lowPrice <= 0 || closePrice <= 0) {
+    return reject("non-positive-price", "Invalid price values (must be positive)")
+  }
+
+  if (volumeValue < 0) {
+    return reject("negative-volume", "Invalid volume (must not be negative)")
+  }
+
+  if (highPrice < Math.max(openPrice, closePrice) || lowPrice > Math.min(openPrice, closePrice)) {
+    return reject("inconsistent-range", "Invalid price relationships (high/low outside open/close)")
+  }
+
+  if (isNaN(timestamp) || timestamp <= 0) {
+    return reject("invalid-timestamp", "Invalid timestamp in candle")
+  }
+
+  const date = new Date(timestamp)
+  if (isNaN(date.getTime())) {
+    return reject("invalid-timestamp", "Invalid date created from timestamp")
+  }
+
+  if (earliestDate && date < earliestDate) {
+    return reject("before-launch", "Date before data source launch")
+  }
+
+  const dailyVolatility = ((highPrice - lowPrice) / openPrice) * 100
+
+  return {
+    // The source's own (UTC) date; loadMarketData relabels candles for the configured trading day
+    date: date.toISOString().slice(0, 10),
+    openTime: timestamp,
+    open: openPrice,
+    high: highPrice,
+    low: lowPrice,
+    close: closePrice,
+    volume: volumeValue,
+    volatility: Math.max(0, dailyVolatility),
+    quoteAssetVolume: toOptionalNumber(raw.quoteAssetVolume),
+    numberOfTrades: toOptionalNumber(raw.numberOfTrades),
+    takerBuyBaseAssetVolume: toOptionalNumber(raw.takerBuyBaseAssetVolume),
+    takerBuyQuoteAssetVolume: toOptionalNumber(raw.takerBuyQuoteAssetVolume),
+  }
+}
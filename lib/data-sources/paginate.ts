@@ -0,0 +1,68 @@
+import type { FetchProgress, KlineInterval } from "@/types/market"
+import { expectedCandleCount } from "@/lib/data-sources/intervals"
+
+interface PaginateOptions<T> {
+  interval: KlineInterval
+  startTime: number
+  endTime: number
+  pageLimit: number
+  fetchPage: (cursor: number) => Promise<T[]>
+  getOpenTime: (row: T) => number
+  onProgress?: (progress: FetchProgress) => void
+  signal?: AbortSignal
+  // For sources queried by a start/end window instead of a start and a row limit: each page
+  // covers this long from the cursor, and a short page (e.g. a gap in trading) doesn't end the walk
+  windowMs?: number
+}
+
+// Walks a [startTime, endTime] range in pages of at most `pageLimit` rows, advancing the
+// cursor past the last open time seen. Rows are de-duplicated by open time and returned sorted.
+export async function fetchPaginated<T>({
+  interval,
+  startTime,
+  endTime,
+  pageLimit,
+  fetchPage,
+  getOpenTime,
+  onProgress,
+  signal,
+  windowMs,
+}: PaginateOptions<T>): Promise<T[]> {
+  const rowsByOpenTime = new Map<number, T>()
+  const expected = expectedCandleCount(interval, startTime, endTime)
+  let cursor = startTime
+  let pages = 0
+
+  while (cursor <= endTime) {
+    signal?.throwIfAborted()
+    const page = await fetchPage(cursor)
+    pages++
+
+    let lastOpenTime = cursor - 1
+    for (const row of page) {
+      const openTime = getOpenTime(row)
+      if (isNaN(openTime)) continue
+
+      lastOpenTime = Math.max(lastOpenTime, openTime)
+      if (openTime >= startTime && openTime <= endTime && !rowsByOpenTime.has(openTime)) {
+        rowsByOpenTime.set(openTime, row)
+      }
+    }
+
+    onProgress?.({ loaded: rowsByOpenTime.size, expected: Math.max(expected, rowsByOpenTime.size), pages })
+
+    if (windowMs) {
+      cursor += windowMs
+      continue
+    }
+
+    // A short page means the source has nothing further in this range
+    if (page.length < pageLimit || lastOpenTime < cursor) break
+
+    cursor = lastOpenTime + 1
+  }
+
+  return Array.from(rowsByOpenTime.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, row]) => row)
+}
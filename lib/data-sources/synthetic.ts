@@ -0,0 +1,60 @@
+import type { FetchKlinesParams, KlineInterval, MarketData, MarketDataSource, SymbolInfo } from "@/types/market"
+import {
+  generateSyntheticCandles,
+  SYNTHETIC_SOURCE_ID,
+  SYNTHETIC_START_DATE,
+  syntheticMarketStore,
+} from "@/lib/synthetic"
+import { aggregateCandles } from "@/lib/data-sources/dataset"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+// Serves markets generated from a seed with known effects planted (see lib/synthetic), so the
+// analysis can be checked against what it should find. Markets are generated hourly.
+export class SyntheticDataSource implements MarketDataSource {
+  readonly id = SYNTHETIC_SOURCE_ID
+  readonly name = "Synthetic"
+  readonly capabilities = {
+    intervals: ["1h", "4h", "1d"] as KlineInterval[],
+    maxKlinesPerRequest: Number.MAX_SAFE_INTEGER,
+    earliestDate: SYNTHETIC_START_DATE,
+  }
+
+  subscribeSymbols(listener: () => void): () => void {
+    return syntheticMarketStore.subscribe(listener)
+  }
+
+  async fetchKlines({ symbol, interval, startTime, endTime, onReject }: FetchKlinesParams): Promise<MarketData[]> {
+    const config = syntheticMarketStore.find(symbol)
+    if (!config) {
+      throw new Error(`Synthetic market ${symbol} no longer exists`)
+    }
+    if (!this.capabilities.intervals.includes(interval)) {
+      throw new Error(`Synthetic markets are generated hourly, too coarse for ${interval} candles`)
+    }
+
+    const intervalMs = KLINE_INTERVAL_MS[interval]
+    const firstOpenTime = Math.floor(startTime / intervalMs) * intervalMs
+    // Generate through the end of the last requested candle, so it isn't aggregated from part of its hours
+    const candles = generateSyntheticCandles(
+      config,
+      firstOpenTime + Math.ceil((endTime - firstOpenTime + 1) / intervalMs) * intervalMs - 1,
+    )
+    const inRange = candles.filter((candle) => candle.openTime >= firstOpenTime && candle.openTime <= endTime)
+    const rows = interval === "1h" ? inRange : aggregateCandles(inRange, intervalMs)
+
+    return rows
+      .map((row, index) => normalizeCandle(row, index, undefined, onReject))
+      .filter((item): item is MarketData => item !== null)
+  }
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    return syntheticMarketStore.getSnapshot().map((market) => ({
+      symbol: market.id,
+      baseAsset: market.name,
+      quoteAsset: "",
+      label: market.name,
+      status: "TRADING",
+    }))
+  }
+}
@@ -0,0 +1,340 @@
+import type { KlineInterval } from "@/types/market"
+import type { DatasetCandle } from "@/lib/datasets"
+import { normalizeCandle } from "@/lib/data-sources/normalize"
+import { KLINE_INTERVAL_LABELS, KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+// Reads OHLCV files (CSV or JSON) into candles for an imported dataset
+
+export interface ParsedTable {
+  columns: string[]
+  rows: string[][]
+  // Where the first row appears in the file, to point at rejected rows: line 2 of a CSV with a header
+  firstRow: number
+}
+
+export type OhlcvField = "date" | "open" | "high" | "low" | "close" | "volume"
+
+// Column index per field; volume is optional
+export type ColumnMapping = Record<OhlcvField, number | null>
+
+export type DateFormat = "iso" | "us" | "eu" | "dotted" | "unix-s" | "unix-ms"
+
+export const OHLCV_FIELDS: { value: OhlcvField; label: string; required: boolean }[] = [
+  { value: "date", label: "Date / Time", required: true },
+  { value: "open", label: "Open", required: true },
+  { value: "high", label: "High", required: true },
+  { value: "low", label: "Low", required: true },
+  { value: "close", label: "Close", required: true },
+  { value: "volume", label: "Volume", required: false },
+]
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: "iso", label: "ISO 8601 (2024-01-31)" },
+  { value: "us", label: "MM/DD/YYYY" },
+  { value: "eu", label: "DD/MM/YYYY" },
+  { value: "dotted", label: "DD.MM.YYYY" },
+  { value: "unix-s", label: "Unix seconds" },
+  { value: "unix-ms", label: "Unix milliseconds" },
+]
+
+// Header names recognized per field, checked in order so "close" wins over "adj close"
+const COLUMN_ALIASES: Record<OhlcvField, string[]> = {
+  date: ["date", "datetime", "timestamp", "time", "opentime", "day", "period"],
+  open: ["open", "o", "openprice"],
+  high: ["high", "h", "highprice", "max"],
+  low: ["low", "l", "lowprice", "min"],
+  close: ["close", "c", "closeprice", "last", "price", "adjclose"],
+  volume: ["volume", "vol", "v", "basevolume", "qty"],
+}
+
+const DATE_SAMPLE_SIZE = 50
+
+export interface ImportRejection {
+  // 1-based line of the file (for CSV) or position in the array (for JSON)
+  row: number
+  reason: string
+}
+
+export interface ImportResult {
+  candles: DatasetCandle[]
+  rejected: ImportRejection[]
+  // Rows sharing an open time with a later row, which replaced them
+  duplicates: number
+  interval: KlineInterval | null
+  // Why no interval could be determined
+  intervalError: string | null
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, "")
+
+function detectDelimiter(line: string): string {
+  const candidates = [",", ";", "\t", "|"]
+  return candidates.reduce((best, candidate) =>
+    line.split(candidate).length > line.split(best).length ? candidate : best,
+  )
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const delimiter = detectDelimiter(firstLine)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field.trim())
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field.trim())
+      if (row.some((value) => value !== "")) rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  row.push(field.trim())
+  if (row.some((value) => value !== "")) rows.push(row)
+
+  return rows
+}
+
+const toCell = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim())
+
+// Accepts an array of objects, an array of arrays, or an object holding either under some key
+// (e.g. { "data": [...] })
+function parseJson(text: string): ParsedTable {
+  const json = JSON.parse(text)
+  const records = Array.isArray(json) ? json : Object.values(json ?? {}).find(Array.isArray)
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new Error("The JSON file holds no array of rows")
+  }
+
+  if (records.every(Array.isArray)) {
+    const width = records.reduce((max, record) => Math.max(max, record.length), 0)
+    return {
+      columns: Array.from({ length: width }, (_, index) => `Column ${index + 1}`),
+      rows: records.map((record) => record.map(toCell)),
+      firstRow: 1,
+    }
+  }
+
+  const columns = [
+    ...new Set(records.flatMap((record) => (record && typeof record === "object" ? Object.keys(record) : []))),
+  ]
+  if (columns.length === 0) throw new Error("The JSON rows are neither objects nor arrays")
+  return { columns, rows: records.map((record) => columns.map((column) => toCell(record?.[column]))), firstRow: 1 }
+}
+
+export function parseOhlcvFile(fileName: string, text: string): ParsedTable {
+  const trimmed = text.replace(/^\uFEFF/, "").trim()
+  if (!trimmed) throw new Error("The file is empty")
+
+  if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    return parseJson(trimmed)
+  }
+
+  const [header, ...rows] = parseCsv(trimmed)
+  if (!header || rows.length === 0) throw new Error("The CSV file needs a header row and at least one data row")
+  return { columns: header.map((column, index) => column || `Column ${index + 1}`), rows, firstRow: 2 }
+}
+
+export function detectColumnMapping(columns: string[]): ColumnMapping {
+  const headers = columns.map(normalizeHeader)
+  const used = new Set<number>()
+
+  const mapping = {} as ColumnMapping
+  OHLCV_FIELDS.forEach(({ value: field }) => {
+    const alias = COLUMN_ALIASES[field].find((name) => headers.some((header, i) => header === name && !used.has(i)))
+    const index = alias === undefined ? -1 : headers.findIndex((header, i) => header === alias && !used.has(i))
+    mapping[field] = index === -1 ? null : index
+    if (index !== -1) used.add(index)
+  })
+
+  // Headerless rows (e.g. JSON arrays of arrays) are usually [time, open, high, low, close, volume]
+  if (Object.values(mapping).every((index) => index === null) && columns.length >= 5) {
+    return { date: 0, open: 1, high: 2, low: 3, close: 4, volume: columns.length > 5 ? 5 : null }
+  }
+  return mapping
+}
+
+const isValidDate = (year: number, month: number, day: number) =>
+  month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+// "HH:mm" or "HH:mm:ss" after the date, if any
+function parseTimeOfDay(value: string | undefined): number | null {
+  if (!value) return 0
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/.exec(value)
+  if (!match) return null
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)]
+  return hours < 24 && minutes < 60 && seconds < 60 ? ((hours * 60 + minutes) * 60 + seconds) * 1000 : null
+}
+
+function parseDayFirstOrMonthFirst(value: string, separator: string, dayFirst: boolean): number | null {
+  const [datePart, timePart, ...rest] = value.split(/[\sT]+/)
+  if (rest.length > 0) return null
+  const parts = datePart.split(separator)
+  if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) return null
+
+  const [first, second, year] = parts.map(Number)
+  const [day, month] = dayFirst ? [first, second] : [second, first]
+  if (parts[2].length !== 4 || !isValidDate(year, month, day)) return null
+
+  const time = parseTimeOfDay(timePart)
+  return time === null ? null : Date.UTC(year, month - 1, day) + time
+}
+
+// Dates and times without a zone are read as UTC, so a daily series keeps the dates written in the file
+export function parseDateValue(value: string, format: DateFormat): number | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  switch (format) {
+    case "unix-s":
+    case "unix-ms": {
+      if (!/^\d+(\.\d+)?$/.test(trimmed)) return null
+      const time = Number(trimmed) * (format === "unix-s" ? 1000 : 1)
+      // Anything outside 1970-2100 means the unit is wrong
+      return time > 0 && time < Date.UTC(2100, 0, 1) ? Math.round(time) : null
+    }
+    case "iso": {
+      const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](.+))?$/.exec(trimmed)
+      if (!match) return null
+      const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+      if (!isValidDate(year, month, day)) return null
+      if (!match[4]) return Date.UTC(year, month - 1, day)
+
+      const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(match[4])
+      const time = Date.parse(`${match[1]}-${match[2]}-${match[3]}T${match[4]}${hasZone ? "" : "Z"}`)
+      return isNaN(time) ? null : time
+    }
+    case "us":
+      return parseDayFirstOrMonthFirst(trimmed, "/", false)
+    case "eu":
+      return parseDayFirstOrMonthFirst(trimmed, "/", true)
+    case "dotted":
+      return parseDayFirstOrMonthFirst(trimmed, ".", true)
+  }
+}
+
+// Picks the format that reads the most sampled values, so a stray malformed row doesn't hide it.
+// Ambiguous dates (e.g. 01/02/2024) read as US; the import dialog lets the user switch.
+export function detectDateFormat(values: string[]): DateFormat | null {
+  const sample = values.filter((value) => value.trim() !== "").slice(0, DATE_SAMPLE_SIZE)
+  if (sample.length === 0) return null
+
+  const unitFor = (value: string) => (Number(value) >= 1e11 ? "unix-ms" : "unix-s")
+  const candidates: DateFormat[] = ["iso", unitFor(sample[0]), "us", "eu", "dotted"]
+  const counts = candidates.map((format) => sample.filter((value) => parseDateValue(value, format) !== null).length)
+  const best = counts.indexOf(Math.max(...counts))
+  return counts[best] > 0 ? candidates[best] : null
+}
+
+// Tolerates thousands separators, e.g. "1,234.50" in a quoted CSV field, and decimal commas as
+// written by European spreadsheets, e.g. "0,5". A blank cell is NaN, not the 0 Number("") gives.
+function parseNumber(value: string): number {
+  const compact = value.replace(/\s/g, "")
+  if (compact === "") return NaN
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(compact)) return Number(compact.replace(/,/g, ""))
+  if (/^-?\d+,\d+$/.test(compact)) return Number(compact.replace(",", "."))
+  return Number(compact)
+}
+
+// The typical spacing between consecutive candles. The median ignores weekends and holidays in
+// daily series and the odd gap in intraday ones.
+function detectInterval(openTimes: number[]): { interval: KlineInterval | null; intervalError: string | null } {
+  if (openTimes.length < 2)
+    return { interval: null, intervalError: "At least two rows are needed to tell the interval" }
+
+  const spacings = openTimes
+    .slice(1)
+    .map((time, index) => time - openTimes[index])
+    .sort((a, b) => a - b)
+  const median = spacings[Math.floor((spacings.length - 1) / 2)]
+  const interval = (Object.keys(KLINE_INTERVAL_MS) as KlineInterval[]).find((key) => KLINE_INTERVAL_MS[key] === median)
+
+  if (interval && openTimes.every((time) => time % KLINE_INTERVAL_MS[interval] === 0)) {
+    return { interval, intervalError: null }
+  }
+  const supported = Object.values(KLINE_INTERVAL_LABELS).join(", ")
+  return {
+    interval: null,
+    intervalError: interval
+      ? `Candles must start on whole ${KLINE_INTERVAL_LABELS[interval]} periods (UTC)`
+      : `Rows are ${Math.round(median / 60000)} minutes apart; supported intervals are ${supported}`,
+  }
+}
+
+// Converts the mapped rows into sorted candles, validated by the same rules as exchange candles
+export function buildImport(table: ParsedTable, mapping: ColumnMapping, dateFormat: DateFormat): ImportResult {
+  const rejected: ImportRejection[] = []
+  const byOpenTime = new Map<number, DatasetCandle>()
+  let duplicates = 0
+
+  const cell = (row: string[], field: OhlcvField) => {
+    const index = mapping[field]
+    return index === null ? "" : (row[index] ?? "")
+  }
+
+  table.rows.forEach((row, index) => {
+    const line = table.firstRow + index
+    const openTime = parseDateValue(cell(row, "date"), dateFormat)
+    if (openTime === null) {
+      rejected.push({ row: line, reason: `Unrecognized date "${cell(row, "date")}"` })
+      return
+    }
+
+    // Named here rather than left to validation, which would call a blank price non-positive
+    const blank = (["open", "high", "low", "close", "volume"] as const).filter(
+      (field) => mapping[field] !== null && cell(row, field).trim() === "",
+    )
+    if (blank.length > 0) {
+      const columns = blank.map((field) => `"${table.columns[mapping[field] as number] ?? field}"`).join(", ")
+      rejected.push({ row: line, reason: `Missing value in ${columns}` })
+      return
+    }
+
+    const raw = {
+      openTime,
+      open: parseNumber(cell(row, "open")),
+      high: parseNumber(cell(row, "high")),
+      low: parseNumber(cell(row, "low")),
+      close: parseNumber(cell(row, "close")),
+      // Series without volume (e.g. FX rates or indices) are kept with zero volume
+      volume: mapping.volume === null ? 0 : parseNumber(cell(row, "volume")),
+    }
+    const candle = normalizeCandle(raw, index, undefined, (rejection) =>
+      rejected.push({ row: line, reason: rejection.detail }),
+    )
+    if (!candle) return
+
+    if (byOpenTime.has(openTime)) duplicates++
+    byOpenTime.set(openTime, {
+      openTime,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    })
+  })
+
+  const candles = [...byOpenTime.values()].sort((a, b) => a.openTime - b.openTime)
+  return { candles, rejected, duplicates, ...detectInterval(candles.map((candle) => candle.openTime)) }
+}
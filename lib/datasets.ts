@@ -0,0 +1,187 @@
+import type { KlineInterval } from "@/types/market"
+import { requestToPromise, transactionDone } from "@/lib/kline-cache"
+import { parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+
+const DB_NAME = "market-explorer-datasets"
+const DB_VERSION = 1
+const DATASET_STORE = "datasets"
+const SERIES_STORE = "series"
+
+// The exchange prefix of imported datasets in qualified symbols, e.g. "dataset:SPX_M2K4QZ"
+export const DATASET_SOURCE_ID = "dataset"
+
+export interface DatasetCandle {
+  openTime: number
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface DatasetInfo {
+  id: string
+  name: string
+  interval: KlineInterval
+  rows: number
+  firstOpenTime: number
+  lastOpenTime: number
+  fileName: string
+  importedAt: number
+}
+
+interface StoredSeries {
+  id: string
+  candles: DatasetCandle[]
+}
+
+const EMPTY: DatasetInfo[] = []
+
+// Ids double as symbols, so they are upper-case and long enough for the symbol checks in the hooks.
+// The import time keeps a re-imported dataset from inheriting anything cached for an earlier one.
+function createDatasetId(name: string): string {
+  const slug =
+    name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "")
+      .slice(0, 12) || "DATASET"
+  return `${slug}_${Date.now().toString(36).toUpperCase()}`
+}
+
+// Imported OHLCV series, kept in IndexedDB. The list of datasets is an external store for
+// useSyncExternalStore; candles are read on demand and held in memory once read.
+class DatasetStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private datasets: DatasetInfo[] = EMPTY
+  private loadPromise: Promise<DatasetInfo[]> | null = null
+  private series = new Map<string, Promise<DatasetCandle[]>>()
+  private listeners = new Set<() => void>()
+
+  isAvailable(): boolean {
+    return typeof window !== "undefined" && "indexedDB" in window
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          db.createObjectStore(DATASET_STORE, { keyPath: "id" })
+          db.createObjectStore(SERIES_STORE, { keyPath: "id" })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  getSnapshot = (): DatasetInfo[] => this.datasets
+
+  getServerSnapshot = (): DatasetInfo[] => EMPTY
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    this.load().catch((error) => console.warn("Failed to load imported datasets:", error))
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Only valid once the list has loaded, which any mounted dataset picker triggers
+  find(id: string): DatasetInfo | undefined {
+    return this.datasets.find((dataset) => dataset.id === id)
+  }
+
+  load(): Promise<DatasetInfo[]> {
+    if (!this.isAvailable()) return Promise.resolve(EMPTY)
+    if (!this.loadPromise) {
+      this.loadPromise = this.open()
+        .then((db) => {
+          const store = db.transaction(DATASET_STORE, "readonly").objectStore(DATASET_STORE)
+          return requestToPromise(store.getAll() as IDBRequest<DatasetInfo[]>)
+        })
+        .then((datasets) => {
+          this.setDatasets(datasets)
+          return this.datasets
+        })
+      this.loadPromise.catch(() => {
+        this.loadPromise = null
+      })
+    }
+    return this.loadPromise
+  }
+
+  async get(id: string): Promise<DatasetInfo | undefined> {
+    await this.load()
+    return this.find(id)
+  }
+
+  getCandles(id: string): Promise<DatasetCandle[]> {
+    let candles = this.series.get(id)
+    if (!candles) {
+      candles = this.open().then(async (db) => {
+        const store = db.transaction(SERIES_STORE, "readonly").objectStore(SERIES_STORE)
+        const stored = await requestToPromise(store.get(id) as IDBRequest<StoredSeries | undefined>)
+        return stored?.candles ?? []
+      })
+      this.series.set(id, candles)
+      candles.catch(() => this.series.delete(id))
+    }
+    return candles
+  }
+
+  async save(name: string, interval: KlineInterval, candles: DatasetCandle[], fileName: string): Promise<DatasetInfo> {
+    if (candles.length === 0) throw new Error("A dataset needs at least one candle")
+    await this.load()
+
+    const info: DatasetInfo = {
+      id: createDatasetId(name),
+      name,
+      interval,
+      rows: candles.length,
+      firstOpenTime: candles[0].openTime,
+      lastOpenTime: candles[candles.length - 1].openTime,
+      fileName,
+      importedAt: Date.now(),
+    }
+
+    const db = await this.open()
+    const transaction = db.transaction([DATASET_STORE, SERIES_STORE], "readwrite")
+    transaction.objectStore(DATASET_STORE).put(info)
+    transaction.objectStore(SERIES_STORE).put({ id: info.id, candles } satisfies StoredSeries)
+    await transactionDone(transaction)
+
+    this.series.set(info.id, Promise.resolve(candles))
+    this.setDatasets([...this.datasets, info])
+    return info
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction([DATASET_STORE, SERIES_STORE], "readwrite")
+    transaction.objectStore(DATASET_STORE).delete(id)
+    transaction.objectStore(SERIES_STORE).delete(id)
+    await transactionDone(transaction)
+
+    this.series.delete(id)
+    this.setDatasets(this.datasets.filter((dataset) => dataset.id !== id))
+  }
+
+  private setDatasets(datasets: DatasetInfo[]): void {
+    this.datasets = [...datasets].sort((a, b) => a.name.localeCompare(b.name))
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const datasetStore = new DatasetStore()
+
+// The imported dataset a possibly qualified symbol names, if it is one and the list has loaded
+export function findDatasetBySymbol(value: string): DatasetInfo | undefined {
+  const { exchange, symbol } = parseExchangeSymbol(value)
+  return exchange === DATASET_SOURCE_ID ? datasetStore.find(symbol) : undefined
+}
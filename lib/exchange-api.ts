@@ -0,0 +1,152 @@
+// HTTP helpers for the exchanges other than Binance, whose public APIs are far simpler to budget
+
+import { USE_MARKET_DATA_PROXY } from "@/lib/binance-api"
+
+export type ExchangeId = "coinbase" | "kraken" | "bybit"
+
+export const EXCHANGE_NAMES: Record<ExchangeId, string> = {
+  coinbase: "Coinbase Exchange",
+  kraken: "Kraken",
+  bybit: "Bybit",
+}
+
+export const EXCHANGE_DEFAULT_BASE_URLS: Record<ExchangeId, string> = {
+  coinbase: "https://api.exchange.coinbase.com",
+  kraken: "https://api.kraken.com",
+  bybit: "https://api.bybit.com",
+}
+
+// Each can point at the local mock server (see scripts/mock-binance), which serves all of them
+export const EXCHANGE_BASE_URLS: Record<ExchangeId, string> = {
+  coinbase: process.env.NEXT_PUBLIC_COINBASE_BASE_URL || EXCHANGE_DEFAULT_BASE_URLS.coinbase,
+  kraken: process.env.NEXT_PUBLIC_KRAKEN_BASE_URL || EXCHANGE_DEFAULT_BASE_URLS.kraken,
+  bybit: process.env.NEXT_PUBLIC_BYBIT_BASE_URL || EXCHANGE_DEFAULT_BASE_URLS.bybit,
+}
+
+interface ExchangeEndpoint {
+  path: RegExp
+  // Symbol lists change rarely and are cached much longer by the proxy
+  catalog?: boolean
+}
+
+// The public endpoints the adapters read. The proxy route forwards these and nothing else.
+export const EXCHANGE_ENDPOINTS: Record<ExchangeId, ExchangeEndpoint[]> = {
+  coinbase: [{ path: /^\/products$/, catalog: true }, { path: /^\/products\/[A-Z0-9]+-[A-Z0-9]+\/candles$/ }],
+  kraken: [{ path: /^\/0\/public\/AssetPairs$/, catalog: true }, { path: /^\/0\/public\/OHLC$/ }],
+  bybit: [{ path: /^\/v5\/market\/instruments-info$/, catalog: true }, { path: /^\/v5\/market\/kline$/ }],
+}
+
+// Spacing between requests that keeps well inside each exchange's public rate limit
+const MIN_REQUEST_SPACING_MS: Record<ExchangeId, number> = {
+  coinbase: 150,
+  kraken: 1000,
+  bybit: 100,
+}
+
+const MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 1000
+
+export const isExchangeId = (value: string): value is ExchangeId => value in EXCHANGE_DEFAULT_BASE_URLS
+
+export const findExchangeEndpoint = (exchange: ExchangeId, path: string): ExchangeEndpoint | undefined =>
+  EXCHANGE_ENDPOINTS[exchange].find((endpoint) => endpoint.path.test(path))
+
+// In the browser requests go through this app's proxy route (app/api/exchanges), as most of these
+// APIs don't allow cross-origin requests
+export function getExchangeRequestBaseUrl(exchange: ExchangeId): string {
+  return USE_MARKET_DATA_PROXY && typeof window !== "undefined"
+    ? `/api/exchanges/${exchange}`
+    : EXCHANGE_BASE_URLS[exchange]
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort)
+      resolve()
+    }, ms)
+    const handleAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true })
+  })
+
+// Requests to one exchange are sent one after another, at least the exchange's spacing apart
+const requestQueues = new Map<ExchangeId, Promise<void>>()
+const lastRequestAt = new Map<ExchangeId, number>()
+
+function waitForTurn(exchange: ExchangeId, signal?: AbortSignal): Promise<void> {
+  const turn = (requestQueues.get(exchange) ?? Promise.resolve()).then(async () => {
+    const wait = (lastRequestAt.get(exchange) ?? 0) + MIN_REQUEST_SPACING_MS[exchange] - Date.now()
+    if (wait > 0) await sleep(wait, signal)
+    lastRequestAt.set(exchange, Date.now())
+  })
+  requestQueues.set(
+    exchange,
+    turn.catch(() => {}),
+  )
+  return turn
+}
+
+// Each exchange reports errors in its own field; Kraken and Bybit also do so on HTTP 200
+export function readExchangeError(body: unknown): string | null {
+  if (typeof body !== "object" || body === null) return null
+  const { message, retMsg, msg, error } = body as Record<string, unknown>
+  // Coinbase
+  if (typeof message === "string") return message
+  // Bybit
+  if (typeof retMsg === "string") return retMsg
+  // Binance
+  if (typeof msg === "string") return msg
+  // Kraken: a list of messages, empty on success
+  if (Array.isArray(error)) {
+    const messages = error.filter((entry): entry is string => typeof entry === "string")
+    if (messages.length > 0) return messages.join(", ")
+  }
+  return null
+}
+
+interface FetchExchangeOptions {
+  signal?: AbortSignal
+  baseUrl?: string
+}
+
+export async function fetchExchangeAPI(
+  exchange: ExchangeId,
+  path: string,
+  params: Record<string, string | number> = {},
+  { signal, baseUrl = getExchangeRequestBaseUrl(exchange) }: FetchExchangeOptions = {},
+): Promise<any> {
+  // A relative base URL addresses this app's own API routes
+  const base = baseUrl.replace(/\/+$/, "")
+  const url = new URL(base + path, base.startsWith("/") ? window.location.origin : undefined)
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value.toString())
+  })
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForTurn(exchange, signal)
+
+    const response = await fetch(url.toString(), { headers: { Accept: "application/json" }, signal })
+
+    if ((response.status === 429 || response.status === 503) && attempt < MAX_RETRIES) {
+      const retryAfter = Number.parseInt(response.headers.get("Retry-After") ?? "", 10)
+      const delay = isNaN(retryAfter) ? BASE_BACKOFF_MS * Math.pow(2, attempt) : retryAfter * 1000
+      console.warn(`${EXCHANGE_NAMES[exchange]} rate limit hit (HTTP ${response.status}), retrying in ${delay}ms`)
+      await sleep(delay, signal)
+      continue
+    }
+
+    if (!response.ok) {
+      let errorMessage = `${EXCHANGE_NAMES[exchange]} API error: ${response.status} ${response.statusText}`
+      try {
+        const message = readExchangeError(await response.json())
+        if (message) errorMessage = `${EXCHANGE_NAMES[exchange]} API: ${message}`
+      } catch {}
+      throw new Error(errorMessage)
+    }
+
+    return response.json()
+  }
+}
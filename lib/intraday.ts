@@ -0,0 +1,55 @@
+import type { MarketData } from "@/types/market"
+import { getZonedHourAndWeekday } from "@/lib/trading-day"
+
+export type HeatmapMetric = "volatility" | "volume" | "return"
+
+export interface HeatmapCell {
+  weekday: number
+  hour: number
+  count: number
+  avgVolatility: number
+  avgVolume: number
+  avgReturn: number
+}
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+// Aggregates intraday candles into a 7 x 24 grid keyed by weekday and hour of the candle open
+// in the given zone. Buckets without candles (e.g. odd hours at 4h resolution) have count 0.
+export function buildHourWeekdayHeatmap(data: MarketData[], timeZone = "UTC"): HeatmapCell[][] {
+  const grid: HeatmapCell[][] = Array.from({ length: 7 }, (_, weekday) =>
+    Array.from({ length: 24 }, (_, hour) => ({
+      weekday,
+      hour,
+      count: 0,
+      avgVolatility: 0,
+      avgVolume: 0,
+      avgReturn: 0,
+    })),
+  )
+
+  data.forEach((item) => {
+    const { weekday, hour } = getZonedHourAndWeekday(item.openTime, timeZone)
+    const cell = grid[weekday][hour]
+    const performance = ((item.close - item.open) / item.open) * 100
+
+    // Running means keep the grid in a single pass
+    cell.count++
+    cell.avgVolatility += (item.volatility - cell.avgVolatility) / cell.count
+    cell.avgVolume += (item.volume - cell.avgVolume) / cell.count
+    cell.avgReturn += (performance - cell.avgReturn) / cell.count
+  })
+
+  return grid
+}
+
+export function getHeatmapValue(cell: HeatmapCell, metric: HeatmapMetric): number {
+  switch (metric) {
+    case "volatility":
+      return cell.avgVolatility
+    case "volume":
+      return cell.avgVolume
+    case "return":
+      return cell.avgReturn
+  }
+}
@@ -0,0 +1,112 @@
+import type { KlineInterval, MarketData, RejectedCandle } from "@/types/market"
+
+const DB_NAME = "market-explorer-klines"
+// Bump when the cached candle shape changes; older stores are dropped on upgrade
+const DB_VERSION = 3
+const CANDLE_STORE = "candles"
+
+export interface CachedCandle {
+  sourceId: string
+  symbol: string
+  interval: KlineInterval
+  openTime: number
+  // null marks a closed period the source had no candle for, so it is not refetched
+  candle: MarketData | null
+  // Why the source's row for this period was rejected, so the data-quality report survives caching
+  rejection?: RejectedCandle
+  closed: boolean
+  cachedAt: number
+}
+
+export interface KlineCacheStats {
+  candles: number
+  usageBytes: number | null
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+export class KlineCache {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  isAvailable(): boolean {
+    return typeof window !== "undefined" && "indexedDB" in window
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (db.objectStoreNames.contains(CANDLE_STORE)) {
+            db.deleteObjectStore(CANDLE_STORE)
+          }
+          db.createObjectStore(CANDLE_STORE, { keyPath: ["sourceId", "symbol", "interval", "openTime"] })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Allow a later call to retry if opening failed (e.g. blocked in private browsing)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  async getRange(
+    sourceId: string,
+    symbol: string,
+    interval: KlineInterval,
+    startTime: number,
+    endTime: number,
+  ): Promise<CachedCandle[]> {
+    const db = await this.open()
+    const store = db.transaction(CANDLE_STORE, "readonly").objectStore(CANDLE_STORE)
+    const range = IDBKeyRange.bound([sourceId, symbol, interval, startTime], [sourceId, symbol, interval, endTime])
+    return requestToPromise(store.getAll(range) as IDBRequest<CachedCandle[]>)
+  }
+
+  async putMany(entries: CachedCandle[]): Promise<void> {
+    if (entries.length === 0) return
+    const db = await this.open()
+    const transaction = db.transaction(CANDLE_STORE, "readwrite")
+    const store = transaction.objectStore(CANDLE_STORE)
+    entries.forEach((entry) => store.put(entry))
+    await transactionDone(transaction)
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(CANDLE_STORE, "readwrite")
+    transaction.objectStore(CANDLE_STORE).clear()
+    await transactionDone(transaction)
+  }
+
+  async getStats(): Promise<KlineCacheStats> {
+    const db = await this.open()
+    const store = db.transaction(CANDLE_STORE, "readonly").objectStore(CANDLE_STORE)
+    const candles = await requestToPromise(store.count())
+
+    let usageBytes: number | null = null
+    if (typeof navigator !== "undefined" && navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate()
+      usageBytes = estimate.usage ?? null
+    }
+
+    return { candles, usageBytes }
+  }
+}
+
+export const klineCache = new KlineCache()
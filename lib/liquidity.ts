@@ -0,0 +1,119 @@
+import type { LiquidityMetrics, MarketData, MarketMetrics, OrderBookSnapshot } from "@/types/market"
+
+// Amihud is quoted per $1M traded so values land in a readable range for liquid pairs
+const AMIHUD_VOLUME_UNIT = 1e6
+const CORWIN_SCHULTZ_DENOMINATOR = 3 - 2 * Math.sqrt(2)
+
+export const DEPTH_BANDS_PERCENT = [0.1, 0.5, 1, 2]
+
+export interface LiquiditySummary {
+  amihud: number | null
+  spread: number | null
+  // Average quote turnover per candle
+  turnover: number
+}
+
+export interface DepthBand {
+  percent: number
+  bidNotional: number
+  askNotional: number
+}
+
+export interface DepthSummary {
+  midPrice: number
+  // Quoted best bid/ask spread in percent of the mid price
+  spread: number
+  bands: DepthBand[]
+}
+
+const quoteTurnover = (item: MarketData): number => item.quoteAssetVolume ?? item.volume * item.close
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+// Corwin & Schultz (2012): separates the spread from volatility by comparing the high-low
+// range of two single candles with the range of both together. Negative estimates are set to 0.
+function corwinSchultzSpread(previous: MarketData, current: MarketData): number {
+  const beta = Math.pow(Math.log(previous.high / previous.low), 2) + Math.pow(Math.log(current.high / current.low), 2)
+  const gamma = Math.pow(Math.log(Math.max(previous.high, current.high) / Math.min(previous.low, current.low)), 2)
+  const alpha =
+    (Math.sqrt(2 * beta) - Math.sqrt(beta)) / CORWIN_SCHULTZ_DENOMINATOR - Math.sqrt(gamma / CORWIN_SCHULTZ_DENOMINATOR)
+  const spread = (2 * (Math.exp(alpha) - 1)) / (1 + Math.exp(alpha))
+  return Math.max(0, spread) * 100
+}
+
+// Attaches liquidity metrics to each candle. The first candle has no predecessor, so its
+// Amihud ratio uses the open-to-close return and it gets no spread estimate.
+export function applyLiquidityMetrics(data: MarketData[]): MarketData[] {
+  return data.map((item, index) => {
+    const previous = index > 0 ? data[index - 1] : undefined
+    const turnover = quoteTurnover(item)
+    const reference = previous?.close ?? item.open
+    const absoluteReturn = Math.abs((item.close - reference) / reference) * 100
+
+    const liquidity: LiquidityMetrics = {
+      amihud: turnover > 0 ? absoluteReturn / (turnover / AMIHUD_VOLUME_UNIT) : null,
+      spread: previous ? corwinSchultzSpread(previous, item) : null,
+      turnover,
+    }
+
+    return { ...item, liquidity }
+  })
+}
+
+export function summarizeLiquidity(items: MarketData[]): LiquiditySummary | null {
+  const withLiquidity = items.filter((item) => item.liquidity)
+  if (withLiquidity.length === 0) return null
+
+  const metrics = withLiquidity.map((item) => item.liquidity as LiquidityMetrics)
+  return {
+    amihud: average(metrics.map((metric) => metric.amihud).filter((value): value is number => value !== null)),
+    spread: average(metrics.map((metric) => metric.spread).filter((value): value is number => value !== null)),
+    turnover: average(metrics.map((metric) => metric.turnover)) ?? 0,
+  }
+}
+
+export function getMarketMetrics(items: MarketData[]): MarketMetrics | null {
+  if (items.length === 0) return null
+
+  const first = items[0]
+  const last = items[items.length - 1]
+  return {
+    volatility: items.reduce((sum, item) => sum + item.volatility, 0) / items.length,
+    volume: items.reduce((sum, item) => sum + item.volume, 0),
+    performance: ((last.close - first.open) / first.open) * 100,
+    liquidity: average(items.map(quoteTurnover)) ?? 0,
+  }
+}
+
+// Sums resting quote notional within each band around the mid price
+export function summarizeOrderBook(book: OrderBookSnapshot): DepthSummary | null {
+  const bestBid = book.bids[0]?.[0]
+  const bestAsk = book.asks[0]?.[0]
+  if (!bestBid || !bestAsk) return null
+
+  const midPrice = (bestBid + bestAsk) / 2
+  const notionalWithin = (levels: [number, number][], limit: (price: number) => boolean) =>
+    levels.filter(([price]) => limit(price)).reduce((sum, [price, quantity]) => sum + price * quantity, 0)
+
+  return {
+    midPrice,
+    spread: ((bestAsk - bestBid) / midPrice) * 100,
+    bands: DEPTH_BANDS_PERCENT.map((percent) => ({
+      percent,
+      bidNotional: notionalWithin(book.bids, (price) => price >= midPrice * (1 - percent / 100)),
+      askNotional: notionalWithin(book.asks, (price) => price <= midPrice * (1 + percent / 100)),
+    })),
+  }
+}
+
+export function formatAmihud(value: number): string {
+  return value >= 1 ? value.toFixed(2) : value.toPrecision(2)
+}
+
+export function formatNotional(value: number): string {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`
+  return `$${value.toFixed(0)}`
+}
@@ -0,0 +1,157 @@
+import type { MarketData, TradingCalendar } from "@/types/market"
+import { getDaysInMonth } from "date-fns"
+import { parseTradingDate, shiftDateLabel } from "@/lib/trading-day"
+import { filterTradingDays, isTradingDate } from "@/lib/trading-calendar"
+import {
+  benjaminiHochberg,
+  hedgesG,
+  mean,
+  meanConfidenceInterval,
+  welchTTest,
+  type TTestResult,
+} from "@/lib/statistics"
+
+export type MonthDayMetric = "return" | "range" | "volume"
+
+// "calendar" buckets days by their date, 1-31; "turn" by trading days around the month end
+export type MonthDayMode = "calendar" | "turn"
+
+export const MONTH_DAY_METRICS: { value: MonthDayMetric; label: string; description: string }[] = [
+  { value: "return", label: "Returns", description: "Close to close return from the previous trading day, in percent" },
+  { value: "range", label: "Volatility", description: "The day's high-low range as a percent of its open" },
+  { value: "volume", label: "Volume", description: "Volume as a percent of its month's average trading day" },
+]
+
+export const MONTH_DAY_MODES: { value: MonthDayMode; label: string }[] = [
+  { value: "calendar", label: "Day 1-31" },
+  { value: "turn", label: "Turn of month" },
+]
+
+// Trading days either side of the month end in the turn-of-month profile
+export const TURN_OF_MONTH_WINDOW = 3
+
+// A day of the month (1-31), or a trading day offset from the month end: T-1 is a month's last
+// trading day and T+1 the next month's first, so there is no T0
+export interface MonthDayBucket {
+  mode: MonthDayMode
+  value: number
+}
+
+export interface MonthDayEffect {
+  bucket: MonthDayBucket
+  days: number
+  mean: number
+  // 95% confidence interval of the mean
+  confidenceInterval: [number, number]
+  // This bucket against all other trading days
+  difference: number
+  test: TTestResult
+  // Benjamini-Hochberg adjusted across the buckets of the profile
+  adjustedPValue: number
+  effectSize: number
+}
+
+interface MonthDaySample {
+  dayOfMonth: number
+  turnOffset: number | null
+  return: number
+  range: number
+  volume: number
+}
+
+export const formatMonthDayBucket = (bucket: MonthDayBucket): string =>
+  bucket.mode === "calendar" ? `Day ${bucket.value}` : `T${bucket.value > 0 ? "+" : ""}${bucket.value}`
+
+export const isSameMonthDayBucket = (a: MonthDayBucket | null, b: MonthDayBucket | null): boolean =>
+  a !== null && b !== null && a.mode === b.mode && a.value === b.value
+
+const countTradingDates = (calendar: TradingCalendar, first: string, last: string): number => {
+  let count = 0
+  for (let date = first; date <= last; date = shiftDateLabel(date, 1)) {
+    if (isTradingDate(calendar, date)) count++
+  }
+  return count
+}
+
+// The date's trading day offset from the nearest month end, or null outside the window. Counted on
+// the trading calendar rather than the data, so a missing candle doesn't shift its neighbours.
+export function getTurnOfMonthOffset(
+  calendar: TradingCalendar,
+  date: string,
+  window = TURN_OF_MONTH_WINDOW,
+): number | null {
+  if (!isTradingDate(calendar, date)) return null
+  const month = date.slice(0, 8)
+  const fromStart = countTradingDates(calendar, `${month}01`, date)
+  if (fromStart <= window) return fromStart
+  const toEnd = countTradingDates(calendar, date, `${month}${getDaysInMonth(parseTradingDate(date))}`)
+  return toEnd <= window ? -toEnd : null
+}
+
+export function matchesMonthDayBucket(calendar: TradingCalendar, date: string, bucket: MonthDayBucket): boolean {
+  if (bucket.mode === "calendar") return Number(date.slice(8, 10)) === bucket.value
+  return getTurnOfMonthOffset(calendar, date) === bucket.value
+}
+
+// Returns are taken against the previous candle like the weekday profile; volume is relative to
+// its own month so that volume growing over the years doesn't swamp the profile
+function buildSamples(data: MarketData[], calendar: TradingCalendar): MonthDaySample[] {
+  const days = [...filterTradingDays(data, calendar)].sort((a, b) => a.date.localeCompare(b.date))
+
+  const monthVolumes = new Map<string, number[]>()
+  days.forEach((item) => {
+    const month = item.date.slice(0, 7)
+    monthVolumes.set(month, [...(monthVolumes.get(month) ?? []), item.volume])
+  })
+  const monthAverages = new Map([...monthVolumes.entries()].map(([month, volumes]) => [month, mean(volumes)]))
+
+  return days.slice(1).map((item, index) => {
+    const monthAverage = monthAverages.get(item.date.slice(0, 7)) ?? 0
+    return {
+      dayOfMonth: Number(item.date.slice(8, 10)),
+      turnOffset: getTurnOfMonthOffset(calendar, item.date),
+      return: ((item.close - days[index].close) / days[index].close) * 100,
+      range: ((item.high - item.low) / item.open) * 100,
+      volume: monthAverage > 0 ? (item.volume / monthAverage) * 100 : NaN,
+    }
+  })
+}
+
+const getBuckets = (mode: MonthDayMode): MonthDayBucket[] =>
+  mode === "calendar"
+    ? Array.from({ length: 31 }, (_, index) => ({ mode, value: index + 1 }))
+    : [
+        ...Array.from({ length: TURN_OF_MONTH_WINDOW }, (_, index) => ({ mode, value: index - TURN_OF_MONTH_WINDOW })),
+        ...Array.from({ length: TURN_OF_MONTH_WINDOW }, (_, index) => ({ mode, value: index + 1 })),
+      ]
+
+// Per day of the month, or per trading day around the month end, how the metric compares with the
+// other trading days: mean with its confidence interval, and a Welch t-test and Hedges' g against the
+// rest. With up to 31 buckets some reach p < 0.05 by chance, so p-values also come adjusted.
+export function analyzeMonthDayEffects(
+  data: MarketData[],
+  calendar: TradingCalendar,
+  mode: MonthDayMode,
+  metric: MonthDayMetric,
+): MonthDayEffect[] {
+  const samples = buildSamples(data, calendar).filter((sample) => !isNaN(sample[metric]))
+  const inBucket = (sample: MonthDaySample, bucket: MonthDayBucket) =>
+    (mode === "calendar" ? sample.dayOfMonth : sample.turnOffset) === bucket.value
+
+  const effects = getBuckets(mode).map((bucket) => {
+    const values = samples.filter((sample) => inBucket(sample, bucket)).map((sample) => sample[metric])
+    const others = samples.filter((sample) => !inBucket(sample, bucket)).map((sample) => sample[metric])
+    return {
+      bucket,
+      days: values.length,
+      mean: mean(values),
+      confidenceInterval: meanConfidenceInterval(values),
+      difference: mean(values) - mean(others),
+      test: welchTTest(values, others),
+      effectSize: hedgesG(values, others),
+    }
+  })
+  const adjusted = benjaminiHochberg(effects.map((effect) => effect.test.pValue))
+
+  return effects.map((effect, index) => ({ ...effect, adjustedPValue: adjusted[index] }))
+}
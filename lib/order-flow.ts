@@ -0,0 +1,73 @@
+import type { CellColorMetric, MarketData } from "@/types/market"
+
+export interface OrderFlowMetrics {
+  tradeCount: number
+  // Taker buy volume over taker sell volume; above 1 means aggressive buyers dominated
+  takerBuyRatio: number
+  // Average quote-asset notional per trade
+  avgTradeSize: number
+}
+
+// Derives order-flow metrics for one or more candles. Returns null when the source
+// did not report trade counts or taker volumes.
+export function getOrderFlowMetrics(items: MarketData[]): OrderFlowMetrics | null {
+  const withFlow = items.filter(
+    (item) =>
+      item.numberOfTrades !== undefined &&
+      item.takerBuyBaseAssetVolume !== undefined &&
+      item.quoteAssetVolume !== undefined,
+  )
+  if (withFlow.length === 0) return null
+
+  const tradeCount = withFlow.reduce((sum, item) => sum + (item.numberOfTrades || 0), 0)
+  const quoteVolume = withFlow.reduce((sum, item) => sum + (item.quoteAssetVolume || 0), 0)
+  const takerBuyVolume = withFlow.reduce((sum, item) => sum + (item.takerBuyBaseAssetVolume || 0), 0)
+  const takerSellVolume = withFlow.reduce((sum, item) => sum + item.volume, 0) - takerBuyVolume
+
+  return {
+    tradeCount,
+    takerBuyRatio: takerSellVolume > 0 ? takerBuyVolume / takerSellVolume : 0,
+    avgTradeSize: tradeCount > 0 ? quoteVolume / tradeCount : 0,
+  }
+}
+
+export const CELL_COLOR_METRICS: { value: CellColorMetric; label: string; description: string }[] = [
+  { value: "volatility", label: "Volatility", description: "Daily price volatility" },
+  { value: "takerBuyRatio", label: "Taker Buy/Sell Ratio", description: "Aggressive buy vs. sell volume" },
+  { value: "avgTradeSize", label: "Avg Trade Size", description: "Quote notional per trade" },
+  { value: "tradeCount", label: "Trade Count", description: "Number of trades" },
+  { value: "amihud", label: "Amihud Illiquidity", description: "Price impact per $1M traded" },
+  { value: "spread", label: "Spread Estimate", description: "Corwin-Schultz high-low spread" },
+  { value: "turnover", label: "Turnover", description: "Quote-asset volume traded" },
+]
+
+export function getCellMetricValue(item: MarketData, metric: CellColorMetric): number | null {
+  switch (metric) {
+    case "volatility":
+      return item.volatility
+    case "amihud":
+      return item.liquidity?.amihud ?? null
+    case "spread":
+      return item.liquidity?.spread ?? null
+    case "turnover":
+      return item.liquidity?.turnover ?? null
+  }
+
+  const flow = getOrderFlowMetrics([item])
+  if (!flow) return null
+
+  switch (metric) {
+    case "takerBuyRatio":
+      return flow.takerBuyRatio
+    case "avgTradeSize":
+      return flow.avgTradeSize
+    case "tradeCount":
+      return flow.tradeCount
+  }
+}
+
+export function formatTradeCount(count: number): string {
+  if (count >= 1e6) return `${(count / 1e6).toFixed(2)}M`
+  if (count >= 1e3) return `${(count / 1e3).toFixed(1)}K`
+  return count.toFixed(0)
+}
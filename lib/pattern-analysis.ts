@@ -0,0 +1,214 @@
+import type { MarketData, TradingCalendar } from "@/types/market"
+import { getDate, getDay } from "date-fns"
+import { parseTradingDate } from "@/lib/trading-day"
+import { filterTradingDays, getTradingWeekdays } from "@/lib/trading-calendar"
+import {
+  autocorrelation,
+  benjaminiHochberg,
+  excessKurtosis,
+  hedgesG,
+  mean,
+  median,
+  normalPValue,
+  welchTTest,
+} from "@/lib/statistics"
+
+export type PatternType = "weekly" | "monthly" | "volatility" | "volume" | "anomaly"
+
+// The false discovery rate patterns are called significant at
+export const PATTERN_FDR = 0.05
+
+// Fewer days than this and no pattern is tested
+export const MIN_PATTERN_DAYS = 30
+
+export interface Pattern {
+  id: string
+  type: PatternType
+  name: string
+  description: string
+  // The hypothesis test behind the p-value
+  test: string
+  sampleSize: number
+  effectSize: number
+  effectSizeLabel: string
+  pValue: number
+  // Benjamini-Hochberg adjusted across every pattern tested on the same data
+  adjustedPValue: number
+  significant: boolean
+  avgImpact: number
+  impactUnit: "%" | "x"
+  severity: "low" | "medium" | "high"
+}
+
+type PatternCandidate = Omit<Pattern, "adjustedPValue" | "significant">
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+const MONTH_PERIODS = [
+  { id: "early", label: "Early", first: 1, last: 10 },
+  { id: "mid", label: "Mid", first: 11, last: 20 },
+  { id: "late", label: "Late", first: 21, last: 31 },
+]
+const VOLUME_SPIKE_MULTIPLE = 2
+const ANOMALY_MULTIPLE = 3
+
+const dayReturn = (item: MarketData) => ((item.close - item.open) / item.open) * 100
+
+// The candle's own high-low range, in percent of its open. Rolling volatility estimates would tie
+// neighbouring days together through their shared window, and the tests below assume independent days.
+const dayRange = (item: MarketData) => ((item.high - item.low) / item.open) * 100
+
+// Rough magnitude bands of the usual effect sizes
+const severityOf = (effect: number, medium: number, high: number): Pattern["severity"] =>
+  Math.abs(effect) >= high ? "high" : Math.abs(effect) >= medium ? "medium" : "low"
+
+// Each trading weekday's daily range against the other days'
+function weekdayVolatilityCandidates(days: MarketData[], calendar: TradingCalendar) {
+  const samples = days.map((item) => ({ weekday: getDay(parseTradingDate(item.date)), range: dayRange(item) }))
+
+  return getTradingWeekdays(calendar).map((weekday): PatternCandidate => {
+    const values = samples.filter((sample) => sample.weekday === weekday).map((sample) => sample.range)
+    const others = samples.filter((sample) => sample.weekday !== weekday).map((sample) => sample.range)
+    const effectSize = hedgesG(values, others)
+    const higher = mean(values) > mean(others)
+    return {
+      id: `weekly-volatility-${weekday}`,
+      type: "weekly",
+      name: `${DAY_NAMES[weekday]} ${higher ? "Volatility" : "Calm"}`,
+      description: `${DAY_NAMES[weekday]}s trade in ${higher ? "wider" : "narrower"} daily ranges than other trading days`,
+      test: "Welch t-test of daily high-low ranges against the other weekdays",
+      sampleSize: values.length,
+      effectSize,
+      effectSizeLabel: "Hedges' g",
+      pValue: welchTTest(values, others).pValue,
+      avgImpact: mean(values),
+      impactUnit: "%",
+      severity: severityOf(effectSize, 0.2, 0.5),
+    }
+  })
+}
+
+// Open to close returns in each third of the month against the rest of the month
+function monthPeriodCandidates(days: MarketData[]) {
+  const samples = days.map((item) => ({ dayOfMonth: getDate(parseTradingDate(item.date)), return: dayReturn(item) }))
+
+  return MONTH_PERIODS.map((period): PatternCandidate => {
+    const inPeriod = (sample: { dayOfMonth: number }) =>
+      sample.dayOfMonth >= period.first && sample.dayOfMonth <= period.last
+    const values = samples.filter(inPeriod).map((sample) => sample.return)
+    const others = samples.filter((sample) => !inPeriod(sample)).map((sample) => sample.return)
+    const effectSize = hedgesG(values, others)
+    const rally = mean(values) > mean(others)
+    return {
+      id: `monthly-${period.id}`,
+      type: "monthly",
+      name: `${period.label}-Month ${rally ? "Rally" : "Decline"}`,
+      description: `Days ${period.first}-${period.last === 31 ? "end" : period.last} of the month return ${rally ? "more" : "less"} than the rest of the month`,
+      test: "Welch t-test of daily returns against the rest of the month",
+      sampleSize: values.length,
+      effectSize,
+      effectSizeLabel: "Hedges' g",
+      pValue: welchTTest(values, others).pValue,
+      avgImpact: mean(values),
+      impactUnit: "%",
+      severity: severityOf(effectSize, 0.2, 0.5),
+    }
+  })
+}
+
+// Big moves following big moves: autocorrelation of absolute returns, which is about zero for
+// independent days
+function volatilityClusteringCandidate(days: MarketData[]): PatternCandidate {
+  const absoluteReturns = days.map((item) => Math.abs(dayReturn(item)))
+  const correlation = autocorrelation(absoluteReturns)
+  const clustered = correlation > 0
+  return {
+    id: "volatility-clustering",
+    type: "volatility",
+    name: clustered ? "Volatility Clustering" : "Volatility Alternation",
+    description: `Large moves tend to be followed by ${clustered ? "more large moves" : "calmer days"}`,
+    test: "Lag-1 autocorrelation of absolute returns, against zero",
+    sampleSize: absoluteReturns.length,
+    effectSize: correlation,
+    effectSizeLabel: "Autocorrelation",
+    pValue: normalPValue(correlation * Math.sqrt(absoluteReturns.length)),
+    avgImpact: mean(absoluteReturns),
+    impactUnit: "%",
+    severity: severityOf(correlation, 0.1, 0.3),
+  }
+}
+
+// Whether days of unusually high volume are also days of unusually large moves
+function volumeSpikeCandidate(days: MarketData[]): PatternCandidate {
+  const typicalVolume = median(days.map((item) => item.volume))
+  const isSpike = (item: MarketData) => item.volume > typicalVolume * VOLUME_SPIKE_MULTIPLE
+  const spikes = days.filter(isSpike)
+  const spikeMoves = spikes.map((item) => Math.abs(dayReturn(item)))
+  const otherMoves = days.filter((item) => !isSpike(item)).map((item) => Math.abs(dayReturn(item)))
+  const effectSize = hedgesG(spikeMoves, otherMoves)
+  const larger = effectSize > 0
+  return {
+    id: "volume-spikes",
+    type: "volume",
+    name: "Volume Spikes",
+    description: `Days trading over ${VOLUME_SPIKE_MULTIPLE}x the median volume move the price ${larger ? "more" : "less"} than other days`,
+    test: "Welch t-test of absolute returns on spike days against other days",
+    sampleSize: spikes.length,
+    effectSize,
+    effectSizeLabel: "Hedges' g",
+    pValue: welchTTest(spikeMoves, otherMoves).pValue,
+    avgImpact: spikes.length > 0 ? mean(spikes.map((item) => item.volume)) / typicalVolume : NaN,
+    impactUnit: "x",
+    severity: severityOf(effectSize, 0.2, 0.5),
+  }
+}
+
+// More extreme days than a normal distribution of returns would produce
+function fatTailCandidate(days: MarketData[]): PatternCandidate {
+  const returns = days.map(dayReturn)
+  const kurtosis = excessKurtosis(returns)
+  const typicalMove = mean(returns.map(Math.abs))
+  const anomalies = returns.filter((value) => Math.abs(value) > typicalMove * ANOMALY_MULTIPLE)
+  const fatTailed = kurtosis > 0
+  return {
+    id: "price-anomalies",
+    type: "anomaly",
+    name: fatTailed ? "Price Anomalies" : "Thin Tails",
+    description: `Moves over ${ANOMALY_MULTIPLE}x the average size are ${fatTailed ? "more common" : "rarer"} than for normally distributed returns`,
+    test: "Excess kurtosis against zero (normal returns)",
+    sampleSize: returns.length,
+    effectSize: kurtosis,
+    effectSizeLabel: "Excess kurtosis",
+    pValue: normalPValue(kurtosis / Math.sqrt(24 / returns.length)),
+    avgImpact: anomalies.length > 0 ? mean(anomalies.map(Math.abs)) : NaN,
+    impactUnit: "%",
+    severity: severityOf(kurtosis, 1, 3),
+  }
+}
+
+// Tests every candidate pattern on the trading days in the data and corrects the p-values for the
+// number of patterns tested, so that scanning many candidates doesn't turn up effects by chance.
+// Patterns come back most significant first.
+export function analyzePatterns(data: MarketData[], calendar: TradingCalendar): Pattern[] {
+  // The caller may pass overlapping batches; the latest candle of each date wins
+  const byDate = new Map(data.map((item) => [item.date, item]))
+  const days = filterTradingDays([...byDate.values()], calendar).sort((a, b) => a.date.localeCompare(b.date))
+  if (days.length < MIN_PATTERN_DAYS) return []
+
+  const candidates = [
+    ...weekdayVolatilityCandidates(days, calendar),
+    ...monthPeriodCandidates(days),
+    volatilityClusteringCandidate(days),
+    volumeSpikeCandidate(days),
+    fatTailCandidate(days),
+  ]
+  const adjusted = benjaminiHochberg(candidates.map((candidate) => candidate.pValue))
+
+  return candidates
+    .map((candidate, index) => ({
+      ...candidate,
+      adjustedPValue: adjusted[index],
+      significant: adjusted[index] < PATTERN_FDR,
+    }))
+    .filter((pattern) => !isNaN(pattern.pValue))
+    .sort((a, b) => a.adjustedPValue - b.adjustedPValue || a.pValue - b.pValue)
+}
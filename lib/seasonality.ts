@@ -0,0 +1,214 @@
+import type { MarketData, TradingCalendar } from "@/types/market"
+import { endOfMonth, format } from "date-fns"
+import { parseTradingDate } from "@/lib/trading-day"
+import { filterTradingDays, isTradingDate } from "@/lib/trading-calendar"
+import { hitRate, mean, median, quantile, standardDeviation } from "@/lib/statistics"
+
+export type SeasonalityMetric = "return" | "volatility"
+
+export const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+export interface MonthlyPerformance {
+  year: number
+  // 0 for January
+  month: number
+  // Percent, close to close from the previous month's last close when that month was loaded
+  return: number
+  avgVolatility: number
+  days: number
+  // Missing trading days at either end, e.g. the listing month or the month in progress
+  partial: boolean
+}
+
+export interface SeasonalPathPoint {
+  // 1 for the month's first trading day
+  tradingDay: number
+  // Years reaching this trading day
+  years: number
+  // Cumulative percent return since the previous month's close, across years
+  mean: number
+  median: number
+  // 10th to 90th and 25th to 75th percentiles
+  outer: [number, number]
+  inner: [number, number]
+  // The compared year's path, NaN past its last candle
+  current: number
+}
+
+export interface SeasonalPath {
+  month: number
+  year: number
+  // Years with the month complete, the compared year left out
+  years: number[]
+  points: SeasonalPathPoint[]
+  // Where the compared year's latest day stands against the same day of the other years
+  tracking: { tradingDay: number; value: number; mean: number; percentile: number } | null
+}
+
+export interface MonthOfYearStats {
+  month: number
+  // Complete months only
+  years: number
+  mean: number
+  median: number
+  stdDev: number
+  // Percent of years the month closed higher
+  hitRate: number
+}
+
+// The month's trading dates, e.g. for "2024-05"
+function getTradingDatesOfMonth(month: string, calendar: TradingCalendar): string[] {
+  const lastDay = Number(format(endOfMonth(parseTradingDate(`${month}-01`)), "d"))
+  const open: string[] = []
+  for (let day = 1; day <= lastDay; day++) {
+    const date = `${month}-${String(day).padStart(2, "0")}`
+    if (isTradingDate(calendar, date)) open.push(date)
+  }
+  return open
+}
+
+function firstAndLastTradingDates(month: string, calendar: TradingCalendar): [string | null, string | null] {
+  const open = getTradingDatesOfMonth(month, calendar)
+  return [open[0] ?? null, open[open.length - 1] ?? null]
+}
+
+// Groups daily candles into calendar months of their trading date. Days the calendar has the market
+// closed are left out, and a month missing its first or last trading day is marked partial.
+export function buildMonthlyPerformance(data: MarketData[], calendar: TradingCalendar): MonthlyPerformance[] {
+  const months = new Map<string, MarketData[]>()
+  filterTradingDays(data, calendar).forEach((item) => {
+    const month = item.date.slice(0, 7)
+    const days = months.get(month)
+    if (days) days.push(item)
+    else months.set(month, [item])
+  })
+
+  const result: MonthlyPerformance[] = []
+  let previous: { month: string; close: number } | null = null
+  for (const month of [...months.keys()].sort()) {
+    const days = months.get(month)!.sort((a, b) => a.date.localeCompare(b.date))
+    const first = days[0]
+    const last = days[days.length - 1]
+    const previousMonth = format(parseTradingDate(`${month}-01`).getTime() - 1, "yyyy-MM")
+    const base = previous?.month === previousMonth ? previous.close : first.open
+    const [firstOpen, lastOpen] = firstAndLastTradingDates(month, calendar)
+
+    result.push({
+      year: Number(month.slice(0, 4)),
+      month: Number(month.slice(5, 7)) - 1,
+      return: ((last.close - base) / base) * 100,
+      avgVolatility: mean(days.map((item) => item.volatility)),
+      days: days.length,
+      partial: (firstOpen !== null && first.date > firstOpen) || (lastOpen !== null && last.date < lastOpen),
+    })
+    previous = { month, close: last.close }
+  }
+  return result
+}
+
+// Compounded return of a year's months, in percent
+export const getYearReturn = (months: MonthlyPerformance[]): number =>
+  (months.reduce((growth, item) => growth * (1 + item.return / 100), 1) - 1) * 100
+
+export const getSeasonalityValue = (performance: MonthlyPerformance, metric: SeasonalityMetric): number =>
+  metric === "return" ? performance.return : performance.avgVolatility
+
+// Per-month summary across years, from complete months only. The hit rate is always of returns.
+export function summarizeMonthsOfYear(months: MonthlyPerformance[], metric: SeasonalityMetric): MonthOfYearStats[] {
+  return MONTH_LABELS.map((_, month) => {
+    const complete = months.filter((item) => item.month === month && !item.partial)
+    const values = complete.map((item) => getSeasonalityValue(item, metric))
+    return {
+      month,
+      years: complete.length,
+      mean: mean(values),
+      median: median(values),
+      stdDev: standardDeviation(values),
+      hitRate: hitRate(complete.map((item) => item.return)),
+    }
+  })
+}
+
+// Cumulative returns through one month of a year, by trading day of the month on the calendar. A day
+// without a candle keeps the previous day's value so that years stay aligned; the path stops at the
+// last candle, as for the month in progress.
+function buildMonthPath(
+  days: MarketData[],
+  month: string,
+  calendar: TradingCalendar,
+): { path: number[]; complete: boolean } | null {
+  const start = days.findIndex((item) => item.date >= `${month}-01`)
+  if (start < 0 || !days[start].date.startsWith(month)) return null
+
+  const previous = days[start - 1]
+  const previousMonth = format(parseTradingDate(`${month}-01`).getTime() - 1, "yyyy-MM")
+  const base = previous?.date.startsWith(previousMonth) ? previous.close : days[start].open
+
+  const closes = new Map<string, number>()
+  for (let index = start; index < days.length && days[index].date.startsWith(month); index++) {
+    closes.set(days[index].date, days[index].close)
+  }
+  const tradingDates = getTradingDatesOfMonth(month, calendar)
+  const lastIndex = tradingDates.findLastIndex((date) => closes.has(date))
+  if (lastIndex < 0) return null
+
+  let value = 0
+  const path = tradingDates.slice(0, lastIndex + 1).map((date) => {
+    const close = closes.get(date)
+    if (close !== undefined) value = ((close - base) / base) * 100
+    return value
+  })
+  return { path, complete: closes.has(tradingDates[0]) && lastIndex === tradingDates.length - 1 }
+}
+
+// The average path through a calendar month across every complete year of history, with percentile
+// bands, and the given year's path to compare with it
+export function buildSeasonalPath(
+  data: MarketData[],
+  calendar: TradingCalendar,
+  year: number,
+  month: number,
+): SeasonalPath {
+  const days = filterTradingDays(data, calendar).sort((a, b) => a.date.localeCompare(b.date))
+  const label = (pathYear: number) => `${pathYear}-${String(month + 1).padStart(2, "0")}`
+  const firstYear = days.length > 0 ? Number(days[0].date.slice(0, 4)) : year
+  const lastYear = days.length > 0 ? Number(days[days.length - 1].date.slice(0, 4)) : year
+
+  const history: { year: number; path: number[] }[] = []
+  for (let pathYear = firstYear; pathYear <= lastYear; pathYear++) {
+    if (pathYear === year) continue
+    const result = buildMonthPath(days, label(pathYear), calendar)
+    if (result?.complete) history.push({ year: pathYear, path: result.path })
+  }
+  const current = buildMonthPath(days, label(year), calendar)?.path ?? []
+
+  const length = Math.max(current.length, ...history.map((item) => item.path.length))
+  const points = Array.from({ length }, (_, index): SeasonalPathPoint => {
+    const values = history.filter((item) => index < item.path.length).map((item) => item.path[index])
+    return {
+      tradingDay: index + 1,
+      years: values.length,
+      mean: mean(values),
+      median: median(values),
+      outer: [quantile(values, 0.1), quantile(values, 0.9)],
+      inner: [quantile(values, 0.25), quantile(values, 0.75)],
+      current: index < current.length ? current[index] : NaN,
+    }
+  })
+
+  const latest = points[current.length - 1]
+  const latestValues = history
+    .filter((item) => current.length <= item.path.length)
+    .map((item) => item.path[current.length - 1])
+  const tracking =
+    latest && latestValues.length > 0
+      ? {
+          tradingDay: latest.tradingDay,
+          value: latest.current,
+          mean: latest.mean,
+          percentile: (latestValues.filter((value) => value < latest.current).length / latestValues.length) * 100,
+        }
+      : null
+
+  return { month, year, years: history.map((item) => item.year), points, tracking }
+}
@@ -0,0 +1,84 @@
+import { createHash } from "node:crypto"
+
+// Server-only: used by the API routes in app/api, never imported by client components
+
+export interface CachedResponse {
+  body: string
+  etag: string
+  expiresAt: number
+}
+
+// In-memory store of upstream responses for the lifetime of the server process. Entries are
+// evicted least recently used first once the store is full, and expired ones are refetched.
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>()
+  private inFlight = new Map<string, Promise<CachedResponse>>()
+  private readonly maxEntries: number
+
+  constructor(maxEntries = 200) {
+    this.maxEntries = maxEntries
+  }
+
+  // Concurrent misses for the same key share one upstream request
+  async getOrLoad(key: string, load: () => Promise<{ data: unknown; ttlMs: number }>): Promise<CachedResponse> {
+    const cached = this.entries.get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      this.entries.delete(key)
+      this.entries.set(key, cached)
+      return cached
+    }
+
+    const pending = this.inFlight.get(key)
+    if (pending) return pending
+
+    const request = load()
+      .then(({ data, ttlMs }) => {
+        const body = JSON.stringify(data)
+        const entry = { body, etag: createETag(body), expiresAt: Date.now() + ttlMs }
+        this.set(key, entry)
+        return entry
+      })
+      .finally(() => this.inFlight.delete(key))
+
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  private set(key: string, entry: CachedResponse): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+export const createETag = (body: string): string => `"${createHash("sha1").update(body).digest("base64url")}"`
+
+const etagMatches = (header: string | null, etag: string): boolean =>
+  header !== null && header.split(",").some((candidate) => candidate.trim().replace(/^W\//, "") === etag)
+
+// Answers with 304 when the client already holds this exact body
+export function cachedJsonResponse(
+  request: Request,
+  entry: CachedResponse,
+  headers: Record<string, string> = {},
+): Response {
+  const responseHeaders = { ETag: entry.etag, ...headers }
+
+  if (etagMatches(request.headers.get("If-None-Match"), entry.etag)) {
+    return new Response(null, { status: 304, headers: responseHeaders })
+  }
+
+  return new Response(entry.body, {
+    headers: { "Content-Type": "application/json", ...responseHeaders },
+  })
+}
+
+export function jsonError(status: number, msg: string): Response {
+  // Same shape as Binance errors, so the client reports both the same way
+  return Response.json({ msg }, { status, headers: { "Cache-Control": "no-store" } })
+}
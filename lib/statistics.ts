@@ -0,0 +1,211 @@
+// Summary statistics and tests shared by the seasonality views. Empty samples give NaN rather than 0, so a
+// month or weekday without data can't pass for a flat one.
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? NaN : values.reduce((sum, value) => sum + value, 0) / values.length
+
+export function median(values: number[]): number {
+  if (values.length === 0) return NaN
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+// Linearly interpolated quantile, q from 0 to 1
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return NaN
+  const sorted = [...values].sort((a, b) => a - b)
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// Sample standard deviation (n - 1)
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return NaN
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+// Share of positive values, in percent
+export const hitRate = (values: number[]): number =>
+  values.length === 0 ? NaN : (values.filter((value) => value > 0).length / values.length) * 100
+
+// Lanczos approximation of ln Γ(x), for the t distribution below
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2,
+    -0.5395239384953e-5,
+  ]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  coefficients.forEach((coefficient) => (series += coefficient / ++y))
+  return -tmp + Math.log((2.5066282746310005 * series) / x)
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30
+  let c = 1
+  let d = 1 - ((a + b) * x) / (a + 1)
+  if (Math.abs(d) < tiny) d = tiny
+  d = 1 / d
+  let result = d
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m
+    let step = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2))
+    d = 1 + step * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + step / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    result *= d * c
+
+    step = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))
+    d = 1 + step * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + step / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    result *= delta
+    if (Math.abs(delta - 1) < 1e-12) break
+  }
+  return result
+}
+
+// Regularized incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b
+}
+
+// Two-sided p-value of a t statistic with the given degrees of freedom
+export function studentTPValue(t: number, degreesOfFreedom: number): number {
+  if (!isFinite(t)) return isNaN(t) ? NaN : 0
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5)
+}
+
+// The t value a two-sided test at the given level (e.g. 0.95) must exceed, found by bisection
+export function studentTCritical(level: number, degreesOfFreedom: number): number {
+  let low = 0
+  let high = 1000
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2
+    if (studentTPValue(middle, degreesOfFreedom) > 1 - level) low = middle
+    else high = middle
+  }
+  return (low + high) / 2
+}
+
+// t-based confidence interval for the mean
+export function meanConfidenceInterval(values: number[], level = 0.95): [number, number] {
+  if (values.length < 2) return [NaN, NaN]
+  const margin = (studentTCritical(level, values.length - 1) * standardDeviation(values)) / Math.sqrt(values.length)
+  const average = mean(values)
+  return [average - margin, average + margin]
+}
+
+export interface TTestResult {
+  t: number
+  degreesOfFreedom: number
+  pValue: number
+}
+
+// Welch's t-test of a difference in means, which doesn't assume the two samples share a variance
+export function welchTTest(a: number[], b: number[]): TTestResult {
+  if (a.length < 2 || b.length < 2) return { t: NaN, degreesOfFreedom: NaN, pValue: NaN }
+  const varianceA = standardDeviation(a) ** 2 / a.length
+  const varianceB = standardDeviation(b) ** 2 / b.length
+  const t = (mean(a) - mean(b)) / Math.sqrt(varianceA + varianceB)
+  const degreesOfFreedom =
+    (varianceA + varianceB) ** 2 / (varianceA ** 2 / (a.length - 1) + varianceB ** 2 / (b.length - 1))
+  return { t, degreesOfFreedom, pValue: studentTPValue(t, degreesOfFreedom) }
+}
+
+// Hedges' g: the difference in means in pooled standard deviations, corrected for small samples
+export function hedgesG(a: number[], b: number[]): number {
+  if (a.length < 2 || b.length < 2) return NaN
+  const pooled = Math.sqrt(
+    ((a.length - 1) * standardDeviation(a) ** 2 + (b.length - 1) * standardDeviation(b) ** 2) /
+      (a.length + b.length - 2),
+  )
+  return ((mean(a) - mean(b)) / pooled) * (1 - 3 / (4 * (a.length + b.length) - 9))
+}
+
+// Stars for the usual significance levels
+export const significanceStars = (pValue: number): string =>
+  pValue < 0.001 ? "***" : pValue < 0.01 ? "**" : pValue < 0.05 ? "*" : ""
+
+// Complementary error function (Numerical Recipes' Chebyshev fit, accurate to 1.2e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x)
+  const t = 1 / (1 + z / 2)
+  const result =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t *
+                          (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))),
+    )
+  return x >= 0 ? result : 2 - result
+}
+
+// Two-sided p-value of a standard normal z score
+export const normalPValue = (z: number): number => (isNaN(z) ? NaN : erfc(Math.abs(z) / Math.SQRT2))
+
+// Lag-1 autocorrelation
+export function autocorrelation(values: number[]): number {
+  if (values.length < 3) return NaN
+  const average = mean(values)
+  let numerator = 0
+  let denominator = 0
+  values.forEach((value, index) => {
+    denominator += (value - average) ** 2
+    if (index > 0) numerator += (value - average) * (values[index - 1] - average)
+  })
+  return denominator > 0 ? numerator / denominator : NaN
+}
+
+// Excess kurtosis: 0 for a normal distribution, positive when extreme values are more common
+export function excessKurtosis(values: number[]): number {
+  if (values.length < 4) return NaN
+  const average = mean(values)
+  const secondMoment = mean(values.map((value) => (value - average) ** 2))
+  const fourthMoment = mean(values.map((value) => (value - average) ** 4))
+  return secondMoment > 0 ? fourthMoment / secondMoment ** 2 - 3 : NaN
+}
+
+// Benjamini-Hochberg adjusted p-values (q-values), which keep the expected share of false discoveries
+// among the tests called significant at the chosen level. Untestable (NaN) p-values stay NaN and
+// don't count towards the number of tests.
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const ranked = pValues
+    .map((pValue, index) => ({ pValue, index }))
+    .filter(({ pValue }) => !isNaN(pValue))
+    .sort((a, b) => a.pValue - b.pValue)
+  const adjusted = pValues.map(() => NaN)
+
+  let running = 1
+  for (let rank = ranked.length; rank >= 1; rank--) {
+    const { pValue, index } = ranked[rank - 1]
+    running = Math.min(running, (pValue * ranked.length) / rank)
+    adjusted[index] = running
+  }
+  return adjusted
+}
@@ -0,0 +1,185 @@
+import type { MarketDataSource, SymbolInfo } from "@/types/market"
+import { parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+
+const CATALOG_STORAGE_PREFIX = "market-explorer-symbol-catalog:"
+const LISTING_DATES_STORAGE_KEY = "market-explorer-listing-dates"
+const FAVORITES_STORAGE_KEY = "market-explorer-favorite-symbols"
+// exchangeInfo is heavy (weight 20) and changes rarely, so one fetch a day is plenty
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_FAVORITE_SYMBOLS = ["BTCUSDT", "ETHUSDT", "BNBUSDT", "SOLUSDT", "XRPUSDT"]
+
+// Used to split a symbol into base/quote before the catalog has loaded; longer suffixes are tried first
+const KNOWN_QUOTE_ASSETS = [
+  "FDUSD",
+  "USDT",
+  "USDC",
+  "TUSD",
+  "BUSD",
+  "USD",
+  "BTC",
+  "ETH",
+  "BNB",
+  "EUR",
+  "TRY",
+  "BRL",
+  "JPY",
+]
+
+interface StoredCatalog {
+  fetchedAt: number
+  symbols: SymbolInfo[]
+}
+
+function readStorage<T>(key: string): T | null {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  } catch {
+    return null
+  }
+}
+
+function writeStorage(key: string, value: unknown): void {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error)
+  }
+}
+
+export const isTradingSymbol = (info: SymbolInfo): boolean => info.status === "TRADING"
+
+export function formatSymbolStatus(status: string): string {
+  switch (status) {
+    case "TRADING":
+      return "Trading"
+    case "BREAK":
+      return "Delisted"
+    case "HALT":
+      return "Halted"
+    default:
+      return status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, " ")
+  }
+}
+
+// Looks a symbol up in its exchange's catalog, falling back to a best guess from known quote assets.
+// Exchange-qualified values are described by the exchange's own symbol.
+export function describeSymbol(value: string, symbols: SymbolInfo[] = []): SymbolInfo {
+  const { symbol } = parseExchangeSymbol(value)
+  const known = symbols.find((info) => info.symbol === symbol)
+  if (known) return known
+
+  // Coinbase writes its pairs as BTC-USD
+  const [dashBase, dashQuote] = symbol.split("-")
+  if (dashBase && dashQuote) {
+    return { symbol, baseAsset: dashBase, quoteAsset: dashQuote, label: `${dashBase}/${dashQuote}`, status: "TRADING" }
+  }
+
+  const quoteAsset = KNOWN_QUOTE_ASSETS.find((quote) => symbol.endsWith(quote) && symbol.length > quote.length)
+  const baseAsset = quoteAsset ? symbol.slice(0, -quoteAsset.length) : symbol
+
+  return {
+    symbol,
+    baseAsset,
+    quoteAsset: quoteAsset ?? "",
+    label: quoteAsset ? `${baseAsset}/${quoteAsset}` : symbol,
+    status: "TRADING",
+  }
+}
+
+// Several pickers mount at once; keep the parsed catalog around instead of re-reading storage for each
+const loadedCatalogs = new Map<string, StoredCatalog>()
+const catalogRequests = new Map<string, Promise<SymbolInfo[]>>()
+
+export async function loadSymbolCatalog(
+  source: MarketDataSource,
+  { force = false }: { force?: boolean } = {},
+): Promise<SymbolInfo[]> {
+  // Symbols that change while the app runs are local and cheap to list, so never stale copies
+  if (source.subscribeSymbols) return source.listSymbols()
+
+  const storageKey = CATALOG_STORAGE_PREFIX + source.id
+  const stored = loadedCatalogs.get(storageKey) ?? readStorage<StoredCatalog>(storageKey)
+
+  if (!force && stored && Date.now() - stored.fetchedAt < CATALOG_TTL_MS) {
+    loadedCatalogs.set(storageKey, stored)
+    return stored.symbols
+  }
+
+  const existing = catalogRequests.get(storageKey)
+  if (existing) return existing
+
+  const request = source
+    .listSymbols()
+    .then((symbols) => {
+      const catalog: StoredCatalog = { fetchedAt: Date.now(), symbols }
+      loadedCatalogs.set(storageKey, catalog)
+      writeStorage(storageKey, catalog)
+      return symbols
+    })
+    .catch((error) => {
+      // An outdated catalog is far more useful than none
+      if (stored) {
+        console.warn("Failed to refresh symbol catalog, using cached copy:", error)
+        return stored.symbols
+      }
+      throw error
+    })
+    .finally(() => {
+      catalogRequests.delete(storageKey)
+    })
+
+  catalogRequests.set(storageKey, request)
+  return request
+}
+
+// Listing dates never change, so they are cached without expiry
+export async function loadListingDate(source: MarketDataSource, symbol: string): Promise<Date | null> {
+  if (!source.getListingDate) return null
+
+  const key = `${source.id}:${symbol}`
+  const listingDates = readStorage<Record<string, number | null>>(LISTING_DATES_STORAGE_KEY) ?? {}
+  if (key in listingDates) {
+    const cached = listingDates[key]
+    return cached !== null ? new Date(cached) : null
+  }
+
+  const listingDate = await source.getListingDate(symbol)
+  writeStorage(LISTING_DATES_STORAGE_KEY, { ...listingDates, [key]: listingDate?.getTime() ?? null })
+  return listingDate
+}
+
+class FavoriteSymbols {
+  private favorites: string[] | null = null
+  private listeners = new Set<() => void>()
+
+  getSnapshot = (): string[] => {
+    if (this.favorites === null) {
+      const saved = readStorage<unknown>(FAVORITES_STORAGE_KEY)
+      this.favorites =
+        Array.isArray(saved) && saved.every((item) => typeof item === "string") ? saved : DEFAULT_FAVORITE_SYMBOLS
+    }
+    return this.favorites
+  }
+
+  getServerSnapshot = (): string[] => DEFAULT_FAVORITE_SYMBOLS
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  toggle(symbol: string): void {
+    const current = this.getSnapshot()
+    this.favorites = current.includes(symbol) ? current.filter((item) => item !== symbol) : [...current, symbol]
+    writeStorage(FAVORITES_STORAGE_KEY, this.favorites)
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const favoriteSymbols = new FavoriteSymbols()
@@ -0,0 +1,381 @@
+import type { DatasetCandle } from "@/lib/datasets"
+import { parseExchangeSymbol } from "@/lib/data-sources/exchange-symbol"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+const STORAGE_KEY = "market-explorer-synthetic-markets"
+
+// The exchange prefix of generated markets in qualified symbols, e.g. "synthetic:WEEKDAYS"
+export const SYNTHETIC_SOURCE_ID = "synthetic"
+
+// Every synthetic market starts here, so the calendar has the same range for all of them
+export const SYNTHETIC_START_DATE = new Date(Date.UTC(2018, 0, 1))
+
+const HOUR_MS = KLINE_INTERVAL_MS["1h"]
+const HOURS_PER_YEAR = 365 * 24
+// Each hourly candle is walked in four steps, so highs and lows aren't just the open and close
+const STEPS_PER_HOUR = 4
+const START_PRICE = 100
+const BASE_VOLUME = 1000
+
+export type SyntheticModel = "gbm" | "garch"
+
+export const SYNTHETIC_MODELS: { value: SyntheticModel; label: string }[] = [
+  { value: "gbm", label: "Geometric Brownian motion" },
+  { value: "garch", label: "GARCH(1,1)" },
+]
+
+// Effects are planted by UTC weekday (Sunday first) and month, like the calendar's default trading day
+export interface SyntheticMarketConfig {
+  id: string
+  name: string
+  seed: number
+  model: SyntheticModel
+  // Annualized, in percent
+  drift: number
+  volatility: number
+  // GARCH(1,1) weight of the last hour's shock and of the last hour's variance
+  garchAlpha: number
+  garchBeta: number
+  // Extra return on each weekday, in percent
+  weekdayDrift: number[]
+  // Volatility multiplier for each month
+  monthVolatility: number[]
+  // Volume multiplier for each weekday
+  weekdayVolume: number[]
+  // Chance per day of a volume spike, and how many times the usual volume it trades
+  spikeProbability: number
+  spikeMultiplier: number
+  // Chance per day of switching between the normal and the stressed regime, and the stressed
+  // regime's annualized drift (percent) and volatility multiplier
+  regimeSwitchProbability: number
+  regimeDrift: number
+  regimeVolatility: number
+}
+
+const NEUTRAL_WEEKDAYS = [0, 0, 0, 0, 0, 0, 0]
+
+export const DEFAULT_SYNTHETIC_CONFIG: Omit<SyntheticMarketConfig, "id" | "name"> = {
+  seed: 42,
+  model: "gbm",
+  drift: 10,
+  volatility: 50,
+  garchAlpha: 0.08,
+  garchBeta: 0.9,
+  weekdayDrift: NEUTRAL_WEEKDAYS,
+  monthVolatility: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+  weekdayVolume: [1, 1, 1, 1, 1, 1, 1],
+  spikeProbability: 0,
+  spikeMultiplier: 5,
+  regimeSwitchProbability: 0,
+  regimeDrift: -60,
+  regimeVolatility: 2,
+}
+
+// Markets with one planted effect each, to check that the app finds it and nothing else
+export const SYNTHETIC_PRESETS: SyntheticMarketConfig[] = [
+  { ...DEFAULT_SYNTHETIC_CONFIG, id: "RANDOMWALK", name: "Random walk (no effects)" },
+  {
+    ...DEFAULT_SYNTHETIC_CONFIG,
+    id: "WEEKDAYS",
+    name: "Monday rally, Friday selloff",
+    seed: 7,
+    weekdayDrift: [0, 1, 0, 0, 0, -1, 0],
+  },
+  {
+    ...DEFAULT_SYNTHETIC_CONFIG,
+    id: "SEASONS",
+    name: "Volatile autumn, volume on Mondays",
+    seed: 11,
+    monthVolatility: [1, 1, 1, 1, 1, 0.7, 0.7, 1, 1.8, 1.8, 1.4, 1],
+    weekdayVolume: [0.6, 2, 1, 1, 1, 1, 0.6],
+    spikeProbability: 0.03,
+  },
+  {
+    ...DEFAULT_SYNTHETIC_CONFIG,
+    id: "REGIMES",
+    name: "GARCH with bear regimes",
+    seed: 23,
+    model: "garch",
+    regimeSwitchProbability: 0.01,
+  },
+]
+
+// Ids double as symbols, so they are upper-case like imported datasets'
+function createSyntheticId(name: string): string {
+  const slug =
+    name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "")
+      .slice(0, 12) || "SYNTHETIC"
+  return `${slug}_${Date.now().toString(36).toUpperCase()}`
+}
+
+const isNumberList = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every((item) => typeof item === "number" && isFinite(item))
+
+// Describes what is wrong with a configuration, or returns null when it can be generated
+export function validateSyntheticConfig(config: Omit<SyntheticMarketConfig, "id">): string | null {
+  if (!config.name.trim()) return "Give the market a name"
+  if (!Number.isInteger(config.seed)) return "The seed must be a whole number"
+  if (!isFinite(config.drift) || !isFinite(config.regimeDrift)) return "Drift must be a number"
+  if (!(config.volatility > 0)) return "Volatility must be above zero"
+  if (config.model === "garch" && !(config.garchAlpha >= 0 && config.garchBeta >= 0)) {
+    return "GARCH weights can't be negative"
+  }
+  if (config.model === "garch" && config.garchAlpha + config.garchBeta >= 1) {
+    return "GARCH weights must add up to less than 1"
+  }
+  if (!isNumberList(config.weekdayDrift, 7)) return "Give a drift for each weekday"
+  if (!isNumberList(config.monthVolatility, 12) || config.monthVolatility.some((value) => value <= 0)) {
+    return "Month volatility multipliers must be above zero"
+  }
+  if (!isNumberList(config.weekdayVolume, 7) || config.weekdayVolume.some((value) => value <= 0)) {
+    return "Weekday volume multipliers must be above zero"
+  }
+  if (!(config.spikeProbability >= 0 && config.spikeProbability <= 1)) return "Spike chance must be 0 to 100%"
+  if (!(config.spikeMultiplier >= 1)) return "Spikes must be at least 1× the usual volume"
+  if (!(config.regimeSwitchProbability >= 0 && config.regimeSwitchProbability <= 1)) {
+    return "Regime switch chance must be 0 to 100%"
+  }
+  if (!(config.regimeVolatility > 0)) return "The stressed regime's volatility multiplier must be above zero"
+  return null
+}
+
+// mulberry32: small, fast and good enough to make every seed reproduce the same market
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Box-Muller transform of two uniform draws
+function normal(random: () => number): number {
+  const u = 1 - random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+interface GeneratorState {
+  random: () => number
+  nextOpenTime: number
+  price: number
+  // Hourly variance before the month and regime multipliers
+  variance: number
+  stressed: boolean
+  spikeToday: boolean
+}
+
+// A market's candles so far, extended an hour at a time as the clock moves on. Generation is
+// sequential, so the candles up to any hour are the same however far the series has been extended.
+class SyntheticSeries {
+  readonly candles: DatasetCandle[] = []
+  private readonly state: GeneratorState
+  private readonly baseVariance: number
+
+  constructor(private readonly config: SyntheticMarketConfig) {
+    this.baseVariance = Math.pow(config.volatility / 100, 2) / HOURS_PER_YEAR
+    this.state = {
+      random: createRandom(config.seed),
+      nextOpenTime: SYNTHETIC_START_DATE.getTime(),
+      price: START_PRICE,
+      variance: this.baseVariance,
+      stressed: false,
+      spikeToday: false,
+    }
+  }
+
+  extendTo(endTime: number): void {
+    while (this.state.nextOpenTime <= endTime) {
+      this.candles.push(this.nextCandle())
+    }
+  }
+
+  private nextCandle(): DatasetCandle {
+    const { config, state } = this
+    const openTime = state.nextOpenTime
+    const date = new Date(openTime)
+    const weekday = date.getUTCDay()
+
+    if (openTime % KLINE_INTERVAL_MS["1d"] === 0) {
+      if (state.random() < config.regimeSwitchProbability) state.stressed = !state.stressed
+      state.spikeToday = state.random() < config.spikeProbability
+    }
+
+    const volatility =
+      Math.sqrt(state.variance) *
+      config.monthVolatility[date.getUTCMonth()] *
+      (state.stressed ? config.regimeVolatility : 1)
+    const drift =
+      (state.stressed ? config.regimeDrift : config.drift) / 100 / HOURS_PER_YEAR +
+      config.weekdayDrift[weekday] / 100 / 24
+
+    // Log returns, so the planted drift compounds into the same percentage whatever the volatility
+    const open = state.price
+    let price = open
+    let high = open
+    let low = open
+    let shock = 0
+    for (let step = 0; step < STEPS_PER_HOUR; step++) {
+      const z = normal(state.random)
+      shock += z
+      price *= Math.exp(
+        (drift - (volatility * volatility) / 2) / STEPS_PER_HOUR + (volatility * z) / Math.sqrt(STEPS_PER_HOUR),
+      )
+      high = Math.max(high, price)
+      low = Math.min(low, price)
+    }
+    shock /= Math.sqrt(STEPS_PER_HOUR)
+
+    if (config.model === "garch") {
+      const omega = this.baseVariance * (1 - config.garchAlpha - config.garchBeta)
+      state.variance = omega + config.garchAlpha * state.variance * shock * shock + config.garchBeta * state.variance
+    }
+
+    // Busier in big moves, on top of the planted weekday pattern and spikes
+    const volume =
+      BASE_VOLUME *
+      config.weekdayVolume[weekday] *
+      (state.spikeToday ? config.spikeMultiplier : 1) *
+      (1 + Math.abs(shock) / 2) *
+      Math.exp(0.3 * normal(state.random))
+
+    state.price = price
+    state.nextOpenTime = openTime + HOUR_MS
+    return { openTime, open, high, low, close: price, volume }
+  }
+}
+
+const seriesCache = new Map<string, SyntheticSeries>()
+const MAX_CACHED_SERIES = 4
+
+// Hourly candles of a market from SYNTHETIC_START_DATE through the last complete hour before endTime
+export function generateSyntheticCandles(config: SyntheticMarketConfig, endTime: number): DatasetCandle[] {
+  // Keyed by the whole configuration, so changing a setting never serves the old market
+  const key = JSON.stringify(config)
+  let series = seriesCache.get(key)
+  if (!series) {
+    series = new SyntheticSeries(config)
+    seriesCache.set(key, series)
+    if (seriesCache.size > MAX_CACHED_SERIES) {
+      seriesCache.delete(seriesCache.keys().next().value as string)
+    }
+  }
+
+  const lastCompleteHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS - HOUR_MS
+  series.extendTo(Math.min(endTime, lastCompleteHour))
+  return series.candles
+}
+
+// A one-line summary of the planted effects, for the symbol picker and the generator dialog
+export function describeSyntheticConfig(config: SyntheticMarketConfig): string {
+  const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+  const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+  const parts = [
+    `${config.model === "garch" ? "GARCH" : "GBM"} ${config.volatility}% vol, ${config.drift >= 0 ? "+" : ""}${config.drift}%/yr`,
+  ]
+
+  const drifts = config.weekdayDrift
+    .map((value, index) => (value !== 0 ? `${weekdayNames[index]} ${value > 0 ? "+" : ""}${value}%` : null))
+    .filter((item) => item !== null)
+  if (drifts.length > 0) parts.push(drifts.join(" "))
+
+  const months = config.monthVolatility
+    .map((value, index) => (value !== 1 ? `${monthNames[index]} ${value}×` : null))
+    .filter((item) => item !== null)
+  if (months.length > 0) parts.push(`vol ${months.join(" ")}`)
+
+  const volumes = config.weekdayVolume
+    .map((value, index) => (value !== 1 ? `${weekdayNames[index]} ${value}×` : null))
+    .filter((item) => item !== null)
+  if (volumes.length > 0) parts.push(`volume ${volumes.join(" ")}`)
+
+  if (config.spikeProbability > 0) {
+    parts.push(`${Number((config.spikeProbability * 100).toFixed(1))}% daily ${config.spikeMultiplier}× volume spikes`)
+  }
+  if (config.regimeSwitchProbability > 0) {
+    parts.push(
+      `${Number((config.regimeSwitchProbability * 100).toFixed(1))}% daily regime switches to ${config.regimeDrift}%/yr at ${config.regimeVolatility}× vol`,
+    )
+  }
+  return `${parts.join("; ")}; seed ${config.seed}`
+}
+
+function readStoredConfigs(): SyntheticMarketConfig[] {
+  if (typeof window === "undefined") return []
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    if (!Array.isArray(saved)) return []
+    return saved
+      .map((item) => ({ ...DEFAULT_SYNTHETIC_CONFIG, ...item }))
+      .filter((item) => typeof item.id === "string" && validateSyntheticConfig(item) === null)
+  } catch {
+    return []
+  }
+}
+
+// The presets followed by the markets set up in the generator dialog, which are kept in localStorage.
+// An external store for useSyncExternalStore.
+class SyntheticMarketStore {
+  private markets: SyntheticMarketConfig[] | null = null
+  private listeners = new Set<() => void>()
+
+  getSnapshot = (): SyntheticMarketConfig[] => {
+    if (this.markets === null) {
+      this.markets = [...SYNTHETIC_PRESETS, ...readStoredConfigs()]
+    }
+    return this.markets
+  }
+
+  getServerSnapshot = (): SyntheticMarketConfig[] => SYNTHETIC_PRESETS
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  find(id: string): SyntheticMarketConfig | undefined {
+    return this.getSnapshot().find((market) => market.id === id)
+  }
+
+  isPreset(id: string): boolean {
+    return SYNTHETIC_PRESETS.some((preset) => preset.id === id)
+  }
+
+  add(config: Omit<SyntheticMarketConfig, "id">): SyntheticMarketConfig {
+    const error = validateSyntheticConfig(config)
+    if (error) throw new Error(error)
+
+    const market = { ...config, id: createSyntheticId(config.name) }
+    this.setMarkets([...this.getSnapshot(), market])
+    return market
+  }
+
+  remove(id: string): void {
+    if (this.isPreset(id)) return
+    this.setMarkets(this.getSnapshot().filter((market) => market.id !== id))
+  }
+
+  private setMarkets(markets: SyntheticMarketConfig[]): void {
+    this.markets = markets
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(markets.filter((market) => !this.isPreset(market.id))))
+    } catch (error) {
+      console.warn(`Failed to persist ${STORAGE_KEY}:`, error)
+    }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const syntheticMarketStore = new SyntheticMarketStore()
+
+// The synthetic market a possibly qualified symbol names, if it is one
+export function findSyntheticBySymbol(value: string): SyntheticMarketConfig | undefined {
+  const { exchange, symbol } = parseExchangeSymbol(value)
+  return exchange === SYNTHETIC_SOURCE_ID ? syntheticMarketStore.find(symbol) : undefined
+}
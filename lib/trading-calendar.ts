@@ -0,0 +1,280 @@
+import type { CustomTradingCalendar, MarketData, TradingCalendar } from "@/types/market"
+import { shiftDateLabel } from "@/lib/trading-day"
+
+// Crypto markets never close
+export const ALWAYS_OPEN_CALENDAR_ID = "always-open"
+
+const SATURDAY_AND_SUNDAY = [0, 6]
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+const toLabel = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10)
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay()
+
+// The nth given weekday (0 = Sunday) of a month, or the last one for n = -1
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month, 0))
+    return toLabel(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7))
+  }
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+  return toLabel(year, month, 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7)
+}
+
+// Gregorian Easter Sunday (anonymous Gregorian algorithm)
+function easterSunday(year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return toLabel(year, month, day)
+}
+
+// US holidays on a Saturday are observed the Friday before, on a Sunday the Monday after
+function observedUs(date: string): string {
+  const weekday = weekdayOf(date)
+  if (weekday === 6) return shiftDateLabel(date, -1)
+  if (weekday === 0) return shiftDateLabel(date, 1)
+  return date
+}
+
+// Closures outside the regular holiday rules
+const NYSE_SPECIAL_CLOSURES: Record<string, string> = {
+  "2001-09-11": "September 11 attacks",
+  "2001-09-12": "September 11 attacks",
+  "2001-09-13": "September 11 attacks",
+  "2001-09-14": "September 11 attacks",
+  "2004-06-11": "National day of mourning (Reagan)",
+  "2007-01-02": "National day of mourning (Ford)",
+  "2012-10-29": "Hurricane Sandy",
+  "2012-10-30": "Hurricane Sandy",
+  "2018-12-05": "National day of mourning (G. H. W. Bush)",
+  "2025-01-09": "National day of mourning (Carter)",
+}
+
+function nyseHolidays(year: number): Map<string, string> {
+  const holidays = new Map<string, string>()
+  const add = (date: string, name: string) => holidays.set(date, name)
+
+  // New Year's Day on a Saturday isn't moved into the previous year
+  const newYear = toLabel(year, 1, 1)
+  if (weekdayOf(newYear) !== 6) add(observedUs(newYear), "New Year's Day")
+  if (year >= 1998) add(nthWeekday(year, 1, 1, 3), "Martin Luther King Jr. Day")
+  add(nthWeekday(year, 2, 1, 3), "Washington's Birthday")
+  add(shiftDateLabel(easterSunday(year), -2), "Good Friday")
+  add(nthWeekday(year, 5, 1, -1), "Memorial Day")
+  if (year >= 2022) add(observedUs(toLabel(year, 6, 19)), "Juneteenth")
+  add(observedUs(toLabel(year, 7, 4)), "Independence Day")
+  add(nthWeekday(year, 9, 1, 1), "Labor Day")
+  add(nthWeekday(year, 11, 4, 4), "Thanksgiving Day")
+  add(observedUs(toLabel(year, 12, 25)), "Christmas Day")
+
+  Object.entries(NYSE_SPECIAL_CLOSURES)
+    .filter(([date]) => date.startsWith(`${year}-`))
+    .forEach(([date, name]) => add(date, name))
+  return holidays
+}
+
+// Bank holidays moved by royal proclamation
+const LSE_MOVED_HOLIDAYS: Record<string, string> = {
+  "1995-05-01": "1995-05-08",
+  "2002-05-27": "2002-06-04",
+  "2012-05-28": "2012-06-04",
+  "2020-05-04": "2020-05-08",
+  "2022-05-30": "2022-06-02",
+}
+
+const LSE_SPECIAL_CLOSURES: Record<string, string> = {
+  "1999-12-31": "Millennium celebrations",
+  "2002-06-03": "Golden Jubilee",
+  "2011-04-29": "Royal wedding",
+  "2012-06-05": "Diamond Jubilee",
+  "2022-06-03": "Platinum Jubilee",
+  "2022-09-19": "State funeral of Queen Elizabeth II",
+  "2023-05-08": "Coronation of King Charles III",
+}
+
+// England and Wales bank holidays, which close the London Stock Exchange
+function lseHolidays(year: number): Map<string, string> {
+  const holidays = new Map<string, string>()
+  const add = (date: string, name: string) => holidays.set(LSE_MOVED_HOLIDAYS[date] ?? date, name)
+
+  // Holidays on a weekend are substituted by the next weekday that isn't a holiday itself
+  const newYear = toLabel(year, 1, 1)
+  add(shiftDateLabel(newYear, [1, 0, 0, 0, 0, 0, 2][weekdayOf(newYear)]), "New Year's Day")
+  const easter = easterSunday(year)
+  add(shiftDateLabel(easter, -2), "Good Friday")
+  add(shiftDateLabel(easter, 1), "Easter Monday")
+  add(nthWeekday(year, 5, 1, 1), "Early May bank holiday")
+  add(nthWeekday(year, 5, 1, -1), "Spring bank holiday")
+  add(nthWeekday(year, 8, 1, -1), "Summer bank holiday")
+
+  const christmasWeekday = weekdayOf(toLabel(year, 12, 25))
+  const [christmas, boxingDay] =
+    christmasWeekday === 6 ? [27, 28] : christmasWeekday === 0 ? [27, 26] : christmasWeekday === 5 ? [25, 28] : [25, 26]
+  add(toLabel(year, 12, christmas), "Christmas Day")
+  add(toLabel(year, 12, boxingDay), "Boxing Day")
+
+  Object.entries(LSE_SPECIAL_CLOSURES)
+    .filter(([date]) => date.startsWith(`${year}-`))
+    .forEach(([date, name]) => add(date, name))
+  return holidays
+}
+
+// Holidays are worked out once per year and calendar
+function byYear(getHolidays: (year: number) => Map<string, string>): (year: number) => Map<string, string> {
+  const years = new Map<number, Map<string, string>>()
+  return (year) => {
+    let holidays = years.get(year)
+    if (!holidays) {
+      holidays = getHolidays(year)
+      years.set(year, holidays)
+    }
+    return holidays
+  }
+}
+
+const NO_HOLIDAYS = new Map<string, string>()
+
+export const ALWAYS_OPEN_CALENDAR: TradingCalendar = {
+  id: ALWAYS_OPEN_CALENDAR_ID,
+  name: "24/7 (crypto)",
+  weekend: [],
+  getHolidays: () => NO_HOLIDAYS,
+}
+
+export const TRADING_CALENDARS: TradingCalendar[] = [
+  ALWAYS_OPEN_CALENDAR,
+  { id: "nyse", name: "NYSE / Nasdaq", weekend: SATURDAY_AND_SUNDAY, getHolidays: byYear(nyseHolidays) },
+  { id: "lse", name: "London Stock Exchange", weekend: SATURDAY_AND_SUNDAY, getHolidays: byYear(lseHolidays) },
+]
+
+export function toTradingCalendar(custom: CustomTradingCalendar): TradingCalendar {
+  const entries = Object.entries(custom.holidays)
+  return {
+    id: custom.id,
+    name: custom.name,
+    weekend: custom.weekend,
+    getHolidays: byYear((year) => new Map(entries.filter(([date]) => date.startsWith(`${year}-`)))),
+  }
+}
+
+export function findTradingCalendar(id: string, custom: CustomTradingCalendar[] = []): TradingCalendar {
+  const builtIn = TRADING_CALENDARS.find((calendar) => calendar.id === id)
+  if (builtIn) return builtIn
+  const loaded = custom.find((calendar) => calendar.id === id)
+  return loaded ? toTradingCalendar(loaded) : ALWAYS_OPEN_CALENDAR
+}
+
+// Why the market is closed on a trading date, or null when it's open
+export function getClosure(calendar: TradingCalendar, date: string): string | null {
+  if (calendar.weekend.includes(weekdayOf(date))) return "Weekend"
+  return calendar.getHolidays(Number(date.slice(0, 4))).get(date) ?? null
+}
+
+export const isTradingDate = (calendar: TradingCalendar, date: string): boolean => getClosure(calendar, date) === null
+
+// Candles a source printed on a closed day, e.g. weekend rows of a series filled forward by its vendor
+export const filterTradingDays = (data: MarketData[], calendar: TradingCalendar): MarketData[] =>
+  calendar.id === ALWAYS_OPEN_CALENDAR_ID ? data : data.filter((item) => isTradingDate(calendar, item.date))
+
+// Open and closed days between two trading dates, both included
+export function countCalendarDays(
+  calendar: TradingCalendar,
+  first: string,
+  last: string,
+): { open: number; closed: number } {
+  const counts = { open: 0, closed: 0 }
+  for (let date = first; date <= last; date = shiftDateLabel(date, 1)) {
+    if (isTradingDate(calendar, date)) {
+      counts.open++
+    } else {
+      counts.closed++
+    }
+  }
+  return counts
+}
+
+export const getTradingWeekdays = (calendar: TradingCalendar): number[] =>
+  [0, 1, 2, 3, 4, 5, 6].filter((weekday) => !calendar.weekend.includes(weekday))
+
+export function describeTradingCalendar(calendar: TradingCalendar): string {
+  if (calendar.id === ALWAYS_OPEN_CALENDAR_ID) return "Open every day"
+  const closedOn = calendar.weekend.map((weekday) => `${WEEKDAY_NAMES[weekday]}s`).join(" and ")
+  return closedOn ? `Closed on ${closedOn} and holidays` : "Closed on holidays"
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isDateLabel(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) return false
+  const [year, month, day] = value.split("-").map(Number)
+  return toLabel(year, month, day) === value
+}
+
+// Reads a calendar file: { "name": "...", "weekend": [0, 6], "holidays": [...] }. Holidays may be
+// dates, { "date", "name" } objects, or an object of names by date. Weekend defaults to Saturday and Sunday.
+export function parseCustomTradingCalendar(json: unknown, fallbackName: string): CustomTradingCalendar {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("A calendar file holds an object with a holidays list")
+  }
+  const candidate = json as Record<string, unknown>
+
+  const weekend = candidate.weekend ?? SATURDAY_AND_SUNDAY
+  if (
+    !Array.isArray(weekend) ||
+    !weekend.every((weekday) => Number.isInteger(weekday) && weekday >= 0 && weekday <= 6) ||
+    weekend.length === 7
+  ) {
+    throw new Error("weekend must list weekdays from 0 (Sunday) to 6 (Saturday), leaving at least one open")
+  }
+
+  const holidays: Record<string, string> = {}
+  const addHoliday = (date: unknown, name: unknown) => {
+    if (!isDateLabel(date)) throw new Error(`Invalid holiday date ${JSON.stringify(date)}, expected YYYY-MM-DD`)
+    holidays[date] = typeof name === "string" && name.trim() ? name.trim() : "Holiday"
+  }
+
+  const list = candidate.holidays
+  if (Array.isArray(list)) {
+    list.forEach((entry) =>
+      typeof entry === "object" && entry !== null ? addHoliday(entry.date, entry.name) : addHoliday(entry, null),
+    )
+  } else if (typeof list === "object" && list !== null) {
+    Object.entries(list).forEach(([date, name]) => addHoliday(date, name))
+  } else {
+    throw new Error("The calendar has no holidays list")
+  }
+
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name: typeof candidate.name === "string" && candidate.name.trim() ? candidate.name.trim() : fallbackName,
+    weekend: [...new Set(weekend as number[])].sort((a, b) => a - b),
+    holidays,
+  }
+}
+
+// Validates calendars restored from storage, dropping any that don't parse
+export function parseCustomTradingCalendars(value: unknown): CustomTradingCalendar[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    try {
+      const parsed = parseCustomTradingCalendar(item, "Custom calendar")
+      return typeof item.id === "string" ? [{ ...parsed, id: item.id }] : []
+    } catch {
+      return []
+    }
+  })
+}
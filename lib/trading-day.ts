@@ -0,0 +1,212 @@
+import { format, parseISO } from "date-fns"
+import type { MarketData, TradingDayConfig } from "@/types/market"
+
+export const DEFAULT_TRADING_DAY: TradingDayConfig = {
+  timeZone: "UTC",
+  boundaryHour: 0,
+  labelBy: "start",
+}
+
+export const TRADING_DAY_PRESETS: { id: string; label: string; config: TradingDayConfig }[] = [
+  { id: "utc", label: "UTC midnight (exchange days)", config: DEFAULT_TRADING_DAY },
+  {
+    id: "new-york-close",
+    label: "New York 17:00 close",
+    config: { timeZone: "America/New_York", boundaryHour: 17, labelBy: "end" },
+  },
+  { id: "london", label: "London midnight", config: { timeZone: "Europe/London", boundaryHour: 0, labelBy: "start" } },
+  { id: "tokyo", label: "Tokyo midnight", config: { timeZone: "Asia/Tokyo", boundaryHour: 0, labelBy: "start" } },
+]
+
+export const TIME_ZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Istanbul",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Hong_Kong",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+]
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Validates a config restored from storage, falling back to defaults field by field
+export function parseTradingDayConfig(value: unknown): TradingDayConfig {
+  const candidate = (typeof value === "object" && value !== null ? value : {}) as Partial<TradingDayConfig>
+
+  return {
+    timeZone:
+      typeof candidate.timeZone === "string" && isValidTimeZone(candidate.timeZone)
+        ? candidate.timeZone
+        : DEFAULT_TRADING_DAY.timeZone,
+    boundaryHour:
+      typeof candidate.boundaryHour === "number" &&
+      Number.isInteger(candidate.boundaryHour) &&
+      candidate.boundaryHour >= 0 &&
+      candidate.boundaryHour <= 23
+        ? candidate.boundaryHour
+        : DEFAULT_TRADING_DAY.boundaryHour,
+    labelBy:
+      candidate.labelBy === "end" || candidate.labelBy === "start" ? candidate.labelBy : DEFAULT_TRADING_DAY.labelBy,
+  }
+}
+
+const isUtc = (timeZone: string) => ["UTC", "Etc/UTC", "GMT", "Etc/GMT"].includes(timeZone)
+
+// The exchange's own daily candles are UTC midnight days; any other day is resampled from hourly candles
+export const needsResampling = (config: TradingDayConfig): boolean =>
+  !isUtc(config.timeZone) || config.boundaryHour !== 0
+
+export const isSameTradingDay = (a: TradingDayConfig, b: TradingDayConfig): boolean =>
+  a.timeZone === b.timeZone && a.boundaryHour === b.boundaryHour && a.labelBy === b.labelBy
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+// Creating a DateTimeFormat is slow and this runs for every candle
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  let formatter = zonedFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    })
+    zonedFormatters.set(timeZone, formatter)
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(timestamp).map((part) => [part.type, part.value]))
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+  }
+}
+
+// Wall-clock hour and weekday (0 = Sunday) of a timestamp in the given zone
+export function getZonedHourAndWeekday(timestamp: number, timeZone: string): { hour: number; weekday: number } {
+  const { year, month, day, hour } = getZonedParts(timestamp, timeZone)
+  return { hour, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() }
+}
+
+// Formats a timestamp as wall-clock time in the given zone
+export function formatZonedTime(timestamp: number, timeZone: string, pattern = "MMM d, HH:mm"): string {
+  const { year, month, day, hour, minute } = getZonedParts(timestamp, timeZone)
+  return format(new Date(year, month - 1, day, hour, minute), pattern)
+}
+
+const toDateLabel = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10)
+
+export function shiftDateLabel(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number)
+  return toDateLabel(year, month, day + days)
+}
+
+// The trading date a timestamp belongs to. A day runs from the boundary hour to the next one
+// and is labelled with the date it starts on, or the date it ends on for close-based days.
+export function getTradingDate(timestamp: number, config: TradingDayConfig): string {
+  const { year, month, day, hour } = getZonedParts(timestamp, config.timeZone)
+  const calendarDate = toDateLabel(year, month, day)
+  const startDate = hour < config.boundaryHour ? shiftDateLabel(calendarDate, -1) : calendarDate
+  return config.boundaryHour > 0 && config.labelBy === "end" ? shiftDateLabel(startDate, 1) : startDate
+}
+
+// Epoch ms at which a trading date begins
+export function getTradingDayStart(date: string, config: TradingDayConfig): number {
+  const startDate = config.boundaryHour > 0 && config.labelBy === "end" ? shiftDateLabel(date, -1) : date
+  const [year, month, day] = startDate.split("-").map(Number)
+
+  // Read the zone's offset at a first guess, then correct by it
+  const guess = Date.UTC(year, month - 1, day, config.boundaryHour)
+  const zoned = getZonedParts(guess, config.timeZone)
+  const offset = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - guess
+  return guess - offset
+}
+
+// Date-only strings parse as UTC midnight with `new Date`, which is the previous day west of UTC.
+// Trading dates are calendar labels, so they are read as local midnight instead.
+export const parseTradingDate = (date: string): Date => parseISO(date)
+
+export function labelTradingDates(data: MarketData[], config: TradingDayConfig): MarketData[] {
+  return data.map((item) => ({ ...item, date: getTradingDate(item.openTime, config) }))
+}
+
+const sumOptional = (items: MarketData[], key: keyof MarketData): number | undefined =>
+  items.every((item) => item[key] !== undefined)
+    ? items.reduce((sum, item) => sum + (item[key] as number), 0)
+    : undefined
+
+// Builds one candle per trading day from hourly candles. Boundaries fall on whole hours of the
+// hourly candles, so zones with a half-hour offset start their day at the nearest hour.
+export function resampleToTradingDays(hourly: MarketData[], config: TradingDayConfig): MarketData[] {
+  const days = new Map<string, MarketData[]>()
+  hourly.forEach((item) => {
+    const date = getTradingDate(item.openTime, config)
+    const candles = days.get(date)
+    if (candles) {
+      candles.push(item)
+    } else {
+      days.set(date, [item])
+    }
+  })
+
+  return [...days.entries()].map(([date, candles]) => {
+    const open = candles[0].open
+    const high = Math.max(...candles.map((item) => item.high))
+    const low = Math.min(...candles.map((item) => item.low))
+
+    return {
+      date,
+      openTime: candles[0].openTime,
+      open,
+      high,
+      low,
+      close: candles[candles.length - 1].close,
+      volume: candles.reduce((sum, item) => sum + item.volume, 0),
+      volatility: ((high - low) / open) * 100,
+      quoteAssetVolume: sumOptional(candles, "quoteAssetVolume"),
+      numberOfTrades: sumOptional(candles, "numberOfTrades"),
+      takerBuyBaseAssetVolume: sumOptional(candles, "takerBuyBaseAssetVolume"),
+      takerBuyQuoteAssetVolume: sumOptional(candles, "takerBuyQuoteAssetVolume"),
+    }
+  })
+}
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`
+
+export function describeTradingDay(config: TradingDayConfig): string {
+  if (!needsResampling(config)) return "UTC midnight"
+  const boundary = `${formatHour(config.boundaryHour)} ${config.timeZone}`
+  if (config.boundaryHour === 0) return `Midnight ${config.timeZone}`
+  return config.labelBy === "end" ? `${boundary} close, labelled by closing date` : `${boundary} start`
+}
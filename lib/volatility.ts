@@ -0,0 +1,162 @@
+import type { KlineInterval, MarketData, VolatilityEstimator, VolatilityModel } from "@/types/market"
+import { KLINE_INTERVAL_MS } from "@/lib/data-sources/intervals"
+
+// Crypto trades every day of the year
+const PERIODS_PER_YEAR = 365
+const DAY_MS = KLINE_INTERVAL_MS["1d"]
+
+export const DEFAULT_VOLATILITY_MODEL: VolatilityModel = {
+  estimator: "parkinson",
+  window: 7,
+  units: "daily",
+}
+
+export const VOLATILITY_ESTIMATORS: { value: VolatilityEstimator; label: string; description: string }[] = [
+  { value: "close-to-close", label: "Close-to-Close", description: "Root mean square of log returns" },
+  { value: "parkinson", label: "Parkinson", description: "High-low range, assumes no drift" },
+  { value: "garman-klass", label: "Garman-Klass", description: "Range plus open-close, assumes no drift" },
+  { value: "rogers-satchell", label: "Rogers-Satchell", description: "Range-based, robust to drift" },
+  { value: "yang-zhang", label: "Yang-Zhang", description: "Combines gaps, open-close and Rogers-Satchell" },
+]
+
+export const VOLATILITY_WINDOWS = [1, 7, 14, 30]
+
+// Validates a model restored from storage, falling back to defaults field by field
+export function parseVolatilityModel(value: unknown): VolatilityModel {
+  const candidate = (typeof value === "object" && value !== null ? value : {}) as Partial<VolatilityModel>
+
+  return {
+    estimator: VOLATILITY_ESTIMATORS.some((option) => option.value === candidate.estimator)
+      ? (candidate.estimator as VolatilityEstimator)
+      : DEFAULT_VOLATILITY_MODEL.estimator,
+    window:
+      typeof candidate.window === "number" && Number.isInteger(candidate.window) && candidate.window >= 1
+        ? candidate.window
+        : DEFAULT_VOLATILITY_MODEL.window,
+    units:
+      candidate.units === "annualized" || candidate.units === "daily"
+        ? candidate.units
+        : DEFAULT_VOLATILITY_MODEL.units,
+  }
+}
+
+const isValidCandle = (item: MarketData | undefined): item is MarketData =>
+  !!item && item.open > 0 && item.high > 0 && item.low > 0 && item.close > 0
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const sampleVariance = (values: number[]) => {
+  const average = mean(values)
+  return values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1)
+}
+
+// Single-candle variance terms in log space
+const parkinsonTerm = (item: MarketData) => Math.pow(Math.log(item.high / item.low), 2) / (4 * Math.log(2))
+
+const garmanKlassTerm = (item: MarketData) =>
+  0.5 * Math.pow(Math.log(item.high / item.low), 2) -
+  (2 * Math.log(2) - 1) * Math.pow(Math.log(item.close / item.open), 2)
+
+const rogersSatchellTerm = (item: MarketData) => {
+  const high = Math.log(item.high / item.open)
+  const low = Math.log(item.low / item.open)
+  const close = Math.log(item.close / item.open)
+  return high * (high - close) + low * (low - close)
+}
+
+// Per-candle variance over the window ending at `index`, or null when the estimator needs more history
+function windowVariance(
+  data: MarketData[],
+  index: number,
+  estimator: VolatilityEstimator,
+  window: number,
+): number | null {
+  const windowStart = Math.max(0, index - window + 1)
+  const candles = data.slice(windowStart, index + 1).filter(isValidCandle)
+  if (candles.length === 0) return null
+
+  switch (estimator) {
+    case "parkinson":
+      return mean(candles.map(parkinsonTerm))
+    case "garman-klass":
+      return Math.max(0, mean(candles.map(garmanKlassTerm)))
+    case "rogers-satchell":
+      return mean(candles.map(rogersSatchellTerm))
+    case "close-to-close": {
+      // Zero-mean returns, so a one-candle window still yields |r|
+      const returns: number[] = []
+      for (let i = Math.max(1, windowStart); i <= index; i++) {
+        if (isValidCandle(data[i]) && isValidCandle(data[i - 1])) {
+          returns.push(Math.log(data[i].close / data[i - 1].close))
+        }
+      }
+      return returns.length > 0 ? mean(returns.map((value) => value * value)) : null
+    }
+    case "yang-zhang": {
+      // Needs at least two gaps and two open-close moves for the sample variances
+      const yzStart = Math.max(1, index - Math.max(window, 2) + 1)
+      const gaps: number[] = []
+      const openClose: number[] = []
+      const rogersSatchell: number[] = []
+      for (let i = yzStart; i <= index; i++) {
+        if (!isValidCandle(data[i]) || !isValidCandle(data[i - 1])) continue
+        gaps.push(Math.log(data[i].open / data[i - 1].close))
+        openClose.push(Math.log(data[i].close / data[i].open))
+        rogersSatchell.push(rogersSatchellTerm(data[i]))
+      }
+      const n = gaps.length
+      if (n < 2) return null
+
+      const k = 0.34 / (1.34 + (n + 1) / (n - 1))
+      return sampleVariance(gaps) + k * sampleVariance(openClose) + (1 - k) * mean(rogersSatchell)
+    }
+  }
+}
+
+// Rescales a per-candle standard deviation to a percentage in the model's units
+function toPercent(sigma: number, interval: KlineInterval, units: VolatilityModel["units"]): number {
+  const daily = sigma * Math.sqrt(DAY_MS / KLINE_INTERVAL_MS[interval])
+  const scaled = units === "annualized" ? daily * Math.sqrt(PERIODS_PER_YEAR) : daily
+  return scaled * 100
+}
+
+// Replaces each candle's volatility with the selected estimator over a trailing window.
+// Candles without enough history for the estimator fall back to their own Parkinson range.
+export function applyVolatilityModel(
+  data: MarketData[],
+  model: VolatilityModel = DEFAULT_VOLATILITY_MODEL,
+  interval: KlineInterval = "1d",
+): MarketData[] {
+  return data.map((item, index) => {
+    let variance = windowVariance(data, index, model.estimator, model.window)
+    if (variance === null && isValidCandle(item)) {
+      variance = parkinsonTerm(item)
+    }
+
+    const volatility = variance !== null ? toPercent(Math.sqrt(Math.max(0, variance)), interval, model.units) : 0
+
+    return {
+      ...item,
+      volatility: isFinite(volatility) ? volatility : 0,
+    }
+  })
+}
+
+// Color scales and pattern thresholds are calibrated in daily percent
+export function toDailyVolatility(volatility: number, model: VolatilityModel): number {
+  return model.units === "annualized" ? volatility / Math.sqrt(PERIODS_PER_YEAR) : volatility
+}
+
+export function fromDailyVolatility(volatility: number, model: VolatilityModel): number {
+  return model.units === "annualized" ? volatility * Math.sqrt(PERIODS_PER_YEAR) : volatility
+}
+
+export function formatVolatility(volatility: number, model: VolatilityModel): string {
+  return `${volatility.toFixed(2)}%${model.units === "annualized" ? " ann." : ""}`
+}
+
+export function describeVolatilityModel(model: VolatilityModel): string {
+  const estimator = VOLATILITY_ESTIMATORS.find((option) => option.value === model.estimator)?.label ?? model.estimator
+  const window = model.window === 1 ? "single candle" : `${model.window}-candle window`
+  return `${estimator}, ${window}, ${model.units}`
+}
@@ -0,0 +1,85 @@
+import type { MarketData, TradingCalendar } from "@/types/market"
+import { getDay } from "date-fns"
+import { parseTradingDate } from "@/lib/trading-day"
+import { filterTradingDays, getTradingWeekdays } from "@/lib/trading-calendar"
+import {
+  benjaminiHochberg,
+  hedgesG,
+  mean,
+  meanConfidenceInterval,
+  median,
+  welchTTest,
+  type TTestResult,
+} from "@/lib/statistics"
+
+export type WeekdayMetric = "return" | "range"
+
+export const WEEKDAY_METRICS: { value: WeekdayMetric; label: string; description: string }[] = [
+  { value: "return", label: "Returns", description: "Close to close return from the previous trading day, in percent" },
+  {
+    value: "range",
+    label: "Range",
+    description: "The day's high-low range as a percent of its open, unaffected by the volatility window",
+  },
+]
+
+export interface WeekdayEffect {
+  weekday: number
+  days: number
+  mean: number
+  median: number
+  // 95% confidence interval of the mean
+  confidenceInterval: [number, number]
+  // This weekday against all other trading days
+  difference: number
+  test: TTestResult
+  // Benjamini-Hochberg adjusted across the weekdays tested
+  adjustedPValue: number
+  effectSize: number
+}
+
+interface WeekdaySample {
+  weekday: number
+  return: number
+  range: number
+}
+
+// Returns are taken against the previous candle, so for markets closed at weekends Monday's return
+// includes the weekend. The first candle has no previous close and is left out.
+function buildSamples(data: MarketData[], calendar: TradingCalendar): WeekdaySample[] {
+  const days = [...filterTradingDays(data, calendar)].sort((a, b) => a.date.localeCompare(b.date))
+  return days.slice(1).map((item, index) => ({
+    weekday: getDay(parseTradingDate(item.date)),
+    return: ((item.close - days[index].close) / days[index].close) * 100,
+    range: ((item.high - item.low) / item.open) * 100,
+  }))
+}
+
+// Per trading weekday, how the metric compares with the rest of the week: mean with its confidence
+// interval, median, and a Welch t-test and Hedges' g against all other trading days. P-values also
+// come adjusted for the number of weekdays tested.
+export function analyzeWeekdayEffects(
+  data: MarketData[],
+  calendar: TradingCalendar,
+  metric: WeekdayMetric,
+): WeekdayEffect[] {
+  const samples = buildSamples(data, calendar)
+
+  const effects = getTradingWeekdays(calendar).map((weekday) => {
+    const values = samples.filter((sample) => sample.weekday === weekday).map((sample) => sample[metric])
+    const others = samples.filter((sample) => sample.weekday !== weekday).map((sample) => sample[metric])
+    return {
+      weekday,
+      days: values.length,
+      mean: mean(values),
+      median: median(values),
+      confidenceInterval: meanConfidenceInterval(values),
+      difference: mean(values) - mean(others),
+      test: welchTTest(values, others),
+      effectSize: hedgesG(values, others),
+    }
+  })
+  const adjusted = benjaminiHochberg(effects.map((effect) => effect.test.pValue))
+
+  return effects.map((effect, index) => ({ ...effect, adjustedPValue: adjusted[index] }))
+}
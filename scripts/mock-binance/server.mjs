@@ -0,0 +1,746 @@
+#!/usr/bin/env node
+// Local stand-in for the Binance REST endpoints the app uses, so it can be developed and demoed offline. It also
+// serves the Coinbase, Kraken and Bybit market-data endpoints the other exchange adapters read.
+//
+//   node scripts/mock-binance/server.mjs [--port 4010] [--scenario rate-limit] [--record]
+//
+// exchangeInfo and ticker/24hr are served from fixtures/, depth is a synthetic book around the current price. Klines are replayed from
+// fixtures/klines/<SYMBOL>-<interval>.json when a recording exists, otherwise generated deterministically from the
+// symbol and open time so every run of the app sees the same candles. --record proxies to the real API once and
+// writes the responses into fixtures/. WebSocket connections to /stream?streams=<symbol>@kline_<interval>/... receive
+// the open synthetic candle every few seconds, like the combined kline streams.
+//
+// The other exchanges' symbol lists come from fixtures/<exchange>-*.json. Their candles are replayed from
+// fixtures/klines/<exchange>/<SYMBOL>-<interval>.json in the exchange's own row format, recorded the same way, or
+// generated from the synthetic Binance candles of the matching USDT pair.
+
+import http from "node:http"
+import { createHash } from "node:crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures")
+const KLINES_DIR = path.join(FIXTURES_DIR, "klines")
+const UPSTREAM_URL = "https://api.binance.com"
+
+const INTERVAL_MS = {
+  "1m": 60_000,
+  "5m": 300_000,
+  "15m": 900_000,
+  "30m": 1_800_000,
+  "1h": 3_600_000,
+  "2h": 7_200_000,
+  "4h": 14_400_000,
+  "6h": 21_600_000,
+  "12h": 43_200_000,
+  "1d": 86_400_000,
+  "1w": 604_800_000,
+}
+const DAY_MS = INTERVAL_MS["1d"]
+// Synthetic history starts when Binance itself launched
+const SYNTHETIC_HISTORY_START = Date.UTC(2017, 6, 14)
+const DEFAULT_KLINE_LIMIT = 500
+const MAX_KLINE_LIMIT = 1000
+const DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000, 5000]
+// Distance between synthetic order book levels, as a fraction of the mid price
+const DEPTH_TICK = 0.0002
+const STREAM_UPDATE_MS = 2000
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+function parseArgs(argv) {
+  const args = {}
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(argv[i])
+    if (!match) continue
+    const [, key, inline] = match
+    if (inline !== undefined) {
+      args[key] = inline
+    } else if (argv[i + 1] && !argv[i + 1].startsWith("--")) {
+      args[key] = argv[++i]
+    } else {
+      args[key] = true
+    }
+  }
+  return args
+}
+
+const args = parseArgs(process.argv.slice(2))
+const port = Number(args.port ?? process.env.MOCK_BINANCE_PORT ?? 4010)
+const recordMode = Boolean(args.record ?? process.env.MOCK_BINANCE_RECORD)
+const scenarios = readJson(path.join(FIXTURES_DIR, "scenarios.json"))
+const scenarioName = args.scenario ?? process.env.MOCK_BINANCE_SCENARIO ?? "normal"
+const scenario = scenarios[scenarioName]
+
+if (!scenario) {
+  console.error(`Unknown scenario "${scenarioName}". Available: ${Object.keys(scenarios).join(", ")}`)
+  process.exit(1)
+}
+
+function readJson(file) {
+  return JSON.parse(readFileSync(file, "utf8"))
+}
+
+function writeJson(file, value) {
+  mkdirSync(path.dirname(file), { recursive: true })
+  writeFileSync(file, JSON.stringify(value, null, 2) + "\n")
+}
+
+const exchangeInfoFile = path.join(FIXTURES_DIR, "exchange-info.json")
+const tickerFile = path.join(FIXTURES_DIR, "ticker-24hr.json")
+
+// Fixtures are re-read per request so recordings and hand edits take effect without a restart
+const loadExchangeInfo = () => readJson(exchangeInfoFile)
+const loadTickers = () => readJson(tickerFile)
+const klinesFile = (symbol, interval) => path.join(KLINES_DIR, `${symbol}-${interval}.json`)
+
+// --- Deterministic candle generation ---
+
+function hashString(value) {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+// One mulberry32 step: a stable pseudo-random number in [0, 1) for a given seed
+function noise(seed) {
+  let t = (seed + 0x6d2b79f5) >>> 0
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+function basePriceFor(symbol) {
+  const ticker = loadTickers().find((item) => item.symbol === symbol)
+  const lastPrice = ticker ? Number(ticker.lastPrice) : NaN
+  return lastPrice > 0 ? lastPrice : 1 + (hashString(symbol) % 1000)
+}
+
+// Price is a pure function of time so overlapping requests and paginated pages always agree
+function priceAt(symbol, basePrice, time) {
+  const phase = (hashString(symbol) % 1000) / 100
+  const days = time / DAY_MS
+  const drift = 0.35 * Math.sin(days / 97 + phase) + 0.15 * Math.sin(days / 23 + phase * 2)
+  const wobble = 0.04 * Math.sin(days / 5.3 + phase * 3) + 0.01 * Math.sin(days * 3.1 + phase)
+  return basePrice * Math.exp(drift + wobble)
+}
+
+function formatNumber(value) {
+  return value.toFixed(8)
+}
+
+function syntheticKline(symbol, interval, openTime, basePrice) {
+  const intervalMs = INTERVAL_MS[interval]
+  const seed = hashString(`${symbol}:${interval}:${openTime}`)
+  const scale = Math.sqrt(intervalMs / DAY_MS)
+
+  const open = priceAt(symbol, basePrice, openTime)
+  const close = priceAt(symbol, basePrice, openTime + intervalMs)
+  const high = Math.max(open, close) * (1 + 0.03 * scale * noise(seed))
+  const low = Math.min(open, close) * (1 - 0.03 * scale * noise(seed + 1))
+
+  const volume = (500_000_000 / basePrice) * (intervalMs / DAY_MS) * (0.5 + noise(seed + 2))
+  const quoteVolume = volume * ((open + close) / 2)
+  const trades = Math.max(1, Math.round((volume * basePrice) / (150 + 350 * noise(seed + 3))))
+  const takerShare = 0.4 + 0.2 * noise(seed + 4)
+
+  return [
+    openTime,
+    formatNumber(open),
+    formatNumber(high),
+    formatNumber(low),
+    formatNumber(close),
+    formatNumber(volume),
+    openTime + intervalMs - 1,
+    formatNumber(quoteVolume),
+    trades,
+    formatNumber(volume * takerShare),
+    formatNumber(quoteVolume * takerShare),
+    "0",
+  ]
+}
+
+function generateKlines(symbol, interval, startTime, endTime, limit) {
+  const intervalMs = INTERVAL_MS[interval]
+  const basePrice = basePriceFor(symbol)
+  // Like the real API, the still-open candle is included but nothing from the future
+  const lastOpenTime = Math.min(endTime, Date.now())
+  const rows = []
+
+  const firstOpenTime = Math.ceil(Math.max(startTime, SYNTHETIC_HISTORY_START) / intervalMs) * intervalMs
+  for (let openTime = firstOpenTime; openTime <= lastOpenTime; openTime += intervalMs) {
+    rows.push(syntheticKline(symbol, interval, openTime, basePrice))
+    if (rows.length >= limit) break
+  }
+
+  return rows
+}
+
+function replayKlines(symbol, interval, startTime, endTime, limit) {
+  const file = klinesFile(symbol, interval)
+  if (!existsSync(file)) return null
+
+  return readJson(file)
+    .filter((row) => row[0] >= startTime && row[0] <= endTime)
+    .slice(0, limit)
+}
+
+// A fresh book every second, thinning out away from the mid like a real one
+function generateDepth(symbol, limit) {
+  const now = Date.now()
+  const mid = priceAt(symbol, basePriceFor(symbol), now)
+  const second = Math.floor(now / 1000)
+  const levelNotional = 50_000 + (hashString(symbol) % 200_000)
+  const level = (side, i) => {
+    const seed = hashString(`${symbol}:${side}:${second}:${i}`)
+    const price = mid * (side === "bid" ? 1 - DEPTH_TICK * (i + 0.5) : 1 + DEPTH_TICK * (i + 0.5))
+    const quantity = ((levelNotional / price) * (0.3 + noise(seed))) / (1 + i / 50)
+    return [formatNumber(price), formatNumber(quantity)]
+  }
+
+  return {
+    lastUpdateId: second,
+    bids: Array.from({ length: limit }, (_, i) => level("bid", i)),
+    asks: Array.from({ length: limit }, (_, i) => level("ask", i)),
+  }
+}
+
+// Defects are keyed on the candle's position since the epoch so every page and refetch agrees
+function applyKlineDefects(rows, interval, defects) {
+  const intervalMs = INTERVAL_MS[interval]
+  const hits = (openTime, every) => every && (openTime / intervalMs) % every === 0
+
+  return rows
+    .filter((row) => !hits(row[0], defects.dropEvery))
+    .map((row) => {
+      const [openTime, open, high, low, close] = row
+      if (hits(openTime, defects.invertEvery)) return [openTime, open, low, high, close, ...row.slice(5)]
+      if (hits(openTime, defects.zeroPriceEvery)) return [openTime, "0.00000000", high, low, close, ...row.slice(5)]
+      if (hits(openTime, defects.zeroVolumeEvery)) {
+        return [...row.slice(0, 5), "0.00000000", row[6], "0.00000000", 0, "0.00000000", "0.00000000", row[11]]
+      }
+      return row
+    })
+}
+
+// --- Recording ---
+
+async function fetchUpstream(pathname, searchParams, upstreamUrl = UPSTREAM_URL) {
+  const response = await fetch(`${upstreamUrl}${pathname}?${searchParams}`, {
+    headers: { Accept: "application/json" },
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+function mergeRecordedKlines(symbol, interval, rows) {
+  const file = klinesFile(symbol, interval)
+  const byOpenTime = new Map(existsSync(file) ? readJson(file).map((row) => [row[0], row]) : [])
+  const closedBefore = Date.now()
+  // Only closed candles are worth keeping; the open one would replay stale forever
+  rows.filter((row) => row[6] < closedBefore).forEach((row) => byOpenTime.set(row[0], row))
+  const merged = [...byOpenTime.values()].sort((a, b) => a[0] - b[0])
+  writeJson(file, merged)
+}
+
+// --- HTTP plumbing ---
+
+const REQUEST_WEIGHTS = {
+  "/api/v3/klines": () => 2,
+  "/api/v3/exchangeInfo": () => 20,
+  "/api/v3/ticker/24hr": (params) => (params.has("symbol") ? 2 : 80),
+  "/api/v3/depth": (params) => {
+    const limit = Number(params.get("limit") ?? 100)
+    return limit <= 100 ? 5 : limit <= 500 ? 25 : limit <= 1000 ? 50 : 250
+  },
+}
+
+let weightWindowStart = 0
+let usedWeight = 0
+let dataRequestCount = 0
+
+function consumeWeight(weight) {
+  const windowStart = Math.floor(Date.now() / 60_000) * 60_000
+  if (windowStart !== weightWindowStart) {
+    weightWindowStart = windowStart
+    usedWeight = 0
+  }
+  usedWeight += weight
+  return usedWeight
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "Content-Type": "application/json;charset=UTF-8",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Expose-Headers": "X-MBX-USED-WEIGHT-1M, Retry-After",
+    ...headers,
+  })
+  res.end(JSON.stringify(body))
+}
+
+const binanceError = (code, msg) => ({ code, msg })
+
+function findSymbol(symbol) {
+  return loadExchangeInfo().symbols.find((item) => item.symbol === symbol)
+}
+
+async function handleKlines(params) {
+  const symbol = params.get("symbol")
+  const interval = params.get("interval")
+  if (!symbol) return [400, binanceError(-1102, "Mandatory parameter 'symbol' was not sent.")]
+  if (!findSymbol(symbol)) return [400, binanceError(-1121, "Invalid symbol.")]
+  if (!INTERVAL_MS[interval]) return [400, binanceError(-1120, "Invalid interval.")]
+
+  const limit = Math.min(Number(params.get("limit") ?? DEFAULT_KLINE_LIMIT), MAX_KLINE_LIMIT)
+  const endTime = params.has("endTime") ? Number(params.get("endTime")) : Date.now()
+  // Without startTime, the last `limit` candles counted back from the one holding endTime
+  const intervalMs = INTERVAL_MS[interval]
+  const lastOpenTime = Math.floor(Math.min(endTime, Date.now()) / intervalMs) * intervalMs
+  const startTime = params.has("startTime") ? Number(params.get("startTime")) : lastOpenTime - (limit - 1) * intervalMs
+
+  if (recordMode) {
+    const { status, body } = await fetchUpstream("/api/v3/klines", params)
+    if (status === 200) mergeRecordedKlines(symbol, interval, body)
+    return [status, body]
+  }
+
+  const rows =
+    replayKlines(symbol, interval, startTime, endTime, limit) ??
+    generateKlines(symbol, interval, startTime, endTime, limit)
+  return [200, scenario.klineDefects ? applyKlineDefects(rows, interval, scenario.klineDefects) : rows]
+}
+
+async function handleExchangeInfo(params) {
+  if (recordMode) {
+    const { status, body } = await fetchUpstream("/api/v3/exchangeInfo", params)
+    if (status === 200) writeJson(exchangeInfoFile, body)
+    return [status, body]
+  }
+
+  const exchangeInfo = loadExchangeInfo()
+  const symbol = params.get("symbol")
+  if (!symbol) return [200, { ...exchangeInfo, serverTime: Date.now() }]
+
+  const match = findSymbol(symbol)
+  return match
+    ? [200, { ...exchangeInfo, serverTime: Date.now(), symbols: [match] }]
+    : [400, binanceError(-1121, "Invalid symbol.")]
+}
+
+async function handleTicker24hr(params) {
+  if (recordMode && !params.has("symbol")) {
+    const { status, body } = await fetchUpstream("/api/v3/ticker/24hr", params)
+    if (status === 200) writeJson(tickerFile, body)
+    return [status, body]
+  }
+
+  const tickers = loadTickers()
+  const symbol = params.get("symbol")
+  if (!symbol) return [200, tickers]
+
+  const match = tickers.find((item) => item.symbol === symbol)
+  return match ? [200, match] : [400, binanceError(-1121, "Invalid symbol.")]
+}
+
+async function handleDepth(params) {
+  const symbol = params.get("symbol")
+  if (!symbol) return [400, binanceError(-1102, "Mandatory parameter 'symbol' was not sent.")]
+  if (!findSymbol(symbol)) return [400, binanceError(-1121, "Invalid symbol.")]
+
+  const limit = Number(params.get("limit") ?? 100)
+  if (!DEPTH_LIMITS.includes(limit)) return [400, binanceError(-1100, "Illegal characters found in parameter 'limit'.")]
+
+  if (recordMode) {
+    const { status, body } = await fetchUpstream("/api/v3/depth", params)
+    return [status, body]
+  }
+
+  return [200, generateDepth(symbol, limit)]
+}
+
+// --- Other exchanges ---
+
+// Each exchange's candles in its own row format, converted from a synthetic Binance row
+// [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+const EXCHANGES = {
+  coinbase: {
+    upstreamUrl: "https://api.exchange.coinbase.com",
+    catalogFile: path.join(FIXTURES_DIR, "coinbase-products.json"),
+    intervals: { 900: "15m", 3600: "1h", 86400: "1d" },
+    maxRows: 300,
+    // [time (seconds), low, high, open, close, volume]
+    toRow: ([openTime, open, high, low, close, volume]) => [
+      openTime / 1000,
+      Number(low),
+      Number(high),
+      Number(open),
+      Number(close),
+      Number(volume),
+    ],
+    rowOpenTime: (row) => row[0] * 1000,
+  },
+  kraken: {
+    upstreamUrl: "https://api.kraken.com",
+    catalogFile: path.join(FIXTURES_DIR, "kraken-asset-pairs.json"),
+    intervals: { 15: "15m", 60: "1h", 240: "4h", 1440: "1d" },
+    maxRows: 720,
+    // [time (seconds), open, high, low, close, vwap, volume, count]
+    toRow: ([openTime, open, high, low, close, volume, , quoteVolume, trades]) => [
+      openTime / 1000,
+      open,
+      high,
+      low,
+      close,
+      formatNumber(Number(quoteVolume) / Number(volume)),
+      volume,
+      trades,
+    ],
+    rowOpenTime: (row) => row[0] * 1000,
+  },
+  bybit: {
+    upstreamUrl: "https://api.bybit.com",
+    catalogFile: path.join(FIXTURES_DIR, "bybit-instruments.json"),
+    intervals: { 15: "15m", 60: "1h", 240: "4h", D: "1d" },
+    maxRows: 1000,
+    // [startTime, open, high, low, close, volume, turnover]
+    toRow: ([openTime, open, high, low, close, volume, , quoteVolume]) => [
+      String(openTime),
+      open,
+      high,
+      low,
+      close,
+      volume,
+      quoteVolume,
+    ],
+    rowOpenTime: (row) => Number(row[0]),
+  },
+}
+
+const exchangeKlinesFile = (exchange, symbol, interval) =>
+  path.join(KLINES_DIR, exchange, `${symbol.replace(/[^A-Z0-9]/g, "")}-${interval}.json`)
+
+// Fiat and stablecoin pairs all follow the synthetic USDT pair, so exchanges agree on prices like they do in reality
+function priceSymbolFor(baseAsset, quoteAsset) {
+  const base = baseAsset === "XBT" ? "BTC" : baseAsset
+  const quote = quoteAsset === "XBT" ? "BTC" : quoteAsset
+  return ["USD", "USDT", "USDC", "EUR"].includes(quote) ? `${base}USDT` : `${base}${quote}`
+}
+
+// The exchange's rows for [startTime, endTime], oldest first and at most `limit` of them counted back from the end
+function exchangeKlines(exchange, symbol, priceSymbol, interval, startTime, endTime, limit) {
+  const { toRow, rowOpenTime } = EXCHANGES[exchange]
+  const intervalMs = INTERVAL_MS[interval]
+  const lastOpenTime = Math.floor(Math.min(endTime, Date.now()) / intervalMs) * intervalMs
+  const firstOpenTime = Math.max(startTime, lastOpenTime - (limit - 1) * intervalMs)
+
+  const file = exchangeKlinesFile(exchange, symbol, interval)
+  if (existsSync(file)) {
+    return readJson(file).filter((row) => rowOpenTime(row) >= firstOpenTime && rowOpenTime(row) <= lastOpenTime)
+  }
+  return generateKlines(priceSymbol, interval, firstOpenTime, lastOpenTime, limit).map(toRow)
+}
+
+function mergeRecordedExchangeKlines(exchange, symbol, interval, rows) {
+  const { rowOpenTime } = EXCHANGES[exchange]
+  const file = exchangeKlinesFile(exchange, symbol, interval)
+  mkdirSync(path.dirname(file), { recursive: true })
+  const byOpenTime = new Map(existsSync(file) ? readJson(file).map((row) => [rowOpenTime(row), row]) : [])
+  const closedBefore = Date.now() - INTERVAL_MS[interval]
+  rows.filter((row) => rowOpenTime(row) <= closedBefore).forEach((row) => byOpenTime.set(rowOpenTime(row), row))
+  writeJson(
+    file,
+    [...byOpenTime.values()].sort((a, b) => rowOpenTime(a) - rowOpenTime(b)),
+  )
+}
+
+async function recordExchangeKlines(exchange, symbol, interval, pathname, params, readRows) {
+  const { status, body } = await fetchUpstream(pathname, params, EXCHANGES[exchange].upstreamUrl)
+  const rows = status === 200 ? readRows(body) : null
+  if (Array.isArray(rows)) mergeRecordedExchangeKlines(exchange, symbol, interval, rows)
+  return [status, body]
+}
+
+async function handleExchangeCatalog(exchange, pathname, params) {
+  const { catalogFile, upstreamUrl } = EXCHANGES[exchange]
+  if (recordMode) {
+    const { status, body } = await fetchUpstream(pathname, params, upstreamUrl)
+    if (status === 200) writeJson(catalogFile, body)
+    return [status, body]
+  }
+  return [200, readJson(catalogFile)]
+}
+
+async function handleCoinbaseCandles(params, pathname) {
+  const productId = decodeURIComponent(pathname.split("/")[2])
+  const product = readJson(EXCHANGES.coinbase.catalogFile).find((item) => item.id === productId)
+  if (!product) return [404, { message: "NotFound" }]
+
+  const interval = EXCHANGES.coinbase.intervals[params.get("granularity") ?? "60"]
+  if (!interval) return [400, { message: "Unsupported granularity" }]
+
+  const intervalMs = INTERVAL_MS[interval]
+  const endTime = params.has("end") ? Date.parse(params.get("end")) : Date.now()
+  const startTime = params.has("start") ? Date.parse(params.get("start")) : endTime - 299 * intervalMs
+  if (isNaN(startTime) || isNaN(endTime)) return [400, { message: "Invalid start or end" }]
+  if ((endTime - startTime) / intervalMs >= EXCHANGES.coinbase.maxRows) {
+    return [
+      400,
+      { message: "granularity too small for the requested time range. Count of aggregations requested exceeds 300" },
+    ]
+  }
+
+  if (recordMode) {
+    return recordExchangeKlines("coinbase", productId, interval, pathname, params, (rows) => rows)
+  }
+
+  const priceSymbol = priceSymbolFor(product.base_currency, product.quote_currency)
+  const rows = exchangeKlines(
+    "coinbase",
+    productId,
+    priceSymbol,
+    interval,
+    startTime,
+    endTime,
+    EXCHANGES.coinbase.maxRows,
+  )
+  return [200, rows.reverse()]
+}
+
+async function handleKrakenOHLC(params) {
+  const pairs = readJson(EXCHANGES.kraken.catalogFile).result
+  const requested = params.get("pair") ?? ""
+  const pairKey = Object.keys(pairs).find((key) => key === requested || pairs[key].altname === requested)
+  if (!pairKey) return [200, { error: ["EQuery:Unknown asset pair"] }]
+
+  const interval = EXCHANGES.kraken.intervals[params.get("interval") ?? "1"]
+  if (!interval) return [200, { error: ["EGeneral:Invalid arguments"] }]
+
+  const { altname, wsname } = pairs[pairKey]
+  if (recordMode) {
+    return recordExchangeKlines("kraken", altname, interval, "/0/public/OHLC", params, (body) => body.result?.[pairKey])
+  }
+
+  // Only the most recent 720 candles are ever served, whatever `since` asks for
+  const since = params.has("since") ? Number(params.get("since")) * 1000 + 1 : 0
+  const [baseAsset, quoteAsset] = wsname.split("/")
+  const rows = exchangeKlines(
+    "kraken",
+    altname,
+    priceSymbolFor(baseAsset, quoteAsset),
+    interval,
+    since,
+    Date.now(),
+    EXCHANGES.kraken.maxRows,
+  )
+  const last = rows.length > 0 ? rows[rows.length - 1][0] : Math.floor(Date.now() / 1000)
+  return [200, { error: [], result: { [pairKey]: rows, last } }]
+}
+
+async function handleBybitKline(params) {
+  const symbol = params.get("symbol") ?? ""
+  const instrument = readJson(EXCHANGES.bybit.catalogFile).result.list.find((item) => item.symbol === symbol)
+  if (params.get("category") !== "spot" || !instrument) {
+    return [200, { retCode: 10001, retMsg: "Not supported symbols", result: {}, time: Date.now() }]
+  }
+
+  const interval = EXCHANGES.bybit.intervals[params.get("interval") ?? ""]
+  if (!interval) return [200, { retCode: 10001, retMsg: "Invalid period!", result: {}, time: Date.now() }]
+
+  if (recordMode) {
+    return recordExchangeKlines("bybit", symbol, interval, "/v5/market/kline", params, (body) => body.result?.list)
+  }
+
+  const limit = Math.min(Number(params.get("limit") ?? 200), EXCHANGES.bybit.maxRows)
+  const endTime = params.has("end") ? Number(params.get("end")) : Date.now()
+  const startTime = params.has("start") ? Number(params.get("start")) : 0
+  const rows = exchangeKlines(
+    "bybit",
+    symbol,
+    priceSymbolFor(instrument.baseCoin, instrument.quoteCoin),
+    interval,
+    startTime,
+    endTime,
+    limit,
+  )
+  return [
+    200,
+    { retCode: 0, retMsg: "OK", result: { category: "spot", symbol, list: rows.reverse() }, time: Date.now() },
+  ]
+}
+
+// The still-open candle as of now: its close is the current synthetic price and its volume
+// grows with the elapsed share of the interval
+function openSyntheticKline(symbol, interval, now) {
+  const intervalMs = INTERVAL_MS[interval]
+  const openTime = Math.floor(now / intervalMs) * intervalMs
+  const basePrice = basePriceFor(symbol)
+  const [, openText, highText, lowText, , volumeText, closeTime, quoteText, trades, takerBaseText, takerQuoteText] =
+    syntheticKline(symbol, interval, openTime, basePrice)
+
+  const elapsed = Math.max(0.01, (now - openTime) / intervalMs)
+  const close = priceAt(symbol, basePrice, now)
+  const scaled = (text) => formatNumber(Number(text) * elapsed)
+
+  return {
+    t: openTime,
+    T: closeTime,
+    s: symbol,
+    i: interval,
+    o: openText,
+    c: formatNumber(close),
+    h: formatNumber(Math.max(Number(highText), close)),
+    l: formatNumber(Math.min(Number(lowText), close)),
+    v: scaled(volumeText),
+    n: Math.max(1, Math.round(trades * elapsed)),
+    x: false,
+    q: scaled(quoteText),
+    V: scaled(takerBaseText),
+    Q: scaled(takerQuoteText),
+  }
+}
+
+// Server-to-client text frame; the stub never needs to fragment or mask
+function encodeTextFrame(text) {
+  const payload = Buffer.from(text)
+  let header
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header.writeUInt8(0x81, 0)
+    header.writeUInt8(126, 1)
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header.writeUInt8(0x81, 0)
+    header.writeUInt8(127, 1)
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+function handleStreamUpgrade(req, socket) {
+  const url = new URL(req.url, `http://${req.headers.host}`)
+  const key = req.headers["sec-websocket-key"]
+  const streams = (url.searchParams.get("streams") ?? "").split("/").filter(Boolean)
+  const subscriptions = streams.map((stream) => {
+    const match = /^([a-z0-9]+)@kline_(\w+)$/.exec(stream)
+    return match && findSymbol(match[1].toUpperCase()) && INTERVAL_MS[match[2]]
+      ? { stream, symbol: match[1].toUpperCase(), interval: match[2] }
+      : null
+  })
+
+  if (url.pathname !== "/stream" || !key || subscriptions.length === 0 || subscriptions.includes(null)) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+    return
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64")
+  socket.write(
+    ["HTTP/1.1 101 Switching Protocols", "Upgrade: websocket", "Connection: Upgrade", `Sec-WebSocket-Accept: ${accept}`]
+      .concat("", "")
+      .join("\r\n"),
+  )
+  console.log(`WS ${url.pathname}${url.search} -> open`)
+
+  const push = () => {
+    const now = Date.now()
+    subscriptions.forEach(({ stream, symbol, interval }) => {
+      const data = { e: "kline", E: now, s: symbol, k: openSyntheticKline(symbol, interval, now) }
+      socket.write(encodeTextFrame(JSON.stringify({ stream, data })))
+    })
+  }
+  push()
+  const timer = setInterval(push, STREAM_UPDATE_MS)
+
+  // Any close frame (opcode 8) from the client ends the connection; other client frames are ignored
+  socket.on("data", (frame) => {
+    if ((frame[0] & 0x0f) === 0x8) socket.end()
+  })
+  socket.on("close", () => {
+    clearInterval(timer)
+    console.log(`WS ${url.pathname}${url.search} -> closed`)
+  })
+  socket.on("error", () => clearInterval(timer))
+}
+
+const ROUTES = {
+  "/api/v3/klines": handleKlines,
+  "/api/v3/exchangeInfo": handleExchangeInfo,
+  "/api/v3/ticker/24hr": handleTicker24hr,
+  "/api/v3/depth": handleDepth,
+  "/api/v3/ping": async () => [200, {}],
+  "/api/v3/time": async () => [200, { serverTime: Date.now() }],
+  "/products": (params, pathname) => handleExchangeCatalog("coinbase", pathname, params),
+  "/0/public/AssetPairs": (params, pathname) => handleExchangeCatalog("kraken", pathname, params),
+  "/0/public/OHLC": handleKrakenOHLC,
+  "/v5/market/instruments-info": (params, pathname) => handleExchangeCatalog("bybit", pathname, params),
+  "/v5/market/kline": handleBybitKline,
+}
+
+// Routes with a parameter in the path
+const PATTERN_ROUTES = [[/^\/products\/[^/]+\/candles$/, handleCoinbaseCandles]]
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`)
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Accept, Content-Type",
+    })
+    res.end()
+    return
+  }
+
+  const handler = ROUTES[url.pathname] ?? PATTERN_ROUTES.find(([pattern]) => pattern.test(url.pathname))?.[1]
+  if (!handler) {
+    send(res, 404, binanceError(-1000, `Unknown endpoint ${url.pathname}`))
+    return
+  }
+
+  const weight = REQUEST_WEIGHTS[url.pathname]?.(url.searchParams) ?? 1
+  const weightHeader = { "X-MBX-USED-WEIGHT-1M": String(consumeWeight(weight)) }
+
+  if (scenario.delayMs) {
+    await new Promise((resolve) => setTimeout(resolve, scenario.delayMs))
+  }
+
+  // Scenario failures only hit data endpoints so ping/time stay usable for health checks
+  if (REQUEST_WEIGHTS[url.pathname] && scenario.status) {
+    dataRequestCount++
+    if (dataRequestCount % (scenario.every ?? 1) === 0) {
+      const headers = scenario.retryAfter
+        ? { ...weightHeader, "Retry-After": String(scenario.retryAfter) }
+        : weightHeader
+      console.log(`${req.method} ${url.pathname}${url.search} -> ${scenario.status} (${scenarioName})`)
+      send(res, scenario.status, scenario.body ?? {}, headers)
+      return
+    }
+  }
+
+  try {
+    const [status, body] = await handler(url.searchParams, url.pathname)
+    console.log(`${req.method} ${url.pathname}${url.search} -> ${status}`)
+    send(res, status, body, weightHeader)
+  } catch (error) {
+    console.error(error)
+    send(res, 500, binanceError(-1000, error instanceof Error ? error.message : "Internal mock server error"))
+  }
+})
+
+server.on("upgrade", handleStreamUpgrade)
+
+server.listen(port, () => {
+  console.log(`Mock Binance API listening on http://localhost:${port}`)
+  console.log(`Kline streams on ws://localhost:${port}/stream`)
+  console.log(`Coinbase, Kraken and Bybit market data on http://localhost:${port} too`)
+  console.log(`Scenario: ${scenarioName} - ${scenario.description}`)
+  if (recordMode) console.log(`Recording responses from ${UPSTREAM_URL} into ${FIXTURES_DIR}`)
+})
@@ -1,13 +1,30 @@
-export type ViewMode = "daily" | "weekly" | "monthly"
+export type ViewMode = "daily" | "weekly" | "monthly" | "intraday" | "seasonality"
 
 export interface MarketData {
   date: string
+  openTime: number
   open: number
   high: number
   low: number
   close: number
   volume: number
   volatility: number
+  // Order-flow fields, present when the source reports them (e.g. Binance klines)
+  quoteAssetVolume?: number
+  numberOfTrades?: number
+  takerBuyBaseAssetVolume?: number
+  takerBuyQuoteAssetVolume?: number
+  // Derived from this and the previous candle, see lib/liquidity
+  liquidity?: LiquidityMetrics
+}
+
+export interface LiquidityMetrics {
+  // Amihud illiquidity: absolute return in percent per $1M of quote volume
+  amihud: number | null
+  // Corwin-Schultz bid-ask spread estimate in percent, from this and the previous candle's high-low range
+  spread: number | null
+  // Quote-asset volume traded
+  turnover: number
 }
 
 export interface TimeRange {
@@ -19,5 +36,146 @@ export interface MarketMetrics {
   volatility: number
   volume: number
   performance: number
+  // Average quote-asset turnover per candle
   liquidity: number
 }
+
+export type VolatilityEstimator = "close-to-close" | "parkinson" | "garman-klass" | "rogers-satchell" | "yang-zhang"
+
+export interface VolatilityModel {
+  estimator: VolatilityEstimator
+  // Trailing number of candles the estimator averages over
+  window: number
+  units: "daily" | "annualized"
+}
+
+// How candles are grouped into calendar days
+export interface TradingDayConfig {
+  // IANA time zone, e.g. "UTC" or "America/New_York"
+  timeZone: string
+  // Local hour at which a trading day starts
+  boundaryHour: number
+  // Label each day by the date it starts on, or the date it ends on (e.g. a 17:00 New York close)
+  labelBy: "start" | "end"
+}
+
+// Which trading dates a market is open on, so closed days aren't mistaken for missing data
+export interface TradingCalendar {
+  id: string
+  name: string
+  // Weekdays (0 = Sunday) the market never opens
+  weekend: number[]
+  // Holiday names by trading date ("yyyy-MM-dd") for one year
+  getHolidays: (year: number) => Map<string, string>
+}
+
+// A calendar loaded from a JSON file, as stored in the browser
+export interface CustomTradingCalendar {
+  id: string
+  name: string
+  weekend: number[]
+  holidays: Record<string, string>
+}
+
+export type CellColorMetric =
+  "volatility" | "takerBuyRatio" | "avgTradeSize" | "tradeCount" | "amihud" | "spread" | "turnover"
+
+export type KlineInterval = "15m" | "1h" | "4h" | "1d"
+
+export interface SymbolInfo {
+  symbol: string
+  baseAsset: string
+  quoteAsset: string
+  label: string
+  // Exchange trading status, e.g. "TRADING" or "BREAK" for halted and delisted pairs
+  status: string
+}
+
+// Price and quantity levels, best price first
+export interface OrderBookSnapshot {
+  symbol: string
+  fetchedAt: number
+  bids: [price: number, quantity: number][]
+  asks: [price: number, quantity: number][]
+}
+
+export interface DataSourceCapabilities {
+  intervals: KlineInterval[]
+  maxKlinesPerRequest: number
+  earliestDate: Date
+  // For sources that only keep a recent window: how many candles back from now each interval reaches
+  historyLimit?: number
+}
+
+export interface FetchProgress {
+  loaded: number
+  expected: number
+  pages: number
+}
+
+export type CandleRejectionReason =
+  | "malformed"
+  | "non-numeric"
+  | "non-positive-price"
+  | "negative-volume"
+  | "inconsistent-range"
+  | "invalid-timestamp"
+  | "before-launch"
+
+// A row the source returned but that failed validation
+export interface RejectedCandle {
+  // null when the row had no usable open time
+  openTime: number | null
+  reason: CandleRejectionReason
+  detail: string
+}
+
+// Runs of consecutive open times with no candle between the first and last candle received
+export interface DataGap {
+  start: number
+  end: number
+  candles: number
+}
+
+export interface DataQualityReport {
+  interval: KlineInterval
+  expectedCandles: number
+  receivedCandles: number
+  rejected: RejectedCandle[]
+  // Open times inside the covered span with neither a candle nor a rejected row
+  missing: number[]
+  // Open times without a candle that fall on days the trading calendar has the market closed
+  closed: number[]
+  // Missing open times grouped into contiguous outages, e.g. exchange maintenance
+  outages: DataGap[]
+  // Open times of candles that traded nothing
+  zeroVolume: number[]
+}
+
+export interface FetchKlinesParams {
+  symbol: string
+  interval: KlineInterval
+  startTime: number
+  endTime: number
+  onProgress?: (progress: FetchProgress) => void
+  onReject?: (rejection: RejectedCandle) => void
+  signal?: AbortSignal
+}
+
+export interface MarketDataSource {
+  id: string
+  name: string
+  capabilities: DataSourceCapabilities
+  fetchKlines: (params: FetchKlinesParams) => Promise<MarketData[]>
+  listSymbols: () => Promise<SymbolInfo[]>
+  // Open time of the first candle the source has for a symbol, when it can tell
+  getListingDate?: (symbol: string) => Promise<Date | null>
+  // Current order book, for sources that expose one
+  getOrderBook?: (symbol: string, signal?: AbortSignal) => Promise<OrderBookSnapshot>
+  // Streams updates of the open candle (and the final state of each candle as it closes); returns an unsubscribe
+  watchKlines?: (symbol: string, interval: KlineInterval, onCandle: (candle: MarketData) => void) => () => void
+  // Intervals a symbol can be read in, for sources where that varies by symbol (null while unknown)
+  getSymbolIntervals?: (symbol: string) => KlineInterval[] | null
+  // For sources whose symbols change while the app runs (e.g. imported datasets); returns an unsubscribe
+  subscribeSymbols?: (listener: () => void) => () => void
+}